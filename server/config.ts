@@ -0,0 +1,120 @@
+/**
+ * 服务端配置
+ * 所有密钥只从服务端环境变量读取，不再打包进前端
+ */
+
+// 对话模型上游配置（豆包与OpenAI兼容接口格式相同）
+export interface ChatUpstreamConfig {
+  apiKey: string;
+  apiUrl: string;
+  model: string;
+  /** 是否支持深度思考参数（豆包特有），不支持时不向上游转发 */
+  supportsThinking?: boolean;
+}
+
+// 火山引擎语音服务配置（TTS与ASR共用结构）
+export interface SpeechUpstreamConfig {
+  appId: string;
+  accessKey: string;
+  apiUrl: string;
+  resourceId: string;
+}
+
+// 单类接口的限流规则
+export interface RateLimitRule {
+  /** 时间窗口内允许的请求数 */
+  limit: number;
+  /** 时间窗口（毫秒） */
+  windowMs: number;
+}
+
+export interface ServerConfig {
+  port: number;
+  /** 允许跨域访问的来源，为空时只允许同源请求 */
+  allowedOrigins: string[];
+  /** 部署在反向代理之后时，从X-Forwarded-For读取客户端IP */
+  trustProxy: boolean;
+  /** 请求体大小上限（字节） */
+  maxBodySize: number;
+  /** 对话模型提供方，键为前端提交的provider */
+  chatProviders: Record<string, ChatUpstreamConfig>;
+  /** 请求未指定提供方时使用 */
+  defaultChatProvider: string;
+  tts: SpeechUpstreamConfig;
+  asr: SpeechUpstreamConfig;
+  rateLimits: Record<'chat' | 'tts' | 'asr', RateLimitRule>;
+}
+
+const env = process.env;
+
+/**
+ * 读取数字类型的环境变量
+ */
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export const config: ServerConfig = {
+  port: readNumber(env.PORT, 8787),
+  allowedOrigins: (env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean),
+  trustProxy: env.TRUST_PROXY === 'true',
+  maxBodySize: readNumber(env.MAX_BODY_SIZE, 10 * 1024 * 1024),
+  chatProviders: {
+    doubao: {
+      apiKey: env.ARK_API_KEY || '',
+      apiUrl: env.ARK_API_URL || 'https://ark.cn-beijing.volces.com/api/v3/chat/completions',
+      model: env.ARK_MODEL || '',
+      supportsThinking: true,
+    },
+    openai: {
+      apiKey: env.OPENAI_API_KEY || '',
+      apiUrl: env.OPENAI_API_URL || 'https://api.openai.com/v1/chat/completions',
+      model: env.OPENAI_MODEL || '',
+    },
+  },
+  defaultChatProvider: 'doubao',
+  tts: {
+    appId: env.TTS_APP_ID || '',
+    accessKey: env.TTS_ACCESS_KEY || '',
+    apiUrl: env.TTS_API_URL || 'https://openspeech.bytedance.com/api/v1/tts',
+    resourceId: env.TTS_RESOURCE_ID || 'volc.tts.zh_cn',
+  },
+  asr: {
+    // 未单独配置时沿用TTS的应用凭证
+    appId: env.ASR_APP_ID || env.TTS_APP_ID || '',
+    accessKey: env.ASR_ACCESS_KEY || env.TTS_ACCESS_KEY || '',
+    apiUrl: env.ASR_API_URL || 'https://openspeech.bytedance.com/api/v3/auc/bigmodel/recognize/flash',
+    resourceId: env.ASR_RESOURCE_ID || 'volc.bigasr.auc_turbo',
+  },
+  rateLimits: {
+    chat: { limit: readNumber(env.RATE_LIMIT_CHAT, 20), windowMs: 60_000 },
+    tts: { limit: readNumber(env.RATE_LIMIT_TTS, 60), windowMs: 60_000 },
+    asr: { limit: readNumber(env.RATE_LIMIT_ASR, 20), windowMs: 60_000 },
+  },
+};
+
+/**
+ * 对话模型提供方是否已配置完整
+ */
+export function isChatProviderConfigured(provider: ChatUpstreamConfig): boolean {
+  return !!(provider.apiKey && provider.apiUrl && provider.model);
+}
+
+/**
+ * 各项能力是否已配置，供前端决定显示哪些功能
+ */
+export function getCapabilities() {
+  const llm = Object.fromEntries(
+    Object.entries(config.chatProviders).map(([id, provider]) => [id, isChatProviderConfigured(provider)])
+  );
+  return {
+    chat: Object.values(llm).some(Boolean),
+    llm,
+    tts: !!(config.tts.appId && config.tts.accessKey && config.tts.apiUrl),
+    asr: !!(config.asr.appId && config.asr.accessKey && config.asr.apiUrl),
+  };
+}
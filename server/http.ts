@@ -0,0 +1,119 @@
+/**
+ * HTTP工具函数
+ * 读取请求体、返回JSON、把上游响应以流的方式转发给客户端
+ */
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { ReadableStream as NodeReadableStream } from 'node:stream/web';
+
+/**
+ * 带状态码的请求错误，由路由抛出、在入口统一转换为JSON响应
+ */
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * 读取并解析JSON请求体
+ */
+export async function readJsonBody(req: IncomingMessage, maxSize: number): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxSize) {
+      throw new HttpError(413, '请求体过大');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('not an object');
+    }
+    return body;
+  } catch {
+    throw new HttpError(400, '请求体不是有效的JSON对象');
+  }
+}
+
+/**
+ * 返回JSON响应
+ */
+export function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 获取客户端标识（IP），用于限流
+ */
+export function getClientId(req: IncomingMessage, trustProxy: boolean): string {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * 创建随客户端断开而取消的AbortController，避免客户端取消后上游仍在生成
+ */
+export function createClientAbortController(req: IncomingMessage, res: ServerResponse): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  req.on('aborted', () => controller.abort());
+  return controller;
+}
+
+/**
+ * 把上游响应（状态码、指定的响应头和响应体）原样以流的方式转发
+ * @param passHeaders 需要透传的上游响应头
+ */
+export async function pipeUpstream(upstream: Response, res: ServerResponse, passHeaders: string[] = []): Promise<void> {
+  const headers: Record<string, string> = {
+    'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream',
+    // 禁止中间代理缓冲，保证流式数据及时送达
+    'Cache-Control': 'no-cache',
+    'X-Accel-Buffering': 'no',
+  };
+  for (const name of passHeaders) {
+    const value = upstream.headers.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  }
+  res.writeHead(upstream.status, headers);
+
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+
+  await new Promise<void>((resolve) => {
+    const stream = Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>);
+    stream.on('error', (error) => {
+      // 客户端断开导致的中止无需记录
+      if (error.name !== 'AbortError') {
+        console.error('转发上游响应失败:', error);
+      }
+      res.destroy();
+      resolve();
+    });
+    stream.on('end', resolve);
+    stream.pipe(res);
+  });
+}
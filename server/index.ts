@@ -0,0 +1,129 @@
+/**
+ * 情绪排解助手后端代理
+ * 持有豆包与火山引擎语音的密钥，为前端提供对话、语音合成、语音识别和提示词接口，
+ * 并按客户端IP限流
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { config, getCapabilities } from './config';
+import { HttpError, sendJson, getClientId } from './http';
+import { RateLimiter } from './rateLimiter';
+import { handleChat } from './routes/chat';
+import { handleTts, handleAsr } from './routes/speech';
+import { handlePrompts } from './routes/prompts';
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+// 路由定义
+interface Route {
+  method: 'GET' | 'POST';
+  handler: RouteHandler;
+  /** 不设置时不限流 */
+  limiter?: RateLimiter;
+}
+
+const routes: Record<string, Route> = {
+  '/api/health': {
+    method: 'GET',
+    handler: async (_req, res) => sendJson(res, 200, { ok: true, capabilities: getCapabilities() }),
+  },
+  '/api/prompts': { method: 'GET', handler: handlePrompts },
+  '/api/chat': { method: 'POST', handler: handleChat, limiter: new RateLimiter(config.rateLimits.chat) },
+  '/api/tts': { method: 'POST', handler: handleTts, limiter: new RateLimiter(config.rateLimits.tts) },
+  '/api/asr': { method: 'POST', handler: handleAsr, limiter: new RateLimiter(config.rateLimits.asr) },
+};
+
+/**
+ * 请求来源是否与代理同源（前端与代理部署在同一域名下）
+ */
+function isSameOrigin(req: IncomingMessage, origin: string): boolean {
+  const forwardedHost = config.trustProxy ? req.headers['x-forwarded-host'] : undefined;
+  const host = (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost) || req.headers.host;
+  try {
+    return !!host && new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 设置跨域响应头，返回来源是否被允许
+ * 未配置允许的来源时只接受同源请求，避免其他网站借用代理的密钥
+ */
+function applyCors(req: IncomingMessage, res: ServerResponse): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+
+  const allowed = config.allowedOrigins.length === 0 ? isSameOrigin(req, origin) : config.allowedOrigins.includes(origin);
+  if (!allowed) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Api-Request-Id');
+  res.setHeader('Access-Control-Expose-Headers', 'X-Api-Status-Code, X-Api-Message, Retry-After');
+  return true;
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (!applyCors(req, res)) {
+    sendJson(res, 403, { error: '不允许的来源' });
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  const route = routes[pathname];
+  if (!route) {
+    sendJson(res, 404, { error: '接口不存在' });
+    return;
+  }
+  if (req.method !== route.method) {
+    sendJson(res, 405, { error: '请求方法不支持' });
+    return;
+  }
+
+  if (route.limiter) {
+    const clientId = getClientId(req, config.trustProxy);
+    const result = route.limiter.check(clientId);
+    res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+    if (!result.allowed) {
+      console.warn(`🚦 限流: ${clientId} ${pathname}`);
+      res.setHeader('Retry-After', String(result.retryAfter));
+      sendJson(res, 429, { error: '请求过于频繁，请稍后再试' });
+      return;
+    }
+  }
+
+  try {
+    await route.handler(req, res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      // 客户端已断开
+      res.destroy();
+      return;
+    }
+    console.error(`处理请求失败 ${pathname}:`, error);
+    sendJson(res, 502, { error: '上游服务暂时不可用' });
+  }
+}
+
+const server = createServer((req, res) => {
+  handleRequest(req, res);
+});
+
+server.listen(config.port, () => {
+  console.log(`🚀 代理服务已启动: http://localhost:${config.port}`);
+  console.log('已配置的能力:', getCapabilities());
+});
@@ -0,0 +1,68 @@
+/**
+ * 按客户端限流
+ * 滑动窗口计数：记录每个客户端在窗口内的请求时间，超出上限时拒绝
+ */
+import { RateLimitRule } from './config';
+
+// 限流检查结果
+export interface RateLimitResult {
+  allowed: boolean;
+  /** 窗口内剩余可用次数 */
+  remaining: number;
+  /** 被拒绝时，距离可以再次请求的秒数 */
+  retryAfter: number;
+}
+
+/** 清理过期记录的间隔（毫秒） */
+const CLEANUP_INTERVAL = 60_000;
+
+export class RateLimiter {
+  private rule: RateLimitRule;
+  private hits = new Map<string, number[]>();
+  private cleanupTimer: ReturnType<typeof setInterval>;
+
+  constructor(rule: RateLimitRule) {
+    this.rule = rule;
+    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL);
+    // 定时清理不应阻止进程退出
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * 记录一次请求并返回是否放行
+   */
+  check(clientId: string): RateLimitResult {
+    const now = Date.now();
+    const windowStart = now - this.rule.windowMs;
+    const timestamps = (this.hits.get(clientId) ?? []).filter(time => time > windowStart);
+
+    if (timestamps.length >= this.rule.limit) {
+      this.hits.set(clientId, timestamps);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfter: Math.max(1, Math.ceil((timestamps[0] + this.rule.windowMs - now) / 1000)),
+      };
+    }
+
+    timestamps.push(now);
+    this.hits.set(clientId, timestamps);
+    return {
+      allowed: true,
+      remaining: this.rule.limit - timestamps.length,
+      retryAfter: 0,
+    };
+  }
+
+  /**
+   * 删除窗口外已无请求记录的客户端
+   */
+  private cleanup(): void {
+    const windowStart = Date.now() - this.rule.windowMs;
+    for (const [clientId, timestamps] of this.hits) {
+      if (timestamps[timestamps.length - 1] <= windowStart) {
+        this.hits.delete(clientId);
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 对话接口：POST /api/chat
+ * 前端只提交提供方、消息和生成参数，模型与密钥由服务端补充，流式响应原样转发。
+ * 消息只接受用户和助手的发言，系统提示词通过单独的system字段提交，由代理放在消息列表最前
+ */
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { config, isChatProviderConfigured } from '../config';
+import { HttpError, readJsonBody, pipeUpstream, createClientAbortController } from '../http';
+
+/** 单次回复的最大Token数上限，避免被滥用生成超长内容 */
+const MAX_TOKENS_LIMIT = 4000;
+/** 单次请求的最大消息条数 */
+const MAX_MESSAGES = 200;
+/** 系统提示词的最大长度（字符） */
+const MAX_SYSTEM_LENGTH = 20000;
+
+const ALLOWED_ROLES = new Set(['user', 'assistant']);
+const REASONING_EFFORTS = new Set(['low', 'medium', 'high']);
+const THINKING_TYPES = new Set(['enabled', 'disabled', 'auto']);
+
+/** 停止词的最大个数与长度 */
+const MAX_STOP_SEQUENCES = 4;
+const MAX_STOP_LENGTH = 32;
+
+/**
+ * 校验消息列表
+ */
+function validateMessages(value: unknown): Array<{ role: string; content: string }> {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new HttpError(400, 'messages不能为空');
+  }
+  if (value.length > MAX_MESSAGES) {
+    throw new HttpError(400, `消息条数不能超过${MAX_MESSAGES}条`);
+  }
+  return value.map((message, index) => {
+    if (message?.role === 'system') {
+      throw new HttpError(400, `第${index + 1}条消息的角色不支持，系统提示词请通过system字段提交`);
+    }
+    if (!message || !ALLOWED_ROLES.has(message.role) || typeof message.content !== 'string') {
+      throw new HttpError(400, `第${index + 1}条消息格式错误`);
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * 读取可选的系统提示词
+ */
+function optionalSystem(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.length > MAX_SYSTEM_LENGTH) {
+    throw new HttpError(400, `system需为不超过${MAX_SYSTEM_LENGTH}字的字符串`);
+  }
+  return value || undefined;
+}
+
+/**
+ * 读取可选的数字参数
+ */
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * 读取可选的停止词列表
+ */
+function optionalStop(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length > MAX_STOP_SEQUENCES ||
+    value.some(item => typeof item !== 'string' || !item || item.length > MAX_STOP_LENGTH)
+  ) {
+    throw new HttpError(400, `stop应为不超过${MAX_STOP_SEQUENCES}个、每个不超过${MAX_STOP_LENGTH}字的字符串`);
+  }
+  return value;
+}
+
+/**
+ * 读取可选的枚举参数，不在允许范围内时忽略
+ */
+function optionalEnum(value: unknown, allowed: Set<string>): string | undefined {
+  return typeof value === 'string' && allowed.has(value) ? value : undefined;
+}
+
+export async function handleChat(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readJsonBody(req, config.maxBodySize);
+  const providerId = typeof body.provider === 'string' ? body.provider : config.defaultChatProvider;
+  const provider = Object.hasOwn(config.chatProviders, providerId) ? config.chatProviders[providerId] : undefined;
+  if (!provider) {
+    throw new HttpError(400, `未知的模型提供方: ${providerId}`);
+  }
+  if (!isChatProviderConfigured(provider)) {
+    throw new HttpError(503, `服务端未配置模型提供方${providerId}的密钥或模型`);
+  }
+  const { apiKey, apiUrl, model, supportsThinking } = provider;
+
+  const stream = body.stream === true;
+  const system = optionalSystem(body.system);
+  const messages = validateMessages(body.messages);
+  const maxTokens = optionalNumber(body.max_tokens);
+  const thinking = body.thinking && typeof body.thinking === 'object' ? (body.thinking as Record<string, unknown>) : undefined;
+  const thinkingType = supportsThinking ? optionalEnum(thinking?.type, THINKING_TYPES) : undefined;
+
+  // 只透传白名单内的参数
+  const upstreamBody = {
+    model,
+    messages: system ? [{ role: 'system', content: system }, ...messages] : messages,
+    temperature: optionalNumber(body.temperature),
+    top_p: optionalNumber(body.top_p),
+    max_tokens: Math.min(maxTokens ?? 2000, MAX_TOKENS_LIMIT),
+    frequency_penalty: optionalNumber(body.frequency_penalty),
+    presence_penalty: optionalNumber(body.presence_penalty),
+    stop: optionalStop(body.stop),
+    reasoning_effort: optionalEnum(body.reasoning_effort, REASONING_EFFORTS),
+    ...(thinkingType ? { thinking: { type: thinkingType } } : {}),
+    stream,
+    ...(stream ? { stream_options: { include_usage: true } } : {}),
+  };
+
+  const controller = createClientAbortController(req, res);
+  const upstream = await fetch(apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(upstreamBody),
+    signal: controller.signal,
+  });
+
+  if (!upstream.ok) {
+    console.warn(`模型提供方${providerId}返回错误:`, upstream.status, await upstream.text());
+    throw new HttpError(upstream.status, `上游对话服务请求失败 (${upstream.status})`);
+  }
+
+  await pipeUpstream(upstream, res);
+}
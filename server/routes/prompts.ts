@@ -0,0 +1,26 @@
+/**
+ * 提示词接口：GET /api/prompts
+ * 返回服务端的prompts.md，修改提示词后无需重新构建前端
+ */
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { HttpError } from '../http';
+
+const PROMPTS_PATH = resolve(process.env.PROMPTS_PATH || 'src/config/prompts.md');
+
+export async function handlePrompts(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+  let content: string;
+  try {
+    content = await readFile(PROMPTS_PATH, 'utf-8');
+  } catch (error) {
+    console.error('读取提示词文件失败:', error);
+    throw new HttpError(404, '提示词文件不存在');
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/markdown; charset=utf-8',
+    'Cache-Control': 'no-cache',
+  });
+  res.end(content);
+}
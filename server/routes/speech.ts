@@ -0,0 +1,81 @@
+/**
+ * 语音接口：POST /api/tts、POST /api/asr
+ * 请求体由前端按火山引擎格式构造，服务端补充鉴权请求头后转发
+ */
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { config, SpeechUpstreamConfig } from '../config';
+import { HttpError, readJsonBody, pipeUpstream, createClientAbortController } from '../http';
+
+/** 单次合成的最大文本长度，与前端校验保持一致 */
+const MAX_TTS_TEXT_LENGTH = 1000;
+
+/**
+ * 转发语音请求
+ * @param passHeaders 需要透传给前端的上游响应头（如业务状态码）
+ */
+async function proxySpeechRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  upstreamConfig: SpeechUpstreamConfig,
+  body: Record<string, unknown>,
+  passHeaders: string[] = []
+): Promise<void> {
+  const controller = createClientAbortController(req, res);
+  const requestId = req.headers['x-api-request-id'];
+
+  const upstream = await fetch(upstreamConfig.apiUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Api-App-Key': upstreamConfig.appId,
+      'X-Api-Access-Key': upstreamConfig.accessKey,
+      'X-Api-Resource-Id': upstreamConfig.resourceId,
+      'X-Api-Request-Id': typeof requestId === 'string' && requestId ? requestId : randomUUID(),
+      'X-Api-Sequence': '-1',
+    },
+    body: JSON.stringify(body),
+    signal: controller.signal,
+  });
+
+  if (!upstream.ok) {
+    console.warn('语音服务返回错误:', upstream.status, await upstream.text());
+    throw new HttpError(upstream.status, `上游语音服务请求失败 (${upstream.status})`);
+  }
+
+  await pipeUpstream(upstream, res, passHeaders);
+}
+
+export async function handleTts(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { appId, accessKey } = config.tts;
+  if (!appId || !accessKey) {
+    throw new HttpError(503, '服务端未配置TTS的APP_ID和ACCESS_KEY');
+  }
+
+  const body = await readJsonBody(req, config.maxBodySize);
+  const reqParams = body.req_params as { text?: unknown } | undefined;
+  if (typeof reqParams?.text !== 'string' || !reqParams.text.trim()) {
+    throw new HttpError(400, '文本内容不能为空');
+  }
+  if (reqParams.text.length > MAX_TTS_TEXT_LENGTH) {
+    throw new HttpError(400, `文本长度不能超过${MAX_TTS_TEXT_LENGTH}个字符`);
+  }
+
+  await proxySpeechRequest(req, res, config.tts, body);
+}
+
+export async function handleAsr(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const { appId, accessKey } = config.asr;
+  if (!appId || !accessKey) {
+    throw new HttpError(503, '服务端未配置ASR的APP_ID和ACCESS_KEY');
+  }
+
+  const body = await readJsonBody(req, config.maxBodySize);
+  const audio = body.audio as { data?: unknown } | undefined;
+  if (typeof audio?.data !== 'string' || !audio.data) {
+    throw new HttpError(400, '录音数据不能为空');
+  }
+
+  // 识别结果的业务状态码在响应头中返回
+  await proxySpeechRequest(req, res, config.asr, body, ['X-Api-Status-Code', 'X-Api-Message']);
+}
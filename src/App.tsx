@@ -1,24 +1,103 @@
 import { useState, useRef, useEffect } from 'react';
-import { MessageCircle, Heart, Smile, Send, AlertCircle, Loader2 } from 'lucide-react';
-import { doubaoApi, ChatMessage, emotionModes, EmotionMode } from './services/doubaoApi';
+import { Send, UserPlus, AlertCircle, Loader2, Square, History, Phone, ListMusic, Download } from 'lucide-react';
+import { doubaoApi, ChatMessage, ChatUsage, EmotionMode } from './services/doubaoApi';
+import { contextManager, PreparedContext } from './services/contextManager';
 import { promptLoader } from './services/promptLoader';
-import { ttsService } from './services/ttsService';
+import { serverStatus } from './services/apiClient';
+import { ttsService, AudioFormat, SentenceTimestamp } from './services/ttsService';
+import { SpeechPipeline } from './services/speechPipeline';
+import { audioQueueManager, QueueItem } from './services/audioQueueManager';
+import { toSpeakableText } from './services/replyFormatter';
+import { audioExporter, ExportAudioFormat } from './services/audioExporter';
+import { downloadBlob } from './services/fileDownload';
+import { ImportedConversation } from './services/conversationExporter';
+import { asrService } from './services/asrService';
+import { VoiceCallController } from './services/voiceCallController';
+import { conversationStore, DisplayMessage } from './services/conversationStore';
+import { safetyService } from './services/safetyService';
+import { modeRegistry } from './services/modeRegistry';
+// 载入本地保存的自定义人设，使上次使用的自定义人设能够恢复
+import './services/customModeStore';
+import { useConversations } from './hooks/useConversations';
+import { useModes } from './hooks/useModes';
 import AudioPlayer from './components/AudioPlayer';
+import ConversationSidebar from './components/ConversationSidebar';
+import MicButton from './components/MicButton';
+import VoiceCallScreen from './components/VoiceCallScreen';
+import CrisisBanner from './components/CrisisBanner';
+import ModeIcon from './components/ModeIcon';
+import PersonaEditor from './components/PersonaEditor';
+import GenerationDebugPanel from './components/GenerationDebugPanel';
+import TTSConfigPanel from './components/TTSConfigPanel';
+import ReplyContent from './components/ReplyContent';
+import NowPlayingBar from './components/NowPlayingBar';
+import ConversationAudioExport from './components/ConversationAudioExport';
+import ConversationExportMenu from './components/ConversationExportMenu';
 
-interface DisplayMessage extends ChatMessage {
-  id: string;
-  timestamp: Date;
-  audioData?: string; // 添加音频数据字段
-}
+// 移动端浏览器需要用户手势才能播放音频，不自动播放
+const isMobileDevice = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+
+// 语音输入识别后是否自动发送的本地设置
+const VOICE_AUTO_SEND_KEY = 'qingxupaijie:voiceAutoSend';
+
+// 开发环境或地址带有?debug时显示调试面板
+const isDebugMode = import.meta.env.DEV || new URLSearchParams(window.location.search).has('debug');
+
+/**
+ * 读取上次使用的模式，刷新页面后恢复
+ */
+const getInitialMode = (): EmotionMode => {
+  const lastMode = conversationStore.getLastMode();
+  return lastMode && modeRegistry.has(lastMode) ? lastMode : modeRegistry.getDefaultId();
+};
 
 function App() {
-  const [selectedTab, setSelectedTab] = useState<EmotionMode>('chat');
+  const [selectedTab, setSelectedTab] = useState<EmotionMode>(getInitialMode);
+  const modes = useModes();
   const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<DisplayMessage[]>([]);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [voiceAutoSend, setVoiceAutoSend] = useState(() => localStorage.getItem(VOICE_AUTO_SEND_KEY) === 'true');
+  const [isVoiceCallOpen, setIsVoiceCallOpen] = useState(false);
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
+  const [isAudioExportOpen, setIsAudioExportOpen] = useState(false);
+  // 展开了语音下载格式选项的消息
+  const [audioMenuMessageId, setAudioMenuMessageId] = useState<string | null>(null);
+  const [isServerStatusLoaded, setIsServerStatusLoaded] = useState(serverStatus.isLoaded());
+  // 检测到自杀/自伤风险后常驻显示求助热线，本次打开页面期间不再隐藏
+  const [isCrisisDetected, setIsCrisisDetected] = useState(false);
+  const {
+    sessions,
+    currentSessionId,
+    conversationId,
+    messages,
+    setMessages,
+    isRestoring,
+    startNewSession,
+    selectSession,
+    importSession,
+    renameSession,
+    deleteSession,
+  } = useConversations(selectedTab);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  // 正在播放的回复语音及其进度（秒），用于逐字高亮
+  const [spokenPosition, setSpokenPosition] = useState<{ messageId: string; time: number } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<ChatUsage | null>(null);
+  const [contextInfo, setContextInfo] = useState<Pick<PreparedContext, 'estimatedTokens' | 'summarized' | 'compressedCount'> | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const speechPipelineRef = useRef<SpeechPipeline | null>(null);
+  // 语音通话在回调中读取最新的对话历史和会话ID
+  const messagesRef = useRef<DisplayMessage[]>(messages);
+  messagesRef.current = messages;
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
+  const isRestoringRef = useRef(isRestoring);
+  isRestoringRef.current = isRestoring;
+  // 已检测过高风险表达的用户消息
+  const checkedCrisisMessagesRef = useRef(new WeakSet<DisplayMessage>());
 
   // 自动滚动到最新消息
   const scrollToBottom = () => {
@@ -29,6 +108,26 @@ function App() {
     scrollToBottom();
   }, [messages]);
 
+  // 对话服务检测到高风险表达时显示求助热线
+  useEffect(() => safetyService.onCrisis(() => setIsCrisisDetected(true)), []);
+
+  // 载入的历史会话中出现过高风险表达时同样显示
+  // 流式输出时消息列表频繁更新，只检测尚未检测过的用户消息
+  useEffect(() => {
+    if (isCrisisDetected) return;
+    const checked = checkedCrisisMessagesRef.current;
+    const unchecked = messages.filter(msg => msg.role === 'user' && !checked.has(msg));
+    unchecked.forEach(msg => checked.add(msg));
+    if (unchecked.length > 0 && safetyService.hasCrisis(unchecked)) {
+      setIsCrisisDetected(true);
+    }
+  }, [messages, isCrisisDetected]);
+
+  // 查询后端代理已配置的能力，加载后刷新各功能的可用状态
+  useEffect(() => {
+    serverStatus.load().then(() => setIsServerStatusLoaded(true));
+  }, []);
+
   // 初始化prompt加载器
   useEffect(() => {
     const initPromptLoader = async () => {
@@ -43,23 +142,30 @@ function App() {
     initPromptLoader();
   }, []);
 
+  // 后端代理的提示词中没有当前模式时，切换到第一个模式
+  useEffect(() => {
+    if (modes.length > 0 && !modes.some(mode => mode.id === selectedTab)) {
+      setSelectedTab(modes[0].id);
+    }
+  }, [modes, selectedTab]);
+
   // 发送消息处理函数
-  const handleSendMessage = async () => {
-    if (!message.trim()) return;
+  const handleSendMessage = async (text: string = message) => {
+    if (!text.trim()) return;
     
     // 清除之前的错误
     setError(null);
     
     // 检查API配置
-    if (!doubaoApi.isConfigured()) {
-      setError('请先在.env文件中配置豆包API密钥');
+    if (!doubaoApi.isConfigured(selectedTab)) {
+      setError('AI对话服务不可用，请检查后端代理的模型配置');
       return;
     }
 
     const userMessage: DisplayMessage = {
       id: Date.now().toString(),
       role: 'user',
-      content: message.trim(),
+      content: text.trim(),
       timestamp: new Date()
     };
 
@@ -68,6 +174,33 @@ function App() {
     setMessage('');
     setIsLoading(true);
 
+    const aiMessageId = (Date.now() + 1).toString();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // 边生成边分句合成语音，第一句合成完即开始播放
+    const createSpeechPipeline = () => ttsService.isConfigured()
+      ? new SpeechPipeline({ mode: selectedTab, messageId: aiMessageId, autoPlay: !isMobileDevice })
+      : null;
+    let speechPipeline = createSpeechPipeline();
+    speechPipelineRef.current = speechPipeline;
+
+    // 新增或更新AI回复
+    const updateReply = (fullText: string) => {
+      setMessages(prev => {
+        const exists = prev.some(msg => msg.id === aiMessageId);
+        if (!exists) {
+          return [...prev, {
+            id: aiMessageId,
+            role: 'assistant',
+            content: fullText,
+            timestamp: new Date()
+          }];
+        }
+        return prev.map(msg => msg.id === aiMessageId ? { ...msg, content: fullText } : msg);
+      });
+    };
+
     try {
       // 准备发送给API的消息历史（不包含id和timestamp）
       const chatHistory: ChatMessage[] = [...messages, userMessage].map(msg => ({
@@ -75,37 +208,70 @@ function App() {
         content: msg.content
       }));
 
-      // 调用豆包API
-      const response = await doubaoApi.sendMessage(chatHistory, selectedTab);
-      
-      // 为AI回复自动生成语音
-      let audioData: string | undefined;
-      if (ttsService.isConfigured()) {
-        try {
-          const voiceMode = selectedTab === 'chat' ? '受气包' : selectedTab === 'mutual' ? '抬杠' : '心理疗愈';
-          const ttsResponse = await ttsService.synthesizeByMode(response, voiceMode);
-          if (ttsResponse.success && ttsResponse.data?.audio) {
-            audioData = ttsResponse.data.audio;
-          }
-        } catch (ttsError) {
-          console.error('语音合成失败:', ttsError);
+      // 超出上下文预算时压缩早期对话，系统提示词由API服务固定在最前
+      const context = await contextManager.prepareMessages(chatHistory, selectedTab, conversationId);
+      setContextInfo({
+        estimatedTokens: context.estimatedTokens,
+        summarized: context.summarized,
+        compressedCount: context.compressedCount,
+      });
+
+      // 流式调用豆包API，逐字渲染AI回复
+      const response = await doubaoApi.sendMessageStream(context.messages, selectedTab, {
+        signal: abortController.signal,
+        history: chatHistory,
+        onUsage: setUsage,
+        onDelta: (delta, fullText) => {
+          speechPipeline?.push(delta);
+          setStreamingMessageId(aiMessageId);
+          updateReply(fullText);
+        },
+        // 回复未通过内容审核被替换：丢弃已合成的语音，按替换后的内容重新合成
+        onReplace: (fullText) => {
+          speechPipeline?.cancel();
+          speechPipeline = createSpeechPipeline();
+          speechPipelineRef.current = speechPipeline;
+          speechPipeline?.push(fullText);
+          updateReply(fullText);
         }
+      });
+      setStreamingMessageId(null);
+
+      // 未收到任何内容（例如刚发送就被取消），或已被用户停止生成
+      if (!response || abortController.signal.aborted) {
+        speechPipeline?.cancel();
+        return;
       }
       
-      // 添加AI回复到聊天记录
-      const aiMessage: DisplayMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-        audioData
-      };
-      
-      setMessages(prev => [...prev, aiMessage]);
+      // 全部片段合成完成后，将合并的语音数据附加到AI回复上供回放；
+      // 合成期间已切换到其他会话时，直接写入回复所在的会话
+      const replySessionId = conversationId;
+      speechPipeline?.end()
+        .then(async ({ audio, format, timestamps }) => {
+          if (!audio) return;
+          if (conversationIdRef.current === replySessionId && !isRestoringRef.current) {
+            setMessages(prev => prev.map(msg => msg.id === aiMessageId ? { ...msg, audioData: audio, audioFormat: format, audioTimestamps: timestamps } : msg));
+            return;
+          }
+          const saved = await conversationStore.attachAudio(replySessionId, aiMessageId, {
+            audioData: audio,
+            audioFormat: format,
+            audioTimestamps: timestamps,
+          });
+          if (!saved) {
+            console.warn('回复所在的会话尚未保存，语音未能保存');
+          }
+        })
+        .catch(ttsError => {
+          console.error('语音合成失败:', ttsError);
+        });
     } catch (err) {
+      speechPipeline?.cancel();
       console.error('发送消息失败:', err);
       setError(err instanceof Error ? err.message : '发送消息失败，请重试');
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
       // AI回答完成后，重新聚焦到输入框
       setTimeout(() => {
@@ -114,6 +280,113 @@ function App() {
     }
   };
 
+  // 带语音的回复在播放队列中的播放项，标识与消息上的播放器一致
+  const buildMessageQueueItem = (msg: DisplayMessage): QueueItem => ({
+    id: `message-${msg.id}`,
+    messageId: msg.id,
+    title: toSpeakableText(msg.content),
+    segments: [{ type: 'audio', audio: msg.audioData!, format: msg.audioFormat }],
+  });
+
+  // 从指定消息开始，按顺序连续播放之后所有带语音的回复
+  const handlePlayFrom = (messageId: string) => {
+    const start = messages.findIndex(msg => msg.id === messageId);
+    audioQueueManager.playAll(
+      messages
+        .slice(start)
+        .filter(msg => msg.role === 'assistant' && msg.audioData)
+        .map(buildMessageQueueItem)
+    );
+  };
+
+  // 点击回复中的字词：正在播放这条回复时跳转，否则从该字开始播放
+  const handleSeekWord = (msg: DisplayMessage, time: number) => {
+    if (audioQueueManager.getState().current?.id === `message-${msg.id}`) {
+      audioQueueManager.seek(time);
+      return;
+    }
+    audioQueueManager.enqueue({ ...buildMessageQueueItem(msg), startTime: time }, 'interrupt');
+  };
+
+  // 把回复的语音保存为文件
+  const handleDownloadAudio = async (msg: DisplayMessage, format: ExportAudioFormat) => {
+    setAudioMenuMessageId(null);
+    try {
+      const blob = await audioExporter.exportMessage(msg, format, selectedTab);
+      downloadBlob(blob, audioExporter.getMessageFilename(msg, currentMode?.label ?? '', format));
+    } catch (err) {
+      console.error('导出语音失败:', err);
+      setError(err instanceof Error ? err.message : '导出语音失败，请重试');
+    }
+  };
+
+  // 消息播放器的播放进度，用于逐字高亮
+  const handleSpeechTime = (messageId: string, time: number | null) => {
+    setSpokenPosition(prev => {
+      if (time !== null) return { messageId, time };
+      return prev?.messageId === messageId ? null : prev;
+    });
+  };
+
+  // 停止生成当前回复
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+    speechPipelineRef.current?.cancel();
+  };
+
+  // 语音识别完成：自动发送，或填入输入框供修改
+  const handleTranscript = (text: string) => {
+    if (voiceAutoSend && !isLoading) {
+      handleSendMessage(text);
+      return;
+    }
+    setMessage(prev => (prev ? `${prev}${text}` : text));
+    textareaRef.current?.focus();
+  };
+
+  // 切换语音识别后自动发送
+  const toggleVoiceAutoSend = () => {
+    const next = !voiceAutoSend;
+    setVoiceAutoSend(next);
+    localStorage.setItem(VOICE_AUTO_SEND_KEY, String(next));
+  };
+
+  // 开始语音通话，先中断正在进行的文字回复
+  const handleStartVoiceCall = () => {
+    if (!doubaoApi.isConfigured(selectedTab)) {
+      setError('AI对话服务不可用，请检查后端代理的模型配置');
+      return;
+    }
+    interruptReply();
+    setError(null);
+    setIsVoiceCallOpen(true);
+  };
+
+  // 语音通话中识别出的用户发言
+  const handleVoiceCallUserMessage = (text: string) => {
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'user',
+      content: text,
+      timestamp: new Date()
+    }]);
+  };
+
+  // 语音通话中的AI回复（增量更新）
+  const handleVoiceCallReply = (id: string, fullText: string) => {
+    setMessages(prev => {
+      if (!prev.some(msg => msg.id === id)) {
+        return [...prev, { id, role: 'assistant', content: fullText, timestamp: new Date() }];
+      }
+      return prev.map(msg => msg.id === id ? { ...msg, content: fullText } : msg);
+    });
+  };
+
+  // 语音通话中的AI回复语音，附加到消息上供回放
+  const handleVoiceCallAudio = (id: string, audio: string, format: AudioFormat, timestamps?: SentenceTimestamp[]) => {
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, audioData: audio, audioFormat: format, audioTimestamps: timestamps } : msg));
+  };
+
   // 处理回车键发送
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -122,20 +395,80 @@ function App() {
     }
   };
 
-  // 清空聊天记录
+  // 中断正在进行的回复生成和语音播放
+  // 回复已生成完时只停止播放，语音继续合成并保存到回复所在的会话
+  const interruptReply = () => {
+    abortControllerRef.current?.abort();
+    speechPipelineRef.current?.stopPlayback();
+    setUsage(null);
+    setContextInfo(null);
+  };
+
+  // 清空当前会话的聊天记录
   const clearMessages = () => {
+    interruptReply();
+    speechPipelineRef.current?.cancel();
+    contextManager.clearSession(conversationId);
     setMessages([]);
     setError(null);
   };
 
-  // 获取当前模式的配置
-  const currentMode = emotionModes[selectedTab] || emotionModes.chat;
-  
-  const tabs: Array<{ id: EmotionMode; label: string; gradient: string }> = [
-    { id: 'chat', label: '受气包', gradient: 'from-red-300 to-red-400' },
-    { id: 'mutual', label: '抬杠', gradient: 'from-red-300 to-red-400' },
-    { id: 'mood', label: '疗愈', gradient: 'from-red-300 to-red-400' }
-  ];
+  // 切换模式：保留各模式的会话，恢复目标模式最近的会话
+  const handleSwitchMode = (mode: EmotionMode) => {
+    if (mode === selectedTab) return;
+    interruptReply();
+    setError(null);
+    setSelectedTab(mode);
+  };
+
+  // 切换到历史会话
+  const handleSelectSession = (id: string) => {
+    if (id === currentSessionId) return;
+    interruptReply();
+    setError(null);
+    selectSession(id);
+  };
+
+  // 开始新对话
+  const handleNewSession = () => {
+    interruptReply();
+    setError(null);
+    startNewSession();
+  };
+
+  // 导入对话并打开；文件中的人设在本机不存在时，询问是否导入到当前模式
+  const handleImportConversation = async (imported: ImportedConversation) => {
+    let mode = imported.matchedMode;
+    if (!mode) {
+      const confirmed = window.confirm(
+        `导入的对话使用的人设「${imported.mode.label}」在本机不存在，是否导入到当前的「${currentMode?.label}」模式？`
+      );
+      if (!confirmed) return;
+      mode = selectedTab;
+    }
+
+    interruptReply();
+    setError(null);
+    try {
+      await importSession({
+        id: conversationStore.generateId(),
+        mode,
+        title: imported.title,
+        createdAt: imported.createdAt,
+        updatedAt: Date.now(),
+        messageCount: imported.messages.length,
+        messages: imported.messages,
+      });
+      setSelectedTab(mode);
+    } catch (err) {
+      console.error('导入对话失败:', err);
+      setError('导入对话失败，请重试');
+    }
+  };
+
+  // 获取当前模式的配置（热更新删除了当前模式时使用第一个模式展示）
+  const currentMode = modes.find(mode => mode.id === selectedTab) ?? modes[0];
+  const currentSession = sessions.find(session => session.id === currentSessionId);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50 p-4">
@@ -148,15 +481,13 @@ function App() {
 
         {/* 选项卡 */}
         <div className="flex justify-center mb-6">
-          <div className="flex bg-white rounded-full p-1 shadow-lg">
-            {tabs.map((tab) => (
+          <div className="flex max-w-full overflow-x-auto bg-white rounded-full p-1 shadow-lg">
+            {modes.map((tab) => (
               <button
                 key={tab.id}
-                onClick={() => {
-                  setSelectedTab(tab.id);
-                  clearMessages(); // 切换模式时清空聊天记录
-                }}
-                className={`px-8 py-3 rounded-full font-medium transition-all duration-300 min-w-[120px] text-center ${
+                onClick={() => handleSwitchMode(tab.id)}
+                title={tab.description}
+                className={`px-6 py-3 rounded-full font-medium transition-all duration-300 min-w-[96px] flex-shrink-0 text-center whitespace-nowrap ${
                   selectedTab === tab.id
                     ? `bg-gradient-to-r ${tab.gradient} text-white shadow-md`
                     : 'text-gray-600 hover:text-gray-800'
@@ -165,15 +496,30 @@ function App() {
                 {tab.label}
               </button>
             ))}
+            <button
+              onClick={() => setIsPersonaEditorOpen(true)}
+              className="px-4 py-3 rounded-full text-gray-500 hover:text-gray-800 flex-shrink-0"
+              title="自定义人设"
+            >
+              <UserPlus className="w-5 h-5" />
+            </button>
           </div>
         </div>
 
+        {/* 自定义人设编辑器 */}
+        {isPersonaEditorOpen && (
+          <PersonaEditor
+            onClose={() => setIsPersonaEditorOpen(false)}
+            onSaved={handleSwitchMode}
+          />
+        )}
+
         {/* API配置状态提示 */}
-        {!doubaoApi.isConfigured() && (
+        {isServerStatusLoaded && !doubaoApi.isConfigured(selectedTab) && (
           <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-2">
             <AlertCircle className="w-5 h-5 text-yellow-600" />
             <span className="text-yellow-800">
-              请在.env文件中配置VITE_ARK_API_KEY以启用AI对话功能
+              当前模式使用的模型未在后端代理中配置，或无法连接后端代理，AI对话功能暂不可用
             </span>
           </div>
         )}
@@ -195,6 +541,9 @@ function App() {
         </div>
         */}
 
+        {/* 危机求助热线（不可关闭） */}
+        {isCrisisDetected && <CrisisBanner className="mb-4" />}
+
         {/* 错误提示 */}
         {error && (
           <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
@@ -209,32 +558,108 @@ function App() {
           </div>
         )}
 
+        {/* 历史会话侧边栏 */}
+        <ConversationSidebar
+          isOpen={isSidebarOpen}
+          onClose={() => setIsSidebarOpen(false)}
+          modeLabel={currentMode?.label ?? ''}
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          onNewSession={handleNewSession}
+          onSelectSession={handleSelectSession}
+          onRenameSession={renameSession}
+          onDeleteSession={deleteSession}
+        />
+
+        {/* 语音通话 */}
+        {isVoiceCallOpen && (
+          <VoiceCallScreen
+            modeLabel={currentMode?.label ?? ''}
+            mode={selectedTab}
+            getHistory={() => messagesRef.current.map(msg => ({ role: msg.role, content: msg.content }))}
+            getSessionId={() => conversationIdRef.current}
+            onUserMessage={handleVoiceCallUserMessage}
+            onAssistantReply={handleVoiceCallReply}
+            onAssistantAudio={handleVoiceCallAudio}
+            onError={setError}
+            onClose={() => setIsVoiceCallOpen(false)}
+            showCrisisBanner={isCrisisDetected}
+          />
+        )}
+
+        {/* 导出对话语音 */}
+        {isAudioExportOpen && (
+          <ConversationAudioExport
+            messages={messages}
+            mode={selectedTab}
+            modeLabel={currentMode?.label ?? ''}
+            title={currentSession?.title ?? ''}
+            onClose={() => setIsAudioExportOpen(false)}
+          />
+        )}
+
         {/* 聊天区域 */}
         <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
           {/* 聊天头部 */}
           <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-4 text-white">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
-                {selectedTab === 'chat' && <MessageCircle className="w-6 h-6" />}
-                {selectedTab === 'mutual' && <Smile className="w-6 h-6" />}
-                {selectedTab === 'mood' && <Heart className="w-6 h-6" />}
+                <button
+                  onClick={() => setIsSidebarOpen(true)}
+                  className="p-1.5 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+                  title="历史会话"
+                >
+                  <History className="w-5 h-5" />
+                </button>
+                {currentMode && <ModeIcon name={currentMode.icon} />}
                 <div>
                   <h2 className="text-xl font-semibold">
-                    {tabs.find(tab => tab.id === selectedTab)?.label}模式
+                    {currentMode?.label}模式
                   </h2>
                   <p className="text-purple-100 text-sm">
-                    {currentMode.systemPrompt.slice(0, 50)}...
+                    {currentMode?.description || `${currentMode?.systemPrompt.slice(0, 50)}...`}
                   </p>
+                  {(usage || contextInfo) && (
+                    <p className="text-purple-100/80 text-xs mt-0.5">
+                      {contextInfo && `上下文约 ${contextInfo.estimatedTokens} tokens`}
+                      {contextInfo?.summarized && `（已摘要 ${contextInfo.compressedCount} 条早期消息）`}
+                      {contextInfo && !contextInfo.summarized && contextInfo.compressedCount > 0 && `（已省略 ${contextInfo.compressedCount} 条早期消息）`}
+                      {usage && ` · 本轮用量 ${usage.prompt_tokens} + ${usage.completion_tokens} = ${usage.total_tokens} tokens`}
+                    </p>
+                  )}
                 </div>
               </div>
-              {messages.length > 0 && (
-                <button
-                  onClick={clearMessages}
-                  className="px-3 py-1 bg-white/20 rounded-lg text-sm hover:bg-white/30 transition-colors"
-                >
-                  清空
-                </button>
-              )}
+              <div className="flex items-center gap-2">
+                {VoiceCallController.isSupported() && asrService.isConfigured() && (
+                  <button
+                    onClick={handleStartVoiceCall}
+                    className="p-1.5 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+                    title="语音通话"
+                  >
+                    <Phone className="w-5 h-5" />
+                  </button>
+                )}
+                <ConversationExportMenu
+                  conversation={{
+                    title: currentSession?.title ?? '',
+                    mode: selectedTab,
+                    createdAt: currentSession?.createdAt,
+                    messages,
+                  }}
+                  modeLabel={currentMode?.label ?? ''}
+                  onExportAudio={() => setIsAudioExportOpen(true)}
+                  onImport={handleImportConversation}
+                  onError={setError}
+                />
+                {messages.length > 0 && (
+                  <button
+                    onClick={clearMessages}
+                    className="px-3 py-1 bg-white/20 rounded-lg text-sm hover:bg-white/30 transition-colors"
+                  >
+                    清空
+                  </button>
+                )}
+              </div>
             </div>
           </div>
 
@@ -244,7 +669,7 @@ function App() {
               <div className="text-center text-gray-500 mt-20">
                 <div className="text-6xl mb-4">💭</div>
                 <p>开始你的第一条消息吧...</p>
-                <p className="text-sm mt-2">当前模式: {tabs.find(tab => tab.id === selectedTab)?.label}</p>
+                <p className="text-sm mt-2">当前模式: {currentMode?.label}</p>
               </div>
             ) : (
               messages.map((msg) => (
@@ -259,25 +684,81 @@ function App() {
                         : 'bg-gray-100 text-gray-800'
                     }`}
                   >
-                    <p className="whitespace-pre-wrap">{msg.content}</p>
+                    <p className="whitespace-pre-wrap">
+                      {msg.role === 'assistant' ? (
+                        <ReplyContent
+                          text={msg.content}
+                          timestamps={msg.audioData ? msg.audioTimestamps : undefined}
+                          currentTime={spokenPosition?.messageId === msg.id ? spokenPosition.time : null}
+                          onSeek={msg.audioData ? (time) => handleSeekWord(msg, time) : undefined}
+                        />
+                      ) : msg.content}
+                      {msg.id === streamingMessageId && (
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />
+                      )}
+                    </p>
                     <div className="flex items-center justify-between mt-2">
                       <p className={`text-xs ${
                         msg.role === 'user' ? 'text-purple-100' : 'text-gray-500'
                       }`}>
                         {msg.timestamp.toLocaleTimeString()}
                       </p>
+                      {msg.role === 'assistant' && msg.audioData && (
+                        <div className="flex items-center gap-3">
+                          {audioMenuMessageId === msg.id ? (
+                            <div className="flex items-center gap-1 text-xs">
+                              {(['mp3', 'wav'] as ExportAudioFormat[]).map(format => (
+                                <button
+                                  key={format}
+                                  onClick={() => handleDownloadAudio(msg, format)}
+                                  className="px-1.5 py-0.5 rounded bg-white text-gray-600 hover:text-purple-600"
+                                >
+                                  {format}
+                                </button>
+                              ))}
+                              <button
+                                onClick={() => setAudioMenuMessageId(null)}
+                                className="px-1 text-gray-400 hover:text-gray-600"
+                                title="取消"
+                              >
+                                ×
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => setAudioMenuMessageId(msg.id)}
+                              className="flex items-center gap-1 text-xs text-gray-500 hover:text-purple-600"
+                              title="下载语音"
+                            >
+                              <Download size={14} />
+                              下载
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handlePlayFrom(msg.id)}
+                            className="flex items-center gap-1 text-xs text-gray-500 hover:text-purple-600"
+                            title="从这条开始连续播放"
+                          >
+                            <ListMusic size={14} />
+                            连播
+                          </button>
+                        </div>
+                      )}
                     </div>
                     {/* 为AI回复显示音频播放器 */}
                     {msg.role === 'assistant' && msg.audioData && (
                       <div className="mt-3 -ml-4">
                         <AudioPlayer
                           audioData={msg.audioData}
-                          format="mp3"
-                          autoPlay={true}
+                          format={msg.audioFormat ?? 'mp3'}
+                          autoPlay={false}
                           className="shadow-sm"
                           showProgress
                           showTime
                           playerId={`message-${msg.id}`}
+                          messageId={msg.id}
+                          title={toSpeakableText(msg.content)}
+                          onTimeUpdate={(time) => handleSpeechTime(msg.id, time)}
                           onError={(error) => {
                             console.error('音频播放失败:', error);
                           }}
@@ -289,8 +770,8 @@ function App() {
               ))
             )}
             
-            {/* 加载状态 */}
-            {isLoading && (
+            {/* 加载状态（收到首个字之前显示） */}
+            {isLoading && !streamingMessageId && (
               <div className="flex justify-start">
                 <div className="bg-gray-100 text-gray-800 px-4 py-2 rounded-2xl flex items-center gap-2">
                   <Loader2 className="w-4 h-4 animate-spin" />
@@ -302,6 +783,8 @@ function App() {
             <div ref={messagesEndRef} />
           </div>
 
+          <NowPlayingBar />
+
           {/* 输入区域 */}
           <div className="border-t p-4">
             <div className="flex gap-3">
@@ -311,33 +794,59 @@ function App() {
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
                   onKeyPress={handleKeyPress}
-                  placeholder={`在${tabs.find(tab => tab.id === selectedTab)?.label}模式下输入消息...`}
+                  placeholder={`在${currentMode?.label}模式下输入消息...`}
                   className="w-full px-4 py-3 border border-gray-300 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent h-12"
                   disabled={isLoading}
                   style={{ resize: 'none' }}
                 />
               </div>
+              <MicButton
+                onTranscript={handleTranscript}
+                onError={setError}
+                disabled={isLoading && voiceAutoSend}
+              />
               <div className="flex flex-col gap-2">
-                <button
-                  onClick={handleSendMessage}
-                  disabled={!message.trim() || isLoading}
-                  className="p-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                  ) : (
+                {isLoading ? (
+                  <button
+                    onClick={handleStopGenerating}
+                    className="p-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200"
+                    title="停止生成"
+                  >
+                    <Square className="w-5 h-5" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleSendMessage()}
+                    disabled={!message.trim()}
+                    className="p-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
                     <Send className="w-5 h-5" />
-                  )}
-                </button>
+                  </button>
+                )}
 
               </div>
             </div>
-            <p className="text-xs text-gray-500 mt-2 text-center">
-              按 Enter 发送，Shift + Enter 换行
-            </p>
+            <div className="flex items-center justify-center gap-3 text-xs text-gray-500 mt-2">
+              <span>按 Enter 发送，Shift + Enter 换行</span>
+              <label className="flex items-center gap-1 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={voiceAutoSend}
+                  onChange={toggleVoiceAutoSend}
+                  className="accent-purple-500"
+                />
+                语音识别后自动发送
+              </label>
+            </div>
           </div>
         </div>
+
+        {/* 调试面板 */}
+        {isDebugMode && currentMode && <GenerationDebugPanel mode={currentMode} />}
       </div>
+
+      {/* 语音设置（音色选择与试听） */}
+      <TTSConfigPanel mode={selectedTab} />
     </div>
   );
 }
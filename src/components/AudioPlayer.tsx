@@ -1,12 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Play, Pause, Volume2, VolumeX, RotateCcw } from 'lucide-react';
-import { audioQueueManager } from '../services/audioQueueManager';
+import { audioQueueManager, QueueItem } from '../services/audioQueueManager';
+import { audioGraph } from '../services/audioGraph';
+import type { AudioFormat } from '../services/ttsService';
+import { useAudioQueue } from '../hooks/useAudioQueue';
 
 interface AudioPlayerProps {
   /** base64编码的音频数据 */
   audioData?: string;
   /** 音频格式 */
-  format?: 'mp3' | 'ogg' | 'wav' | 'pcm';
+  format?: AudioFormat;
   /** 是否自动播放 */
   autoPlay?: boolean;
   /** 播放完成回调 */
@@ -17,6 +20,8 @@ interface AudioPlayerProps {
   onPause?: () => void;
   /** 播放错误回调 */
   onError?: (error: string) => void;
+  /** 播放进度变化回调（秒），不再播放该音频时传null */
+  onTimeUpdate?: (time: number | null) => void;
   /** 自定义样式类名 */
   className?: string;
   /** 是否显示进度条 */
@@ -25,11 +30,22 @@ interface AudioPlayerProps {
   showTime?: boolean;
   /** 音频播放器唯一标识，用于队列管理 */
   playerId?: string;
+  /** 所属消息ID */
+  messageId?: string;
+  /** 正在播放栏中显示的标题 */
+  title?: string;
 }
 
+/** 播放速度档位 */
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/** 解码失败、没有波形时显示的平直波形 */
+const FLAT_WAVEFORM = Array<number>(32).fill(0.3);
+
 /**
  * 音频播放组件
- * 支持base64音频数据的解码和播放，包含播放控制功能
+ * 用Web Audio解码一次base64音频，显示波形和时长；支持mp3、wav、ogg_opus和裸pcm。
+ * 播放、暂停、进度、音量和播放速度都交给全局播放队列，界面显示队列中该播放项的状态
  */
 export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   audioData,
@@ -39,50 +55,38 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   onPlay,
   onPause,
   onError,
+  onTimeUpdate,
   className = '',
   showProgress = true,
   showTime = true,
   playerId,
+  messageId,
+  title,
 }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  // 播放由全局播放队列负责，这里只解码一次用于显示时长和波形
   const [isLoading, setIsLoading] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [volume, setVolume] = useState(0.4);
+  const [peaks, setPeaks] = useState<number[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const playback = useAudioQueue();
 
   // 生成唯一的播放器ID
   const playerIdRef = useRef(playerId || `audio-player-${Date.now()}-${Math.random()}`);
   const currentPlayerId = playerIdRef.current;
 
-  /**
-   * 将base64音频数据转换为可播放的URL
-   */
-  const createAudioUrl = (base64Data: string, audioFormat: string): string => {
-    try {
-      // 移除可能存在的data URL前缀
-      const cleanBase64 = base64Data.replace(/^data:audio\/[^;]+;base64,/, '');
-      
-      // 将base64转换为二进制数据
-      const binaryString = atob(cleanBase64);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
+  const isCurrent = playback.current?.id === currentPlayerId;
+  const isPlaying = isCurrent && playback.status !== 'paused';
+  const currentTime = isCurrent ? playback.currentTime : 0;
+  const totalDuration = isCurrent && playback.duration ? playback.duration : duration;
 
-      // 创建Blob对象
-      const mimeType = `audio/${audioFormat === 'ogg' ? 'ogg' : audioFormat}`;
-      const blob = new Blob([bytes], { type: mimeType });
-      
-      // 创建对象URL
-      return URL.createObjectURL(blob);
-    } catch (err) {
-      console.error('音频数据转换失败:', err);
-      throw new Error('音频数据格式错误');
-    }
-  };
+  // 回调可能随父组件重新渲染而变化，始终调用最新的版本
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+
+  // 播放进度变化时通知外部（如逐字高亮）
+  useEffect(() => {
+    onTimeUpdateRef.current?.(isCurrent ? currentTime : null);
+  }, [isCurrent, currentTime]);
 
   /**
    * 格式化时间显示
@@ -95,77 +99,32 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   };
 
   /**
-   * 播放音频
+   * 构建播放队列中的播放项
    */
-  const handlePlay = async () => {
-    if (!audioRef.current || !audioData) return;
+  const buildQueueItem = (data: string): QueueItem => ({
+    id: currentPlayerId,
+    messageId,
+    title,
+    segments: [{ type: 'audio', audio: data, format }],
+  });
 
-    // 使用音频队列管理器确保同时只有一个音频播放
-    await audioQueueManager.requestPlay(currentPlayerId, async () => {
-      if (!audioRef.current || !audioData) return;
+  /**
+   * 播放音频：打断当前播放，由全局播放队列播放
+   */
+  const handlePlay = () => {
+    if (!audioData) return;
 
-      try {
-        setIsLoading(true);
-        setError(null);
-        
-        // 检查音频是否已准备好
-        if (audioRef.current.readyState < 2) {
-          // 等待音频加载完成
-          await new Promise((resolve, reject) => {
-            const audio = audioRef.current!;
-            const handleCanPlay = () => {
-              audio.removeEventListener('canplay', handleCanPlay);
-              audio.removeEventListener('error', handleError);
-              resolve(void 0);
-            };
-            const handleError = () => {
-              audio.removeEventListener('canplay', handleCanPlay);
-              audio.removeEventListener('error', handleError);
-              reject(new Error('音频加载失败'));
-            };
-            audio.addEventListener('canplay', handleCanPlay);
-            audio.addEventListener('error', handleError);
-          });
-        }
-        
-        // 停止之前的播放（如果有）
-        if (!audioRef.current.paused) {
-          audioRef.current.pause();
-          audioRef.current.currentTime = 0;
-        }
-        
-        // 添加用户手势检查，确保在移动端能正常播放
-        try {
-          await audioRef.current.play();
-          setIsPlaying(true);
-          onPlay?.();
-        } catch (playError) {
-          // 如果播放失败，可能是因为缺少用户手势
-          if (playError instanceof Error && playError.name === 'NotAllowedError') {
-            setError('请点击播放按钮开始播放音频');
-            onError?.('需要用户手势才能播放音频');
-          } else {
-            setError('音频播放失败');
-            onError?.(playError instanceof Error ? playError.message : '播放失败');
-          }
-          setIsPlaying(false);
-        }
-        
-      } catch (err) {
-        // 忽略AbortError，这通常是由于快速切换导致的正常中断
-        if (err instanceof Error && err.name === 'AbortError') {
-          console.log('播放被中断（正常情况）:', err.message);
-          return;
-        }
-        
-        const errorMsg = err instanceof Error ? err.message : '播放失败';
-        setError(errorMsg);
-        onError?.(errorMsg);
-        console.error('音频播放失败:', err);
-        setIsPlaying(false);
-      } finally {
-        setIsLoading(false);
-      }
+    if (isCurrent && playback.status === 'paused') {
+      audioQueueManager.resume();
+      onPlay?.();
+      return;
+    }
+
+    setError(null);
+    audioQueueManager.enqueue(buildQueueItem(audioData), 'interrupt');
+    onPlay?.();
+    audioQueueManager.waitFor(currentPlayerId).then(completed => {
+      if (completed) onEnded?.();
     });
   };
 
@@ -173,10 +132,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
    * 暂停音频
    */
   const handlePause = () => {
-    if (!audioRef.current) return;
-    
-    audioRef.current.pause();
-    setIsPlaying(false);
+    audioQueueManager.pause();
     onPause?.();
   };
 
@@ -192,90 +148,76 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   };
 
   /**
-   * 重新播放
+   * 重新播放（同一播放项再次加入队列时从头播放）
    */
   const handleReplay = () => {
-    if (!audioRef.current) return;
-    
-    audioRef.current.currentTime = 0;
-    if (!isPlaying) {
-      handlePlay();
-    }
+    if (!audioData) return;
+    audioQueueManager.enqueue(buildQueueItem(audioData), 'interrupt');
   };
 
   /**
    * 切换静音
    */
   const toggleMute = () => {
-    if (!audioRef.current) return;
-    
-    const newMuted = !isMuted;
-    audioRef.current.muted = newMuted;
-    setIsMuted(newMuted);
+    audioQueueManager.setMuted(!playback.muted);
   };
 
   /**
    * 调整音量
    */
   const handleVolumeChange = (newVolume: number) => {
-    if (!audioRef.current) return;
-    
-    const clampedVolume = Math.max(0, Math.min(1, newVolume));
-    audioRef.current.volume = clampedVolume;
-    setVolume(clampedVolume);
-    
-    // 如果音量大于0，取消静音
-    if (clampedVolume > 0 && isMuted) {
-      setIsMuted(false);
-      audioRef.current.muted = false;
-    }
+    audioQueueManager.setVolume(newVolume);
   };
 
   /**
-   * 调整播放进度
+   * 点击波形跳转播放进度（仅当前播放项）
    */
-  const handleProgressChange = (newProgress: number) => {
-    if (!audioRef.current || !duration) return;
-    
-    const newTime = (newProgress / 100) * duration;
-    audioRef.current.currentTime = newTime;
-    setCurrentTime(newTime);
+  const handleWaveformClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!isCurrent || !totalDuration) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    audioQueueManager.seek(ratio * totalDuration);
   };
 
-  // 监听音频数据变化，更新音频源
-  useEffect(() => {
-    if (!audioData || !audioRef.current) return;
+  /**
+   * 切换到下一档播放速度
+   */
+  const cyclePlaybackRate = () => {
+    const index = PLAYBACK_RATES.indexOf(playback.playbackRate);
+    audioQueueManager.setPlaybackRate(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+  };
 
-    let audioUrl: string | null = null;
-    
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      audioUrl = createAudioUrl(audioData, format);
-      audioRef.current.src = audioUrl;
-      
-      // 预加载音频
-      audioRef.current.load();
-      
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : '音频加载失败';
-      setError(errorMsg);
-      onError?.(errorMsg);
-      setIsLoading(false);
-    }
+  // 音频数据变化时解码，读取时长和波形
+  useEffect(() => {
+    if (!audioData) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    audioGraph.decode(audioData, format)
+      .then(clip => {
+        if (cancelled) return;
+        setDuration(clip.duration);
+        setPeaks(clip.peaks);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        const errorMsg = err instanceof Error ? err.message : '音频数据格式错误';
+        setError(errorMsg);
+        onError?.(errorMsg);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
 
-    // 清理函数：撤销blob URL
     return () => {
-      if (audioUrl && audioUrl.startsWith('blob:')) {
-        URL.revokeObjectURL(audioUrl);
-      }
+      cancelled = true;
     };
-  }, [audioData, format]); // 移除onError依赖，避免不必要的重新加载
+  }, [audioData, format]); // 移除onError依赖，避免不必要的重新解码
 
   // 智能自动播放：桌面端自动播放，移动端手动播放
   useEffect(() => {
-    if (autoPlay && audioData && audioRef.current) {
+    if (autoPlay && audioData) {
       // 检测设备类型
       const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
       
@@ -289,87 +231,14 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     }
   }, [audioData, autoPlay]);
 
-  // 音频事件监听
-  useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const handleLoadedMetadata = () => {
-      setDuration(audio.duration);
-      setIsLoading(false);
-    };
-
-    const handleTimeUpdate = () => {
-      setCurrentTime(audio.currentTime);
-    };
-
-    const handleEnded = () => {
-      setIsPlaying(false);
-      setCurrentTime(0);
-      // 通知音频队列管理器播放完成
-      audioQueueManager.onPlayEnded(currentPlayerId);
-      // 使用ref来获取最新的回调函数，避免闭包问题
-      if (onEnded) {
-        onEnded();
-      }
-    };
-
-    const handleError = () => {
-      const errorMsg = '音频播放出错';
-      setError(errorMsg);
-      setIsPlaying(false);
-      setIsLoading(false);
-      // 使用ref来获取最新的回调函数，避免闭包问题
-      if (onError) {
-        onError(errorMsg);
-      }
-    };
-
-    const handleCanPlay = () => {
-      setIsLoading(false);
-    };
-
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('error', handleError);
-    audio.addEventListener('canplay', handleCanPlay);
-
-    return () => {
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('timeupdate', handleTimeUpdate);
-      audio.removeEventListener('ended', handleEnded);
-      audio.removeEventListener('error', handleError);
-      audio.removeEventListener('canplay', handleCanPlay);
-    };
-  }, []); // 移除onEnded和onError依赖，避免重复绑定事件监听器
-
-  // 监听音频队列停止事件
-  useEffect(() => {
-    const handleQueueStop = (event: CustomEvent) => {
-      if (event.detail.id === currentPlayerId && audioRef.current) {
-        audioRef.current.pause();
-        setIsPlaying(false);
-      }
-    };
-
-    window.addEventListener('audioQueueStop', handleQueueStop as EventListener);
-    
-    return () => {
-      window.removeEventListener('audioQueueStop', handleQueueStop as EventListener);
-    };
-  }, [currentPlayerId]);
-
   if (!audioData) {
     return null;
   }
 
-  const progressPercentage = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const progressPercentage = totalDuration > 0 ? (currentTime / totalDuration) * 100 : 0;
 
   return (
     <div className={`audio-player bg-gray-100 rounded-lg p-3 ${className}`}>
-      <audio ref={audioRef} preload="metadata" />
-      
       {error && (
         <div className="text-red-500 text-sm mb-2 p-2 bg-red-50 rounded">
           播放错误: {error}
@@ -404,25 +273,36 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           </button>
         </div>
 
-        {/* 进度条 */}
+        {/* 波形，已播放部分高亮，点击跳转 */}
         {showProgress && (
-          <div className="flex-1">
-            <input
-              type="range"
-              min="0"
-              max="100"
-              value={progressPercentage}
-              onChange={(e) => handleProgressChange(Number(e.target.value))}
-              disabled={isLoading || !!error || duration === 0}
-              className="w-full h-2 bg-gray-300 rounded-lg appearance-none cursor-pointer slider"
-            />
+          <div
+            onClick={handleWaveformClick}
+            className={`flex-1 flex items-center gap-px h-8 ${isCurrent ? 'cursor-pointer' : ''}`}
+            title={isCurrent ? '点击跳转' : undefined}
+          >
+            {(peaks.length > 0 ? peaks : FLAT_WAVEFORM).map((peak, index, all) => (
+              <div
+                key={index}
+                className={`flex-1 rounded-full ${(index + 0.5) / all.length * 100 <= progressPercentage ? 'bg-blue-500' : 'bg-gray-300'}`}
+                style={{ height: `${Math.max(12, peak * 100)}%` }}
+              />
+            ))}
           </div>
         )}
 
+        {/* 播放速度 */}
+        <button
+          onClick={cyclePlaybackRate}
+          className="text-xs text-gray-600 hover:text-gray-800 min-w-[2.5rem] px-1 py-0.5 rounded bg-gray-200"
+          title="播放速度"
+        >
+          {playback.playbackRate}x
+        </button>
+
         {/* 时间显示 */}
         {showTime && (
           <div className="text-sm text-gray-600 min-w-[80px]">
-            {formatTime(currentTime)} / {formatTime(duration)}
+            {formatTime(currentTime)} / {formatTime(totalDuration)}
           </div>
         )}
 
@@ -431,9 +311,9 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           <button
             onClick={toggleMute}
             className="text-gray-600 hover:text-gray-800 transition-colors"
-            title={isMuted ? '取消静音' : '静音'}
+            title={playback.muted ? '取消静音' : '静音'}
           >
-            {isMuted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+            {playback.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
           </button>
           
           <input
@@ -441,7 +321,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
             min="0"
             max="1"
             step="0.1"
-            value={isMuted ? 0 : volume}
+            value={playback.muted ? 0 : playback.volume}
             onChange={(e) => handleVolumeChange(Number(e.target.value))}
             className="w-16 h-2 bg-gray-300 rounded-lg appearance-none cursor-pointer slider"
             title="音量"
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { audioExporter, ExportAudioFormat } from '../services/audioExporter';
+import { downloadBlob } from '../services/fileDownload';
+import { ttsService } from '../services/ttsService';
+import { DisplayMessage } from '../services/conversationStore';
+import { EmotionMode } from '../services/doubaoApi';
+import { VOICE_CATALOG, findVoice } from '../config/voiceCatalog';
+
+interface ConversationAudioExportProps {
+  /** 当前对话的消息 */
+  messages: DisplayMessage[];
+  /** 当前模式 */
+  mode: EmotionMode;
+  /** 模式名称，用于文件名 */
+  modeLabel: string;
+  /** 会话标题，用于文件名 */
+  title: string;
+  /** 关闭回调 */
+  onClose: () => void;
+}
+
+/**
+ * 默认用与回复不同性别的音色朗读用户的话，便于区分两人
+ */
+const getDefaultUserSpeaker = (mode: EmotionMode): string => {
+  const replySpeaker = ttsService.getVoiceConfigByMode(mode).speaker;
+  const replyGender = findVoice(replySpeaker)?.gender;
+  return (
+    VOICE_CATALOG.find(voice => voice.id !== replySpeaker && voice.gender !== replyGender) ??
+    VOICE_CATALOG.find(voice => voice.id !== replySpeaker) ??
+    VOICE_CATALOG[0]
+  ).id;
+};
+
+/**
+ * 导出整段对话的语音
+ * 按顺序拼接全部回复的语音，可选用另一种音色朗读用户的话，导出为一个mp3或wav文件
+ */
+export const ConversationAudioExport: React.FC<ConversationAudioExportProps> = ({
+  messages,
+  mode,
+  modeLabel,
+  title,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportAudioFormat>('mp3');
+  const [includeUser, setIncludeUser] = useState(false);
+  const [userSpeaker, setUserSpeaker] = useState(() => getDefaultUserSpeaker(mode));
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExporting = progress !== null;
+  const canSynthesize = ttsService.producesAudio();
+
+  /**
+   * 合成并下载
+   */
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const blob = await audioExporter.exportConversation(messages, {
+        format,
+        mode,
+        includeUser: includeUser && canSynthesize,
+        userSpeaker,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      downloadBlob(blob, audioExporter.getConversationFilename(title, modeLabel, format));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '导出失败，请重试');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={isExporting ? undefined : onClose}>
+      <div className="w-full max-w-sm bg-white rounded-2xl shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="font-semibold text-gray-800">导出对话语音</h3>
+            <p className="text-xs text-gray-500">把整段对话的语音拼接为一个音频文件</p>
+          </div>
+          <button onClick={onClose} disabled={isExporting} className="text-gray-500 hover:text-gray-700 disabled:opacity-50" title="关闭">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          {/* 文件格式 */}
+          <div>
+            <div className="text-gray-700 mb-2">文件格式</div>
+            <div className="flex gap-2">
+              {(['mp3', 'wav'] as ExportAudioFormat[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  disabled={isExporting}
+                  className={`flex-1 px-3 py-1.5 rounded-lg border transition-colors ${
+                    format === option
+                      ? 'border-purple-500 bg-purple-50 text-purple-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {format === 'mp3' ? '文件较小，句子之间没有停顿' : '文件较大，句子之间留有停顿'}
+            </p>
+          </div>
+
+          {/* 用户的话 */}
+          <div>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeUser}
+                onChange={(e) => setIncludeUser(e.target.checked)}
+                disabled={isExporting || !canSynthesize}
+              />
+              朗读我说的话
+            </label>
+            {!canSynthesize && (
+              <p className="text-xs text-gray-500 mt-1">当前语音服务不产出音频，只能导出已有的回复语音</p>
+            )}
+            {includeUser && canSynthesize && (
+              <select
+                value={userSpeaker}
+                onChange={(e) => setUserSpeaker(e.target.value)}
+                disabled={isExporting}
+                className="mt-2 w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {VOICE_CATALOG.map(voice => (
+                  <option key={voice.id} value={voice.id}>
+                    {voice.name}（{voice.gender === 'male' ? '男声' : '女声'}）
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {error && <div className="p-2 bg-red-50 text-red-600 rounded">{error}</div>}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 disabled:opacity-60 transition-colors"
+          >
+            {isExporting ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                {progress.total > 0 ? `正在准备第 ${Math.min(progress.done + 1, progress.total)}/${progress.total} 句` : '正在导出'}
+              </>
+            ) : (
+              <>
+                <Download size={16} />
+                导出
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationAudioExport;
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { Share2, FileText, FileJson, Image, FileAudio, Upload, Loader2 } from 'lucide-react';
+import { conversationExporter, ConversationSnapshot, ImportedConversation } from '../services/conversationExporter';
+import { shareCardRenderer } from '../services/shareCardRenderer';
+import { downloadBlob } from '../services/fileDownload';
+
+interface ConversationExportMenuProps {
+  /** 当前对话 */
+  conversation: ConversationSnapshot;
+  /** 模式名称，用于分享图片 */
+  modeLabel: string;
+  /** 打开导出语音对话框 */
+  onExportAudio: () => void;
+  /** 导入文件解析成功 */
+  onImport: (imported: ImportedConversation) => void;
+  /** 出错回调 */
+  onError: (error: string) => void;
+}
+
+/**
+ * 对话导出菜单
+ * 把当前对话导出为Markdown、JSON或分享图片，打开语音导出，或从JSON文件导入对话
+ */
+export const ConversationExportMenu: React.FC<ConversationExportMenuProps> = ({
+  conversation,
+  modeLabel,
+  onExportAudio,
+  onImport,
+  onError,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasMessages = conversation.messages.length > 0;
+  const hasReplies = conversation.messages.some(msg => msg.role === 'assistant');
+
+  /**
+   * 下载文本文件
+   */
+  const downloadText = (content: string, type: string, extension: string) => {
+    downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), conversationExporter.getFilename(conversation, extension));
+    setIsOpen(false);
+  };
+
+  /**
+   * 生成并下载分享图片
+   */
+  const handleShareImage = async () => {
+    setIsRendering(true);
+    try {
+      const blob = await shareCardRenderer.render({ modeLabel, title: conversation.title, messages: conversation.messages });
+      downloadBlob(blob, conversationExporter.getFilename(conversation, 'png'));
+      setIsOpen(false);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : '生成分享图片失败');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  /**
+   * 读取并解析导入的JSON文件
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsOpen(false);
+    try {
+      onImport(conversationExporter.parseImport(await file.text()));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : '导入失败');
+    }
+  };
+
+  const itemClass = 'w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1.5 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+        title="导出与导入"
+      >
+        <Share2 className="w-5 h-5" />
+      </button>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 w-48 py-1 bg-white rounded-lg shadow-xl z-20 overflow-hidden">
+            <button onClick={() => downloadText(conversationExporter.toMarkdown(conversation), 'text/markdown', 'md')} disabled={!hasMessages} className={itemClass}>
+              <FileText size={16} />
+              导出为Markdown
+            </button>
+            <button onClick={() => downloadText(conversationExporter.toJson(conversation), 'application/json', 'json')} disabled={!hasMessages} className={itemClass}>
+              <FileJson size={16} />
+              导出为JSON
+            </button>
+            <button onClick={handleShareImage} disabled={!hasMessages || isRendering} className={itemClass}>
+              {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Image size={16} />}
+              生成分享图片
+            </button>
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                onExportAudio();
+              }}
+              disabled={!hasReplies}
+              className={itemClass}
+            >
+              <FileAudio size={16} />
+              导出语音
+            </button>
+            <div className="my-1 border-t" />
+            <button onClick={() => fileInputRef.current?.click()} className={itemClass}>
+              <Upload size={16} />
+              导入对话（JSON）
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConversationExportMenu;
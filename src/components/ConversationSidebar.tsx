@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Trash2, Check, X, MessageSquare } from 'lucide-react';
+import { ConversationSummary } from '../services/conversationStore';
+
+interface ConversationSidebarProps {
+  /** 是否展开 */
+  isOpen: boolean;
+  /** 关闭回调 */
+  onClose: () => void;
+  /** 当前模式名称 */
+  modeLabel: string;
+  /** 当前模式下的会话列表 */
+  sessions: ConversationSummary[];
+  /** 当前打开的会话ID */
+  currentSessionId: string | null;
+  /** 新建会话 */
+  onNewSession: () => void;
+  /** 切换会话 */
+  onSelectSession: (id: string) => void;
+  /** 重命名会话 */
+  onRenameSession: (id: string, title: string) => void;
+  /** 删除会话 */
+  onDeleteSession: (id: string) => void;
+}
+
+/**
+ * 格式化会话更新时间：当天显示时间，其他显示日期
+ */
+const formatUpdatedAt = (time: number): string => {
+  const date = new Date(time);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : date.toLocaleDateString();
+};
+
+/**
+ * 会话历史侧边栏
+ * 列出当前模式下保存的会话，支持恢复、重命名和删除
+ */
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  isOpen,
+  onClose,
+  modeLabel,
+  sessions,
+  currentSessionId,
+  onNewSession,
+  onSelectSession,
+  onRenameSession,
+  onDeleteSession,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  /**
+   * 开始编辑标题
+   */
+  const startEditing = (session: ConversationSummary) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  /**
+   * 提交标题修改
+   */
+  const commitEditing = () => {
+    if (editingId && editingTitle.trim()) {
+      onRenameSession(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * 删除前确认
+   */
+  const handleDelete = (session: ConversationSummary) => {
+    if (window.confirm(`确定删除会话「${session.title || '新对话'}」吗？删除后无法恢复。`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  return (
+    <>
+      {/* 遮罩层 */}
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />
+      )}
+
+      <aside
+        className={`fixed top-0 left-0 h-full w-72 bg-white shadow-2xl z-50 flex flex-col transition-transform duration-300 ${
+          isOpen ? 'translate-x-0' : '-translate-x-full'
+        }`}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="font-semibold text-gray-800">历史会话</h3>
+            <p className="text-xs text-gray-500">{modeLabel}模式</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="关闭">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-3 border-b">
+          <button
+            onClick={() => {
+              onNewSession();
+              onClose();
+            }}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg text-sm hover:from-purple-600 hover:to-pink-600 transition-colors"
+          >
+            <Plus size={16} />
+            新对话
+          </button>
+        </div>
+
+        {/* 会话列表 */}
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {sessions.length === 0 ? (
+            <div className="text-center text-sm text-gray-400 mt-10">暂无历史会话</div>
+          ) : (
+            sessions.map((session) => (
+              <div
+                key={session.id}
+                className={`group rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+                  session.id === currentSessionId ? 'bg-purple-50 border border-purple-200' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => {
+                  if (editingId === session.id) return;
+                  onSelectSession(session.id);
+                  onClose();
+                }}
+              >
+                {editingId === session.id ? (
+                  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEditing();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      autoFocus
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    <button onClick={commitEditing} className="text-green-600 hover:text-green-700" title="保存">
+                      <Check size={16} />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600" title="取消">
+                      <X size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <MessageSquare size={16} className="text-gray-400 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-800 truncate">{session.title || '新对话'}</p>
+                      <p className="text-xs text-gray-400">
+                        {formatUpdatedAt(session.updatedAt)} · {session.messageCount}条消息
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(session);
+                        }}
+                        className="text-gray-400 hover:text-gray-700"
+                        title="重命名"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(session);
+                        }}
+                        className="text-gray-400 hover:text-red-600"
+                        title="删除"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { LifeBuoy, Phone } from 'lucide-react';
+import { CRISIS_REGIONS, CrisisRegionId, resolveCrisisRegion } from '../config/crisisHotlines';
+
+interface CrisisBannerProps {
+  /** 自定义样式类名 */
+  className?: string;
+}
+
+/**
+ * 危机求助横幅
+ * 检测到自杀/自伤风险后常驻显示，不提供关闭按钮；默认按浏览器语言展示当地热线，可切换地区
+ */
+export const CrisisBanner: React.FC<CrisisBannerProps> = ({ className = '' }) => {
+  const [regionId, setRegionId] = useState<CrisisRegionId>(() => resolveCrisisRegion());
+  const region = CRISIS_REGIONS[regionId];
+
+  return (
+    <div
+      role="alert"
+      aria-live="assertive"
+      className={`p-4 bg-rose-50 border border-rose-200 rounded-lg text-rose-900 ${className}`}
+    >
+      <div className="flex items-start gap-3">
+        <LifeBuoy className="w-6 h-6 text-rose-600 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold">你并不孤单，现在就可以找人聊聊</p>
+          <p className="text-sm mt-1 text-rose-800">
+            如果你正在想伤害自己，请立即联系下面的心理援助热线，或告诉身边信任的人。我只是AI，无法替代专业的帮助。
+          </p>
+
+          <ul className="mt-3 grid gap-1.5 sm:grid-cols-2">
+            {region.hotlines.map(hotline => (
+              <li key={hotline.number}>
+                <a
+                  href={`tel:${hotline.number.split('/')[0].replace(/[^\d+]/g, '')}`}
+                  className="flex items-center gap-2 text-sm hover:underline"
+                >
+                  <Phone className="w-4 h-4 text-rose-600 flex-shrink-0" />
+                  <span>{hotline.name}</span>
+                  <span className="font-semibold">{hotline.number}</span>
+                  {hotline.note && <span className="text-xs text-rose-700">（{hotline.note}）</span>}
+                </a>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-3 flex items-center gap-2 text-xs text-rose-700">
+            <label htmlFor="crisis-region">所在地区</label>
+            <select
+              id="crisis-region"
+              value={regionId}
+              onChange={(e) => setRegionId(e.target.value as CrisisRegionId)}
+              className="px-2 py-0.5 bg-white border border-rose-200 rounded focus:outline-none focus:ring-2 focus:ring-rose-300"
+            >
+              {(Object.keys(CRISIS_REGIONS) as CrisisRegionId[]).map(id => (
+                <option key={id} value={id}>{CRISIS_REGIONS[id].label}</option>
+              ))}
+            </select>
+            <span>其他地区请拨打当地的急救电话</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CrisisBanner;
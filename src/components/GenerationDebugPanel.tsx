@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Bug, ChevronDown, ChevronUp } from 'lucide-react';
+import { doubaoApi, ChatRequestInfo } from '../services/doubaoApi';
+import { GenerationParams } from '../services/llmProviders';
+import { ModeDefinition } from '../services/modeRegistry';
+
+interface GenerationDebugPanelProps {
+  /** 当前模式 */
+  mode: ModeDefinition;
+}
+
+/** 参数的显示名称，顺序即显示顺序 */
+const PARAM_LABELS: Array<[keyof GenerationParams, string]> = [
+  ['temperature', 'temperature'],
+  ['topP', 'top_p'],
+  ['maxTokens', 'max_tokens'],
+  ['frequencyPenalty', 'frequency_penalty'],
+  ['presencePenalty', 'presence_penalty'],
+  ['stop', 'stop'],
+  ['reasoningEffort', 'reasoning_effort'],
+  ['thinking', 'thinking'],
+];
+
+/**
+ * 格式化参数值，未设置的参数由模型使用默认值
+ */
+const formatValue = (value: GenerationParams[keyof GenerationParams]): string => {
+  if (value === undefined) return '（模型默认）';
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * 生成参数调试面板
+ * 展示当前模式实际发送的生成参数，以及最近一次对话请求的提供方、安全等级和消息条数
+ */
+export const GenerationDebugPanel: React.FC<GenerationDebugPanelProps> = ({ mode }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [lastRequest, setLastRequest] = useState<ChatRequestInfo | null>(doubaoApi.getLastRequest());
+
+  useEffect(() => doubaoApi.onRequest(setLastRequest), []);
+
+  const params = doubaoApi.getGenerationParams(mode);
+
+  return (
+    <div className="mt-4 bg-white rounded-xl shadow text-xs text-gray-600">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-2 hover:bg-gray-50 rounded-xl"
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <Bug size={14} />
+          生成参数调试
+        </span>
+        {isOpen ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-3 grid gap-3 sm:grid-cols-2">
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-1">{mode.label}模式（{mode.id}）</h4>
+            <table className="w-full font-mono">
+              <tbody>
+                <tr>
+                  <td className="pr-2 text-gray-400">provider</td>
+                  <td>{mode.provider ?? '（默认提供方）'}</td>
+                </tr>
+                {PARAM_LABELS.map(([key, label]) => (
+                  <tr key={key}>
+                    <td className="pr-2 text-gray-400">{label}</td>
+                    <td>{formatValue(params[key])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-700 mb-1">最近一次请求</h4>
+            {lastRequest ? (
+              <table className="w-full font-mono">
+                <tbody>
+                  <tr>
+                    <td className="pr-2 text-gray-400">time</td>
+                    <td>{new Date(lastRequest.timestamp).toLocaleTimeString()}</td>
+                  </tr>
+                  <tr>
+                    <td className="pr-2 text-gray-400">mode</td>
+                    <td>{lastRequest.mode}</td>
+                  </tr>
+                  <tr>
+                    <td className="pr-2 text-gray-400">provider</td>
+                    <td>{lastRequest.provider}</td>
+                  </tr>
+                  <tr>
+                    <td className="pr-2 text-gray-400">safety</td>
+                    <td>{lastRequest.safetyLevel}</td>
+                  </tr>
+                  <tr>
+                    <td className="pr-2 text-gray-400">messages</td>
+                    <td>{lastRequest.messageCount}</td>
+                  </tr>
+                  <tr>
+                    <td className="pr-2 text-gray-400">system</td>
+                    <td>{lastRequest.systemPromptLength}字</td>
+                  </tr>
+                  {PARAM_LABELS.map(([key, label]) => (
+                    <tr key={key}>
+                      <td className="pr-2 text-gray-400">{label}</td>
+                      <td>{formatValue(lastRequest.params[key])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-gray-400">还没有发送过请求</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationDebugPanel;
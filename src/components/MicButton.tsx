@@ -0,0 +1,178 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, MicOff, Loader2 } from 'lucide-react';
+import { AudioRecorder } from '../services/audioRecorder';
+import { asrService } from '../services/asrService';
+
+interface MicButtonProps {
+  /** 识别成功回调 */
+  onTranscript: (text: string) => void;
+  /** 出错回调 */
+  onError?: (error: string) => void;
+  /** 是否禁用 */
+  disabled?: boolean;
+  /** 自定义样式类名 */
+  className?: string;
+}
+
+type MicState = 'idle' | 'recording' | 'transcribing';
+
+/** 按住超过该时长视为"按住说话"，否则视为点击切换免提录音（毫秒） */
+const HOLD_THRESHOLD = 400;
+/** 录音短于该时长时视为误触，直接丢弃（毫秒） */
+const MIN_RECORDING_DURATION = 300;
+
+/**
+ * 语音输入按钮
+ * 按住说话、松开识别；短按则进入免提录音，再次点击结束
+ */
+export const MicButton: React.FC<MicButtonProps> = ({
+  onTranscript,
+  onError,
+  disabled = false,
+  className = '',
+}) => {
+  const [state, setState] = useState<MicState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<AudioRecorder | null>(null);
+  const pressStartRef = useRef(0);
+  const isHandsFreeRef = useRef(false);
+
+  const isSupported = AudioRecorder.isSupported();
+
+  // 录音计时
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const startTime = Date.now();
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed(Math.floor((Date.now() - startTime) / 1000)), 500);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  // 卸载时释放麦克风
+  useEffect(() => {
+    return () => recorderRef.current?.cancel();
+  }, []);
+
+  /**
+   * 开始录音
+   */
+  const startRecording = async () => {
+    const recorder = new AudioRecorder();
+    recorderRef.current = recorder;
+    isHandsFreeRef.current = false;
+    try {
+      await recorder.start();
+      setState('recording');
+    } catch (err) {
+      recorderRef.current = null;
+      isHandsFreeRef.current = false;
+      setState('idle');
+      onError?.(err instanceof Error ? err.message : '无法开始录音');
+    }
+  };
+
+  /**
+   * 结束录音并识别
+   */
+  const finishRecording = async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    isHandsFreeRef.current = false;
+    if (!recorder?.isRecording()) {
+      setState('idle');
+      return;
+    }
+
+    setState('transcribing');
+    try {
+      const recording = await recorder.stop();
+      if (recording.duration < MIN_RECORDING_DURATION) {
+        setState('idle');
+        return;
+      }
+
+      const result = await asrService.recognize(recording.blob);
+      if (result.success && result.text) {
+        onTranscript(result.text);
+      } else {
+        onError?.(result.error || '语音识别失败');
+      }
+    } catch (err) {
+      onError?.(err instanceof Error ? err.message : '语音识别出错');
+    } finally {
+      setState('idle');
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled || state === 'transcribing') return;
+    e.preventDefault();
+    pressStartRef.current = Date.now();
+
+    // 免提录音中再次按下，松开时结束
+    if (state === 'recording') return;
+    startRecording();
+  };
+
+  const handlePointerUp = () => {
+    if (state === 'transcribing' || !recorderRef.current) return;
+    const heldFor = Date.now() - pressStartRef.current;
+
+    if (isHandsFreeRef.current) {
+      finishRecording();
+    } else if (heldFor >= HOLD_THRESHOLD) {
+      // 按住说话：松开即结束
+      finishRecording();
+    } else {
+      // 短按：进入免提录音，等待再次点击
+      isHandsFreeRef.current = true;
+    }
+  };
+
+  if (!isSupported || !asrService.isConfigured()) {
+    return null;
+  }
+
+  const title = state === 'recording'
+    ? (isHandsFreeRef.current ? '点击结束录音' : '松开结束录音')
+    : state === 'transcribing'
+      ? '正在识别...'
+      : '按住说话，或点击开始免提录音';
+
+  return (
+    <button
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => {
+        // 按住说话时手指滑出按钮，同样结束录音
+        if (state === 'recording' && !isHandsFreeRef.current && Date.now() - pressStartRef.current >= HOLD_THRESHOLD) {
+          finishRecording();
+        }
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+      disabled={disabled || state === 'transcribing'}
+      className={`relative p-3 rounded-xl transition-all duration-200 select-none touch-none disabled:opacity-50 disabled:cursor-not-allowed ${
+        state === 'recording'
+          ? 'bg-red-500 text-white shadow-lg scale-105'
+          : 'bg-purple-50 text-purple-600 hover:bg-purple-100'
+      } ${className}`}
+      title={title}
+    >
+      {state === 'transcribing' ? (
+        <Loader2 className="w-5 h-5 animate-spin" />
+      ) : state === 'recording' ? (
+        <>
+          <span className="absolute inset-0 rounded-xl bg-red-400 animate-ping opacity-40" />
+          <MicOff className="w-5 h-5 relative" />
+          <span className="absolute -top-2 -right-2 text-[10px] bg-white text-red-500 rounded-full px-1 shadow">
+            {elapsed}s
+          </span>
+        </>
+      ) : (
+        <Mic className="w-5 h-5" />
+      )}
+    </button>
+  );
+};
+
+export default MicButton;
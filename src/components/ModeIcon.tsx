@@ -0,0 +1,42 @@
+import React from 'react';
+import {
+  Ear,
+  Heart,
+  LucideIcon,
+  MessageCircle,
+  Smile,
+  Sparkles,
+  ThumbsUp,
+  TreeDeciduous,
+  Trees,
+} from 'lucide-react';
+
+/** prompts.md中「图标」可用的名称 */
+const MODE_ICONS: Record<string, LucideIcon> = {
+  'ear': Ear,
+  'heart': Heart,
+  'message-circle': MessageCircle,
+  'smile': Smile,
+  'sparkles': Sparkles,
+  'thumbs-up': ThumbsUp,
+  'tree-deciduous': TreeDeciduous,
+  'trees': Trees,
+};
+
+interface ModeIconProps {
+  /** 图标名称（lucide图标的短横线命名） */
+  name: string;
+  /** 自定义样式类名 */
+  className?: string;
+}
+
+/**
+ * 情绪模式图标
+ * 未知的图标名称显示为对话气泡
+ */
+export const ModeIcon: React.FC<ModeIconProps> = ({ name, className = 'w-6 h-6' }) => {
+  const Icon = MODE_ICONS[name] ?? MessageCircle;
+  return <Icon className={className} />;
+};
+
+export default ModeIcon;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Play, Pause, SkipBack, SkipForward, X, Loader2, ListMusic } from 'lucide-react';
+import { audioQueueManager } from '../services/audioQueueManager';
+import { useAudioQueue } from '../hooks/useAudioQueue';
+
+interface NowPlayingBarProps {
+  /** 自定义样式类名 */
+  className?: string;
+}
+
+/**
+ * 正在播放栏
+ * 显示全局播放队列当前播放的回复和进度，提供上一条、暂停/继续、下一条和停止
+ */
+export const NowPlayingBar: React.FC<NowPlayingBarProps> = ({ className = '' }) => {
+  const playback = useAudioQueue();
+  if (!playback.current) return null;
+
+  const { status, current, segmentIndex, segmentCount, currentTime, duration, upcoming } = playback;
+  const progress = duration > 0 ? Math.min(100, (currentTime / duration) * 100) : 0;
+
+  return (
+    <div className={`border-t bg-purple-50 px-4 py-2 ${className}`}>
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-gray-700 truncate">{current.title || '语音回复'}</p>
+          <p className="text-xs text-gray-400 flex items-center gap-2">
+            {status === 'buffering' ? '等待合成…' : status === 'paused' ? '已暂停' : '正在播放'}
+            {segmentCount > 1 && <span>第{segmentIndex + 1}/{segmentCount}句</span>}
+            {upcoming.length > 0 && (
+              <span className="flex items-center gap-0.5" title="待播放">
+                <ListMusic size={12} />
+                {upcoming.length}
+              </span>
+            )}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1 text-purple-600">
+          <button
+            onClick={() => audioQueueManager.previous()}
+            className="p-1.5 rounded-full hover:bg-purple-100"
+            title="上一条"
+          >
+            <SkipBack size={16} />
+          </button>
+          <button
+            onClick={() => audioQueueManager.togglePause()}
+            className="p-2 rounded-full bg-purple-500 text-white hover:bg-purple-600"
+            title={status === 'paused' ? '继续' : '暂停'}
+          >
+            {status === 'buffering' ? (
+              <Loader2 size={16} className="animate-spin" />
+            ) : status === 'paused' ? (
+              <Play size={16} />
+            ) : (
+              <Pause size={16} />
+            )}
+          </button>
+          <button
+            onClick={() => audioQueueManager.skip()}
+            className="p-1.5 rounded-full hover:bg-purple-100"
+            title="下一条"
+          >
+            <SkipForward size={16} />
+          </button>
+          <button
+            onClick={() => audioQueueManager.stop()}
+            className="p-1.5 rounded-full text-gray-400 hover:bg-purple-100 hover:text-gray-600"
+            title="停止并清空队列"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-1.5 h-1 bg-purple-100 rounded-full overflow-hidden">
+        <div className="h-full bg-purple-400 transition-[width] duration-200" style={{ width: `${progress}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default NowPlayingBar;
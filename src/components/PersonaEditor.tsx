@@ -0,0 +1,509 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Trash2, Download, Upload, Save, Loader2, MessageSquare, Volume2 } from 'lucide-react';
+import { customModeStore } from '../services/customModeStore';
+import { ModeDefinition } from '../services/modeRegistry';
+import { doubaoApi } from '../services/doubaoApi';
+import { VOICE_CATALOG, EMOTION_LABELS, findVoice } from '../config/voiceCatalog';
+import { useModes } from '../hooks/useModes';
+import { useVoicePreview } from '../hooks/useVoicePreview';
+import ModeIcon from './ModeIcon';
+import AudioPlayer from './AudioPlayer';
+
+interface PersonaEditorProps {
+  /** 关闭回调 */
+  onClose: () => void;
+  /** 保存后切换到该人设 */
+  onSaved: (id: string) => void;
+}
+
+// 编辑中的人设
+interface PersonaDraft {
+  label: string;
+  description: string;
+  icon: string;
+  gradient: string;
+  temperature: number;
+  systemPrompt: string;
+  speaker: string;
+  emotion: string;
+}
+
+/** 可选图标 */
+const ICON_OPTIONS = ['message-circle', 'smile', 'heart', 'thumbs-up', 'sparkles', 'trees', 'tree-deciduous', 'ear'];
+
+/** 可选配色 */
+const GRADIENT_OPTIONS = [
+  'from-red-300 to-red-400',
+  'from-amber-300 to-orange-400',
+  'from-emerald-300 to-teal-400',
+  'from-sky-300 to-blue-400',
+  'from-violet-300 to-purple-400',
+  'from-pink-300 to-rose-400',
+];
+
+const DEFAULT_PREVIEW_TEXT = '今天真是糟透了，什么事都不顺。';
+
+const EMPTY_DRAFT: PersonaDraft = {
+  label: '',
+  description: '',
+  icon: ICON_OPTIONS[0],
+  gradient: GRADIENT_OPTIONS[0],
+  temperature: 0.7,
+  systemPrompt: '',
+  speaker: VOICE_CATALOG[0].id,
+  emotion: VOICE_CATALOG[0].emotions[0],
+};
+
+/**
+ * 已保存的人设转换为编辑草稿
+ */
+const toDraft = (mode: ModeDefinition): PersonaDraft => ({
+  label: mode.label,
+  description: mode.description,
+  icon: mode.icon,
+  gradient: mode.gradient,
+  temperature: mode.temperature,
+  systemPrompt: mode.systemPrompt,
+  speaker: mode.voice.speaker,
+  emotion: mode.voice.emotion ?? '',
+});
+
+/**
+ * 编辑草稿转换为模式定义
+ */
+const toMode = (id: string, draft: PersonaDraft, base?: ModeDefinition): ModeDefinition => ({
+  ...base,
+  id,
+  name: draft.label.trim(),
+  label: draft.label.trim(),
+  description: draft.description.trim(),
+  icon: draft.icon,
+  gradient: draft.gradient,
+  temperature: draft.temperature,
+  reasoningEffort: base?.reasoningEffort ?? 'medium',
+  systemPrompt: draft.systemPrompt.trim(),
+  voice: {
+    ...base?.voice,
+    speaker: draft.speaker,
+    emotion: draft.emotion || undefined,
+  },
+  custom: true,
+});
+
+/**
+ * 检查草稿，返回错误提示
+ */
+const validateDraft = (draft: PersonaDraft): string | null => {
+  if (!draft.label.trim()) return '请填写人设名称';
+  if (!draft.systemPrompt.trim()) return '请填写系统提示词';
+  if (/^\s*```/m.test(draft.systemPrompt)) return '系统提示词中不能包含以```开头的行';
+  return null;
+};
+
+/**
+ * 下载文本文件
+ */
+const downloadText = (content: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/markdown;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 自定义人设编辑器
+ * 编写系统提示词、调整温度、选择音色和情感，试聊并试听后保存到本地；支持以prompts.md格式导入导出
+ */
+export const PersonaEditor: React.FC<PersonaEditorProps> = ({ onClose, onSaved }) => {
+  const modes = useModes();
+  const customModes = modes.filter(mode => mode.custom);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [previewText, setPreviewText] = useState(DEFAULT_PREVIEW_TEXT);
+  const [previewReply, setPreviewReply] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const voicePreview = useVoicePreview();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editingMode = editingId ? customModes.find(mode => mode.id === editingId) : undefined;
+  const voice = findVoice(draft.speaker);
+
+  const updateDraft = (patch: Partial<PersonaDraft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+  };
+
+  const resetPreview = () => {
+    setPreviewReply('');
+    voicePreview.clear();
+    setMessage(null);
+  };
+
+  /**
+   * 开始编辑已保存的人设，传入null时新建
+   */
+  const startEditing = (mode: ModeDefinition | null) => {
+    setEditingId(mode?.id ?? null);
+    setDraft(mode ? toDraft(mode) : EMPTY_DRAFT);
+    resetPreview();
+  };
+
+  /**
+   * 切换音色时选择该音色的默认情感
+   */
+  const handleSpeakerChange = (speaker: string) => {
+    const emotions = findVoice(speaker)?.emotions ?? [];
+    updateDraft({ speaker, emotion: emotions.includes(draft.emotion) ? draft.emotion : emotions[0] ?? '' });
+    voicePreview.clear();
+  };
+
+  /**
+   * 试聊：用当前草稿生成一条回复
+   */
+  const handlePreview = async () => {
+    const draftError = validateDraft(draft);
+    if (draftError || !previewText.trim()) {
+      setMessage({ text: draftError ?? '请输入试聊内容', isError: true });
+      return;
+    }
+
+    setIsPreviewing(true);
+    resetPreview();
+    try {
+      setPreviewReply(await doubaoApi.previewReply(toMode(editingId ?? 'preview', draft, editingMode), previewText));
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : '试聊失败', isError: true });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  /**
+   * 试听：用当前草稿的音色朗读试聊回复
+   */
+  const handleListen = () => {
+    if (!previewReply || voicePreview.isLoading) return;
+    voicePreview.preview(previewReply, toMode('preview', draft, editingMode).voice);
+  };
+
+  /**
+   * 保存人设
+   */
+  const handleSave = () => {
+    const draftError = validateDraft(draft);
+    if (draftError) {
+      setMessage({ text: draftError, isError: true });
+      return;
+    }
+
+    try {
+      const mode = toMode(editingId ?? customModeStore.createId(), draft, editingMode);
+      customModeStore.save(mode);
+      onSaved(mode.id);
+      onClose();
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : '保存失败', isError: true });
+    }
+  };
+
+  /**
+   * 删除前确认
+   */
+  const handleDelete = (mode: ModeDefinition) => {
+    if (window.confirm(`确定删除人设「${mode.label}」吗？该人设下的历史会话将无法再打开。`)) {
+      customModeStore.remove(mode.id);
+      if (mode.id === editingId) {
+        startEditing(null);
+      }
+    }
+  };
+
+  /**
+   * 导出全部自定义人设
+   */
+  const handleExport = () => {
+    downloadText(customModeStore.exportMarkdown(), 'custom-personas.md');
+  };
+
+  /**
+   * 从markdown文件导入人设
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { imported, issues } = customModeStore.importMarkdown(await file.text());
+      const errorCount = issues.filter(issue => issue.level === 'error').length;
+      if (imported.length === 0) {
+        setMessage({ text: `没有找到可导入的人设${errorCount ? `（${errorCount}处格式错误，详见控制台）` : ''}`, isError: true });
+      } else {
+        setMessage({ text: `已导入${imported.length}个人设${errorCount ? `，${errorCount}处格式错误已跳过` : ''}`, isError: false });
+      }
+      if (issues.length > 0) {
+        console.warn('⚠️ 导入文件的格式问题:', issues);
+      }
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : '导入失败', isError: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-full bg-white rounded-2xl shadow-2xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="font-semibold text-gray-800">自定义人设</h3>
+            <p className="text-xs text-gray-500">人设保存在本机浏览器中，可导出为prompts.md格式的文件</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="关闭">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0 flex-col sm:flex-row">
+          {/* 人设列表 */}
+          <div className="sm:w-52 border-b sm:border-b-0 sm:border-r flex flex-col">
+            <div className="p-3 space-y-2 border-b">
+              <button
+                onClick={() => startEditing(null)}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg text-sm hover:from-purple-600 hover:to-pink-600 transition-colors"
+              >
+                <Plus size={16} />
+                新建人设
+              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 border border-gray-300 rounded-lg text-xs text-gray-600 hover:bg-gray-50"
+                >
+                  <Upload size={14} />
+                  导入
+                </button>
+                <button
+                  onClick={handleExport}
+                  disabled={customModes.length === 0}
+                  className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 border border-gray-300 rounded-lg text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Download size={14} />
+                  导出
+                </button>
+                <input ref={fileInputRef} type="file" accept=".md,text/markdown,text/plain" onChange={handleImport} className="hidden" />
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2 space-y-1 max-h-40 sm:max-h-none">
+              {customModes.length === 0 ? (
+                <div className="text-center text-sm text-gray-400 mt-4">还没有自定义人设</div>
+              ) : (
+                customModes.map(mode => (
+                  <div
+                    key={mode.id}
+                    onClick={() => startEditing(mode)}
+                    className={`group flex items-center gap-2 rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+                      mode.id === editingId ? 'bg-purple-50 border border-purple-200' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <ModeIcon name={mode.icon} className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                    <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">{mode.label}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(mode);
+                      }}
+                      className="text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="删除"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* 编辑表单 */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="block">
+                <span className="block text-gray-600 mb-1">名称</span>
+                <input
+                  value={draft.label}
+                  onChange={(e) => updateDraft({ label: e.target.value })}
+                  maxLength={12}
+                  placeholder="如：毒舌闺蜜"
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-gray-600 mb-1">描述</span>
+                <input
+                  value={draft.description}
+                  onChange={(e) => updateDraft({ description: e.target.value })}
+                  maxLength={40}
+                  placeholder="一句话介绍这个人设"
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </label>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <span className="block text-gray-600 mb-1">图标</span>
+                <div className="flex flex-wrap gap-1">
+                  {ICON_OPTIONS.map(icon => (
+                    <button
+                      key={icon}
+                      onClick={() => updateDraft({ icon })}
+                      className={`p-1.5 rounded border ${draft.icon === icon ? 'border-purple-500 bg-purple-50 text-purple-600' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                      title={icon}
+                    >
+                      <ModeIcon name={icon} className="w-4 h-4" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <span className="block text-gray-600 mb-1">配色</span>
+                <div className="flex flex-wrap gap-1">
+                  {GRADIENT_OPTIONS.map(gradient => (
+                    <button
+                      key={gradient}
+                      onClick={() => updateDraft({ gradient })}
+                      className={`w-8 h-8 rounded-full bg-gradient-to-r ${gradient} ${draft.gradient === gradient ? 'ring-2 ring-offset-1 ring-purple-500' : ''}`}
+                      title={gradient}
+                    />
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <label className="block">
+              <span className="flex justify-between text-gray-600 mb-1">
+                <span>温度参数</span>
+                <span>{draft.temperature.toFixed(1)}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.1}
+                value={draft.temperature}
+                onChange={(e) => updateDraft({ temperature: Number(e.target.value) })}
+                className="w-full"
+              />
+              <span className="block text-xs text-gray-400">越低回复越稳定，越高越有创意</span>
+            </label>
+
+            <label className="block">
+              <span className="block text-gray-600 mb-1">系统提示词</span>
+              <textarea
+                value={draft.systemPrompt}
+                onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+                rows={8}
+                placeholder={'# 角色设定\n你是……\n\n# 语言风格\n……'}
+                className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            </label>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="block">
+                <span className="block text-gray-600 mb-1">音色</span>
+                <select
+                  value={draft.speaker}
+                  onChange={(e) => handleSpeakerChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {!voice && <option value={draft.speaker}>{draft.speaker}</option>}
+                  {VOICE_CATALOG.map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.name}（{option.gender === 'male' ? '男声' : '女声'}）
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="block text-gray-600 mb-1">语音情感</span>
+                <select
+                  value={draft.emotion}
+                  onChange={(e) => {
+                    updateDraft({ emotion: e.target.value });
+                    voicePreview.clear();
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  {(voice?.emotions ?? [draft.emotion]).map(emotion => (
+                    <option key={emotion} value={emotion}>{EMOTION_LABELS[emotion] ?? (emotion || '默认')}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* 试聊与试听 */}
+            <div className="p-3 bg-gray-50 rounded-lg space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={previewText}
+                  onChange={(e) => setPreviewText(e.target.value)}
+                  placeholder="输入一句话试试效果"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button
+                  onClick={handlePreview}
+                  disabled={isPreviewing}
+                  className="flex items-center gap-1 px-3 py-2 bg-purple-500 text-white rounded hover:bg-purple-600 disabled:bg-gray-400"
+                >
+                  {isPreviewing ? <Loader2 size={14} className="animate-spin" /> : <MessageSquare size={14} />}
+                  试聊
+                </button>
+              </div>
+              {previewReply && (
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 px-3 py-2 bg-white rounded-lg text-gray-800 whitespace-pre-wrap">{previewReply}</p>
+                  <button
+                    onClick={handleListen}
+                    disabled={voicePreview.isLoading}
+                    className="p-2 bg-blue-500 text-white rounded-full hover:bg-blue-600 disabled:bg-gray-400"
+                    title="试听"
+                  >
+                    {voicePreview.isLoading ? <Loader2 size={14} className="animate-spin" /> : <Volume2 size={14} />}
+                  </button>
+                </div>
+              )}
+              {voicePreview.audio && (
+                <AudioPlayer audioData={voicePreview.audio.data} format={voicePreview.audio.format} autoPlay playerId="persona-preview" />
+              )}
+              {voicePreview.error && <p className="text-xs text-red-600">{voicePreview.error}</p>}
+            </div>
+
+            {message && (
+              <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+            )}
+          </div>
+        </div>
+
+        {/* 底部操作 */}
+        <div className="flex justify-end gap-2 p-4 border-t">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800">
+            取消
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg text-sm hover:from-purple-600 hover:to-pink-600"
+          >
+            <Save size={14} />
+            {editingId ? '保存修改' : '保存并使用'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
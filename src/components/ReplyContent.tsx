@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { parseReply, alignTimestamps, ReplyPart, TimedRange } from '../services/replyFormatter';
+import type { SentenceTimestamp } from '../services/ttsService';
+
+interface ReplyContentProps {
+  /** AI回复原文 */
+  text: string;
+  /** 回复语音的逐句、逐字时间戳 */
+  timestamps?: SentenceTimestamp[];
+  /** 回复语音当前的播放进度（秒），未在播放时为null */
+  currentTime?: number | null;
+  /** 点击字词跳转到该字朗读的时间 */
+  onSeek?: (time: number) => void;
+}
+
+/**
+ * 找到正在朗读的字词：最后一个已开始的字，读完最后一个字后不再高亮
+ */
+const findActiveRange = (ranges: TimedRange[], time: number): TimedRange | null => {
+  let active: TimedRange | null = null;
+  for (const range of ranges) {
+    if (range.startTime > time) break;
+    active = range;
+  }
+  return active === ranges[ranges.length - 1] && active && time > active.endTime ? null : active;
+};
+
+/**
+ * AI回复内容
+ * 舞台说明显示为单独的动作标签，加粗文字去掉markdown标记后加粗显示。
+ * 有语音时间戳时，每个字词可点击跳转，播放时高亮正在朗读的字词
+ */
+export const ReplyContent: React.FC<ReplyContentProps> = ({ text, timestamps, currentTime = null, onSeek }) => {
+  const parts = useMemo(() => parseReply(text), [text]);
+  const ranges = useMemo(
+    () => (timestamps ? alignTimestamps(parts, timestamps.flatMap(sentence => sentence.words)) : []),
+    [parts, timestamps]
+  );
+  const activeRange = currentTime === null ? null : findActiveRange(ranges, currentTime);
+
+  /**
+   * 把片段文字按时间戳拆成可点击的字词
+   */
+  const renderTimedText = (part: ReplyPart, partIndex: number): React.ReactNode => {
+    const partRanges = ranges.filter(range => range.partIndex === partIndex);
+    if (partRanges.length === 0) return part.text;
+
+    const nodes: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const range of partRanges) {
+      if (range.start > lastIndex) {
+        nodes.push(part.text.slice(lastIndex, range.start));
+      }
+      nodes.push(
+        <span
+          key={range.start}
+          onClick={() => onSeek?.(range.startTime)}
+          className={`rounded transition-colors ${onSeek ? 'cursor-pointer hover:bg-purple-100' : ''} ${
+            range === activeRange ? 'bg-yellow-200' : ''
+          }`}
+        >
+          {part.text.slice(range.start, range.end)}
+        </span>
+      );
+      lastIndex = range.end;
+    }
+    if (lastIndex < part.text.length) {
+      nodes.push(part.text.slice(lastIndex));
+    }
+    return nodes;
+  };
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (part.type === 'action') {
+          return (
+            <span
+              key={index}
+              className="inline-block mx-0.5 px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 text-xs italic align-middle animate-pop-in"
+            >
+              {part.text}
+            </span>
+          );
+        }
+        if (part.type === 'strong') {
+          return <strong key={index}>{renderTimedText(part, index)}</strong>;
+        }
+        return <React.Fragment key={index}>{renderTimedText(part, index)}</React.Fragment>;
+      })}
+    </>
+  );
+};
+
+export default ReplyContent;
@@ -1,22 +1,98 @@
-import React, { useState } from 'react';
-import { Settings, AlertCircle, CheckCircle } from 'lucide-react';
-import { ttsService } from '../services/ttsService';
+import React, { useEffect, useState } from 'react';
+import { Settings, AlertCircle, CheckCircle, Radio, Loader2, Volume2, RotateCcw } from 'lucide-react';
+import { ttsService, VoiceModeConfig } from '../services/ttsService';
+import { voiceSettings } from '../services/voiceSettings';
+import { ttsCache, TTSCacheStats } from '../services/ttsCache';
+import { StreamingAudioPlayer } from '../services/streamingAudioPlayer';
+import { VOICE_CATALOG, EMOTION_LABELS, findVoice } from '../config/voiceCatalog';
+import { useModes } from '../hooks/useModes';
+import { useVoicePreview } from '../hooks/useVoicePreview';
 import VoiceButton from './VoiceButton';
+import AudioPlayer from './AudioPlayer';
+
+/** 数值型语音参数的滑块设置 */
+const VOICE_SLIDERS: Array<{ key: 'emotionScale' | 'speechRate' | 'loudnessRate'; label: string; min: number; max: number; defaultValue: number }> = [
+  { key: 'emotionScale', label: '情感强度', min: 1, max: 5, defaultValue: 4 },
+  { key: 'speechRate', label: '语速', min: -50, max: 100, defaultValue: 0 },
+  { key: 'loudnessRate', label: '音量', min: -50, max: 100, defaultValue: 0 },
+];
+
+interface TTSConfigPanelProps {
+  /** 打开面板时选中的模式 */
+  mode?: string;
+}
 
 /**
  * TTS配置面板组件
- * 用于测试和调试语音合成功能
+ * 按模式选择音色、调整语音参数（保存在本地，合成时覆盖prompts.md中的配置），并测试语音合成
  */
-export const TTSConfigPanel: React.FC = () => {
+export const TTSConfigPanel: React.FC<TTSConfigPanelProps> = ({ mode = 'mood' }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [testText, setTestText] = useState('你好，这是一个语音合成测试。');
-  const [selectedMode, setSelectedMode] = useState('心理疗愈');
+  const modes = useModes();
+  const [selectedMode, setSelectedMode] = useState(mode);
   const [testResult, setTestResult] = useState<string | null>(null);
   const [isTestSuccess, setIsTestSuccess] = useState<boolean | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [overrides, setOverrides] = useState(() => voiceSettings.get(selectedMode));
+  const voicePreview = useVoicePreview();
+  const [cacheStats, setCacheStats] = useState<TTSCacheStats | null>(null);
+
+  // 切换聊天模式时同步选中的模式
+  useEffect(() => {
+    setSelectedMode(mode);
+  }, [mode]);
+
+  // 语音设置变化或切换模式时刷新覆盖参数
+  useEffect(() => {
+    setOverrides(voiceSettings.get(selectedMode));
+    return voiceSettings.subscribe(() => setOverrides(voiceSettings.get(selectedMode)));
+  }, [selectedMode]);
+
+  // 打开面板时读取语音缓存占用
+  useEffect(() => {
+    if (!isOpen) return;
+    ttsCache.getStats().then(setCacheStats).catch(error => console.warn('读取语音缓存统计失败:', error));
+  }, [isOpen]);
+
+  /**
+   * 清空语音缓存
+   */
+  const handleClearCache = async () => {
+    await ttsCache.clear();
+    setCacheStats(await ttsCache.getStats());
+  };
 
   // 获取配置状态
   const configStatus = ttsService.getConfigStatus();
   const isConfigured = ttsService.isConfigured();
+  const voiceConfig = ttsService.getVoiceConfigByMode(selectedMode);
+  const voice = findVoice(voiceConfig.speaker);
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  /**
+   * 修改当前模式的语音参数
+   */
+  const updateVoice = (patch: Partial<VoiceModeConfig>) => {
+    voiceSettings.update(selectedMode, patch);
+    voicePreview.clear();
+  };
+
+  /**
+   * 切换音色，当前情感不受新音色支持时改用其默认情感
+   */
+  const handleSpeakerChange = (speaker: string) => {
+    const emotions = findVoice(speaker)?.emotions ?? [];
+    const emotion = voiceConfig.emotion && emotions.includes(voiceConfig.emotion) ? voiceConfig.emotion : emotions[0];
+    updateVoice(emotion ? { speaker, emotion } : { speaker });
+  };
+
+  /**
+   * 用当前参数朗读音色的示例文本
+   */
+  const handlePreviewVoice = () => {
+    voicePreview.preview(voice?.sampleText ?? testText, voiceConfig);
+  };
 
   /**
    * 处理测试成功
@@ -34,12 +110,67 @@ export const TTSConfigPanel: React.FC = () => {
     setIsTestSuccess(false);
   };
 
+  /**
+   * 流式合成测试：收到首个音频分片即开始播放
+   */
+  const handleStreamTest = async () => {
+    if (isStreaming || !testText.trim()) return;
+
+    setIsStreaming(true);
+    setTestResult(null);
+
+    const player = new StreamingAudioPlayer();
+    const voiceConfig = ttsService.getVoiceConfigByMode(selectedMode);
+    const startTime = performance.now();
+    let firstChunkTime: number | null = null;
+    let chunkCount = 0;
+
+    player.start();
+
+    try {
+      const response = await ttsService.synthesizeStream(
+        {
+          text: testText,
+          speaker: voiceConfig.speaker,
+          audioParams: {
+            format: 'mp3',
+            emotion: voiceConfig.emotion,
+            emotionScale: voiceConfig.emotionScale,
+            speechRate: voiceConfig.speechRate,
+            loudnessRate: voiceConfig.loudnessRate,
+          },
+        },
+        (chunk) => {
+          if (firstChunkTime === null) {
+            firstChunkTime = performance.now() - startTime;
+          }
+          chunkCount++;
+          player.appendChunk(chunk);
+        }
+      );
+
+      if (response.success) {
+        setTestResult(`流式合成成功！首包耗时 ${Math.round(firstChunkTime ?? 0)}ms，共 ${chunkCount} 个分片`);
+        setIsTestSuccess(true);
+        await player.end();
+      } else {
+        player.stop();
+        handleTestError(response.error || '流式合成失败');
+      }
+    } catch (err) {
+      player.stop();
+      handleTestError(err instanceof Error ? err.message : '流式合成出错');
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
   if (!isOpen) {
     return (
       <button
         onClick={() => setIsOpen(true)}
         className="fixed bottom-4 right-4 p-3 bg-blue-500 text-white rounded-full shadow-lg hover:bg-blue-600 transition-colors z-50"
-        title="打开TTS配置面板"
+        title="语音设置"
       >
         <Settings size={20} />
       </button>
@@ -47,12 +178,12 @@ export const TTSConfigPanel: React.FC = () => {
   }
 
   return (
-    <div className="fixed bottom-4 right-4 w-96 bg-white rounded-lg shadow-xl border z-50">
+    <div className="fixed bottom-4 right-4 w-96 max-w-[calc(100vw-2rem)] max-h-[calc(100vh-2rem)] overflow-y-auto bg-white rounded-lg shadow-xl border z-50">
       {/* 头部 */}
       <div className="flex items-center justify-between p-4 border-b">
         <h3 className="font-semibold text-gray-800 flex items-center gap-2">
           <Settings size={18} />
-          TTS配置面板
+          语音设置
         </h3>
         <button
           onClick={() => setIsOpen(false)}
@@ -67,44 +198,145 @@ export const TTSConfigPanel: React.FC = () => {
         <h4 className="font-medium text-gray-700 mb-2">配置状态</h4>
         <div className="space-y-1 text-sm">
           <div className="flex items-center gap-2">
-            {configStatus.hasAppId ? (
-              <CheckCircle size={14} className="text-green-500" />
-            ) : (
-              <AlertCircle size={14} className="text-red-500" />
-            )}
-            <span>APP ID: {configStatus.hasAppId ? '已配置' : '未配置'}</span>
-          </div>
-          <div className="flex items-center gap-2">
-            {configStatus.hasAccessKey ? (
-              <CheckCircle size={14} className="text-green-500" />
-            ) : (
-              <AlertCircle size={14} className="text-red-500" />
-            )}
-            <span>访问密钥: {configStatus.hasAccessKey ? '已配置' : '未配置'}</span>
-          </div>
-          <div className="flex items-center gap-2">
-            {configStatus.hasApiUrl ? (
+            {configStatus.isAvailable ? (
               <CheckCircle size={14} className="text-green-500" />
             ) : (
               <AlertCircle size={14} className="text-red-500" />
             )}
-            <span>API地址: {configStatus.hasApiUrl ? '已配置' : '未配置'}</span>
-          </div>
-          <div className="text-xs text-gray-500 mt-2">
-            资源ID: {configStatus.resourceId}
+            <span>
+              语音提供方: {configStatus.providerName}（{!configStatus.isLoaded ? '检测中' : configStatus.isAvailable ? '可用' : '不可用'}）
+            </span>
           </div>
+          {!configStatus.producesAudio && (
+            <div className="text-xs text-gray-500 mt-2">
+              当前为浏览器直接朗读，语音不会保存到消息中
+            </div>
+          )}
+          {cacheStats && ttsCache.isEnabled() && (
+            <div className="flex items-center justify-between text-xs text-gray-500 mt-2">
+              <span>
+                语音缓存: {cacheStats.count}条，{(cacheStats.totalBytes / 1024 / 1024).toFixed(1)}MB / {Math.round(cacheStats.maxBytes / 1024 / 1024)}MB
+              </span>
+              {cacheStats.count > 0 && (
+                <button onClick={handleClearCache} className="text-blue-600 hover:text-blue-800">
+                  清空
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
-        {!isConfigured && (
+        {configStatus.providerId !== 'volcengine' && configStatus.providerId !== 'mock' && (
           <div className="mt-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
-            请在.env文件中配置TTS相关环境变量：
-            <br />• VITE_TTS_APP_ID
-            <br />• VITE_TTS_ACCESS_KEY
-            <br />• VITE_TTS_API_URL
+            如需使用火山引擎语音，请在后端代理的.env文件中配置TTS相关环境变量：
+            <br />• TTS_APP_ID
+            <br />• TTS_ACCESS_KEY
+            <br />• TTS_API_URL（可选）
           </div>
         )}
       </div>
 
+      {/* 音色设置 */}
+      <div className="p-4 border-b">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium text-gray-700">音色设置</h4>
+          <select
+            value={selectedMode}
+            onChange={(e) => setSelectedMode(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {modes.map(mode => (
+              <option key={mode.id} value={mode.id}>{mode.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          <select
+            value={voiceConfig.speaker}
+            onChange={(e) => handleSpeakerChange(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {!voice && <option value={voiceConfig.speaker}>{voiceConfig.speaker}</option>}
+            {VOICE_CATALOG.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.name} · {option.gender === 'male' ? '男声' : '女声'} · {option.language}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handlePreviewVoice}
+            disabled={!isConfigured || voicePreview.isLoading}
+            className="p-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400"
+            title="试听"
+          >
+            {voicePreview.isLoading ? <Loader2 size={16} className="animate-spin" /> : <Volume2 size={16} />}
+          </button>
+        </div>
+
+        <div className="mb-3">
+          <label className="block text-sm text-gray-600 mb-1">语音情感</label>
+          <select
+            value={voiceConfig.emotion ?? ''}
+            onChange={(e) => updateVoice({ emotion: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {!voiceConfig.emotion && <option value="">默认</option>}
+            {(voice?.emotions ?? (voiceConfig.emotion ? [voiceConfig.emotion] : [])).map(emotion => (
+              <option key={emotion} value={emotion}>{EMOTION_LABELS[emotion] ?? emotion}</option>
+            ))}
+          </select>
+        </div>
+
+        {VOICE_SLIDERS.map(({ key, label, min, max, defaultValue }) => (
+          <div key={key} className="mb-2">
+            <label className="flex justify-between text-sm text-gray-600">
+              <span>{label}</span>
+              <span>{voiceConfig[key] ?? defaultValue}</span>
+            </label>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={1}
+              value={voiceConfig[key] ?? defaultValue}
+              onChange={(e) => updateVoice({ [key]: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        ))}
+
+        <label className="flex items-center gap-2 mb-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={voiceConfig.followEmotion !== false}
+            onChange={(e) => updateVoice({ followEmotion: e.target.checked })}
+          />
+          情感跟随（按每句话的语气调整情感和语速）
+        </label>
+
+        {voicePreview.audio && (
+          <AudioPlayer audioData={voicePreview.audio.data} format={voicePreview.audio.format} autoPlay playerId="voice-preview" className="mt-2" />
+        )}
+        {voicePreview.error && <p className="mt-2 text-xs text-red-600">{voicePreview.error}</p>}
+
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+          <span>{hasOverrides ? '已覆盖提示词配置中的语音设定' : '使用提示词配置中的语音设定'}</span>
+          {hasOverrides && (
+            <button
+              onClick={() => {
+                voiceSettings.reset(selectedMode);
+                voicePreview.clear();
+              }}
+              className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+            >
+              <RotateCcw size={12} />
+              恢复默认
+            </button>
+          )}
+        </div>
+      </div>
+
       {/* 测试区域 */}
       <div className="p-4">
         <h4 className="font-medium text-gray-700 mb-3">功能测试</h4>
@@ -121,20 +353,6 @@ export const TTSConfigPanel: React.FC = () => {
           />
         </div>
 
-        {/* 模式选择 */}
-        <div className="mb-3">
-          <label className="block text-sm text-gray-600 mb-1">语音模式</label>
-          <select
-            value={selectedMode}
-            onChange={(e) => setSelectedMode(e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-          >
-            <option value="受气包">受气包模式</option>
-            <option value="抬杠">抬杠模式</option>
-            <option value="心理疗愈">心理疗愈模式</option>
-          </select>
-        </div>
-
         {/* 测试按钮 */}
         <div className="flex items-center gap-2 mb-3">
           <VoiceButton
@@ -146,7 +364,16 @@ export const TTSConfigPanel: React.FC = () => {
             onError={handleTestError}
             className="flex-shrink-0"
           />
-          <span className="text-sm text-gray-600">点击测试语音合成</span>
+          <span className="text-sm text-gray-600">按上方音色合成测试文本</span>
+          <button
+            onClick={handleStreamTest}
+            disabled={!isConfigured || !configStatus.supportsStreaming || !testText.trim() || isStreaming}
+            className="ml-auto flex items-center gap-1 px-2 py-1 text-xs bg-blue-50 text-blue-600 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={configStatus.supportsStreaming ? '边合成边播放' : '当前语音提供方不支持流式合成'}
+          >
+            {isStreaming ? <Loader2 size={12} className="animate-spin" /> : <Radio size={12} />}
+            流式测试
+          </button>
         </div>
 
         {/* 测试结果 */}
@@ -166,7 +393,7 @@ export const TTSConfigPanel: React.FC = () => {
         <p className="mb-1">💡 使用提示：</p>
         <ul className="space-y-1 ml-2">
           <li>• 确保已正确配置火山引擎TTS API密钥</li>
-          <li>• 不同模式使用不同的音色和情感参数</li>
+          <li>• 音色设置按模式保存在本机，只影响当前浏览器</li>
           <li>• 文本长度建议控制在1000字符以内</li>
           <li>• 网络异常时会自动重试3次</li>
         </ul>
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
 import { Volume2, VolumeX, Loader2 } from 'lucide-react';
-import { ttsService, TTSResponse } from '../services/ttsService';
+import { ttsService, TTSResponse, AudioFormat } from '../services/ttsService';
 import AudioPlayer from './AudioPlayer';
 
 interface VoiceButtonProps {
   /** 要转换为语音的文本 */
   text: string;
-  /** 情感模式 */
+  /** 情绪模式ID，决定使用的音色 */
   mode?: string;
   /** 按钮大小 */
   size?: 'sm' | 'md' | 'lg';
@@ -26,7 +26,7 @@ interface VoiceButtonProps {
  */
 export const VoiceButton: React.FC<VoiceButtonProps> = ({
   text,
-  mode = '心理疗愈',
+  mode = 'mood',
   size = 'md',
   disabled = false,
   className = '',
@@ -35,6 +35,7 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [audioData, setAudioData] = useState<string | null>(null);
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>('mp3');
   const [error, setError] = useState<string | null>(null);
   const [showPlayer, setShowPlayer] = useState(false);
 
@@ -84,6 +85,20 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
     setError(null);
     setAudioData(null);
 
+    // 浏览器朗读不产出音频，直接朗读，朗读期间保持加载状态
+    if (!ttsService.producesAudio()) {
+      try {
+        await ttsService.speakByMode(text, mode);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : '朗读出错';
+        setError(errorMsg);
+        onError?.(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
     try {
       console.log('开始语音合成:', { text: text.substring(0, 50), mode });
       
@@ -91,6 +106,7 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
       
       if (response.success && response.data?.audio) {
         setAudioData(response.data.audio);
+        setAudioFormat(response.data.format ?? 'mp3');
         setShowPlayer(true);
         onSuccess?.(response.data.audio);
         console.log('语音合成成功，音频长度:', response.data.audio.length);
@@ -181,7 +197,7 @@ export const VoiceButton: React.FC<VoiceButtonProps> = ({
         <div className="mt-3 min-w-0">
           <AudioPlayer
             audioData={audioData}
-            format="mp3"
+            format={audioFormat}
             autoPlay={true}
             onEnded={handlePlayEnded}
             onError={handlePlayError}
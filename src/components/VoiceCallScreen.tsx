@@ -0,0 +1,148 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PhoneOff, Mic, Loader2, Volume2 } from 'lucide-react';
+import { ChatMessage, EmotionMode } from '../services/doubaoApi';
+import { VoiceCallController, VoiceCallState } from '../services/voiceCallController';
+import { AudioFormat, SentenceTimestamp } from '../services/ttsService';
+import CrisisBanner from './CrisisBanner';
+import ReplyContent from './ReplyContent';
+
+interface VoiceCallScreenProps {
+  /** 当前模式名称 */
+  modeLabel: string;
+  /** 情绪模式 */
+  mode: EmotionMode;
+  /** 获取当前对话历史 */
+  getHistory: () => ChatMessage[];
+  /** 获取当前会话ID */
+  getSessionId: () => string | null;
+  /** 识别出用户发言 */
+  onUserMessage: (text: string) => void;
+  /** AI回复增量更新 */
+  onAssistantReply: (id: string, fullText: string) => void;
+  /** AI回复语音合成完成 */
+  onAssistantAudio: (id: string, audio: string, format: AudioFormat, timestamps?: SentenceTimestamp[]) => void;
+  /** 出错回调 */
+  onError: (error: string) => void;
+  /** 挂断回调 */
+  onClose: () => void;
+  /** 是否显示危机求助横幅 */
+  showCrisisBanner?: boolean;
+}
+
+const STATE_LABELS: Record<VoiceCallState, string> = {
+  idle: '正在接通...',
+  listening: '我在听，你说吧',
+  thinking: '让我想想...',
+  speaking: '正在回复，随时可以打断我',
+  ended: '通话已结束',
+};
+
+/**
+ * 语音通话界面
+ * 挂载即开始通话，卸载或点击挂断时结束
+ */
+export const VoiceCallScreen: React.FC<VoiceCallScreenProps> = ({
+  modeLabel,
+  mode,
+  getHistory,
+  getSessionId,
+  onUserMessage,
+  onAssistantReply,
+  onAssistantAudio,
+  onError,
+  onClose,
+  showCrisisBanner = false,
+}) => {
+  const [callState, setCallState] = useState<VoiceCallState>('idle');
+  const [level, setLevel] = useState(0);
+  const [lastUserText, setLastUserText] = useState('');
+  const [lastReply, setLastReply] = useState('');
+
+  // 回调可能随父组件重新渲染而变化，通话期间始终调用最新的版本
+  const callbacksRef = useRef({ getHistory, getSessionId, onUserMessage, onAssistantReply, onAssistantAudio, onError, onClose });
+  callbacksRef.current = { getHistory, getSessionId, onUserMessage, onAssistantReply, onAssistantAudio, onError, onClose };
+
+  useEffect(() => {
+    const controller = new VoiceCallController({
+      mode,
+      getHistory: () => callbacksRef.current.getHistory(),
+      getSessionId: () => callbacksRef.current.getSessionId(),
+      onStateChange: setCallState,
+      onLevel: setLevel,
+      onUserMessage: (text) => {
+        setLastUserText(text);
+        setLastReply('');
+        callbacksRef.current.onUserMessage(text);
+      },
+      onAssistantReply: (id, fullText) => {
+        setLastReply(fullText);
+        callbacksRef.current.onAssistantReply(id, fullText);
+      },
+      onAssistantAudio: (id, audio, format, timestamps) => callbacksRef.current.onAssistantAudio(id, audio, format, timestamps),
+      onError: (error) => callbacksRef.current.onError(error),
+    });
+
+    controller.start().catch(error => {
+      callbacksRef.current.onError(error instanceof Error ? error.message : '无法开始语音通话');
+      callbacksRef.current.onClose();
+    });
+
+    return () => controller.stop();
+  }, [mode]);
+
+  // 监听时按音量缩放光圈
+  const ringScale = callState === 'listening' ? 1 + level * 0.6 : 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-between bg-gradient-to-b from-purple-600 to-pink-500 text-white p-8">
+      <div className="text-center mt-8">
+        <p className="text-sm opacity-80">语音通话</p>
+        <h2 className="text-2xl font-bold mt-1">{modeLabel}</h2>
+      </div>
+
+      {showCrisisBanner && <CrisisBanner className="w-full max-w-md text-left" />}
+
+      <div className="flex flex-col items-center gap-8 w-full max-w-md">
+        <div className="relative w-40 h-40 flex items-center justify-center">
+          <div
+            className="absolute inset-0 rounded-full bg-white/20 transition-transform duration-100"
+            style={{ transform: `scale(${ringScale})` }}
+          />
+          {callState === 'speaking' && (
+            <div className="absolute inset-0 rounded-full bg-white/20 animate-ping" />
+          )}
+          <div className="relative w-28 h-28 rounded-full bg-white text-purple-600 flex items-center justify-center shadow-xl">
+            {callState === 'thinking' || callState === 'idle' ? (
+              <Loader2 className="w-10 h-10 animate-spin" />
+            ) : callState === 'speaking' ? (
+              <Volume2 className="w-10 h-10" />
+            ) : (
+              <Mic className="w-10 h-10" />
+            )}
+          </div>
+        </div>
+
+        <p className="text-lg font-medium">{STATE_LABELS[callState]}</p>
+
+        <div className="w-full space-y-3 text-sm min-h-[6rem]">
+          {lastUserText && (
+            <p className="text-right opacity-80 line-clamp-2">{lastUserText}</p>
+          )}
+          {lastReply && (
+            <p className="bg-white/15 rounded-xl px-4 py-3 line-clamp-4"><ReplyContent text={lastReply} /></p>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={onClose}
+        className="mb-8 w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center shadow-lg transition-colors"
+        title="挂断"
+      >
+        <PhoneOff className="w-7 h-7" />
+      </button>
+    </div>
+  );
+};
+
+export default VoiceCallScreen;
@@ -0,0 +1,74 @@
+/**
+ * 心理危机求助热线
+ * 按浏览器语言地区选择展示，号码变更时只需修改此处
+ */
+
+// 单条热线
+export interface CrisisHotline {
+  name: string;
+  number: string;
+  /** 补充说明，如服务时间 */
+  note?: string;
+}
+
+// 某一地区的求助资源
+export interface CrisisRegion {
+  /** 地区名称 */
+  label: string;
+  hotlines: CrisisHotline[];
+}
+
+export type CrisisRegionId = 'zh-CN' | 'zh-TW' | 'zh-HK' | 'en-US' | 'en-GB';
+
+export const CRISIS_REGIONS: Record<CrisisRegionId, CrisisRegion> = {
+  'zh-CN': {
+    label: '中国大陆',
+    hotlines: [
+      { name: '希望24热线', number: '400-161-9995', note: '24小时' },
+      { name: '北京心理危机研究与干预中心', number: '010-82951332', note: '24小时' },
+      { name: '心理援助热线', number: '12356' },
+      { name: '紧急情况请拨打', number: '110 / 120' },
+    ],
+  },
+  'zh-TW': {
+    label: '台湾',
+    hotlines: [
+      { name: '安心专线', number: '1925', note: '24小时' },
+      { name: '生命线', number: '1995', note: '24小时' },
+    ],
+  },
+  'zh-HK': {
+    label: '香港',
+    hotlines: [
+      { name: '撒玛利亚防止自杀会', number: '2389 2222', note: '24小时' },
+      { name: '香港撒玛利亚会', number: '2896 0000', note: '24小时' },
+    ],
+  },
+  'en-US': {
+    label: 'United States',
+    hotlines: [
+      { name: '988 Suicide & Crisis Lifeline', number: '988', note: '24/7' },
+    ],
+  },
+  'en-GB': {
+    label: 'United Kingdom',
+    hotlines: [
+      { name: 'Samaritans', number: '116 123', note: '24/7' },
+    ],
+  },
+};
+
+/**
+ * 根据浏览器语言选择地区，无法判断时使用中国大陆
+ */
+export function resolveCrisisRegion(language: string = navigator.language): CrisisRegionId {
+  const normalized = language.replace('_', '-').toLowerCase();
+  if (normalized.startsWith('zh')) {
+    if (normalized.includes('hk') || normalized.includes('mo')) return 'zh-HK';
+    if (normalized.includes('tw') || normalized === 'zh-hant') return 'zh-TW';
+    return 'zh-CN';
+  }
+  if (normalized === 'en-gb' || normalized === 'en-uk') return 'en-GB';
+  if (normalized.startsWith('en')) return 'en-US';
+  return 'zh-CN';
+}
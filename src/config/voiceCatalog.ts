@@ -0,0 +1,115 @@
+/**
+ * 火山引擎语音合成音色目录
+ * 编辑人设和语音设置中可选的音色及其支持的情感，新增音色时只需修改此处
+ */
+
+// 单个音色
+export interface VoiceOption {
+  /** 音色ID（speaker） */
+  id: string;
+  /** 显示名称 */
+  name: string;
+  gender: 'male' | 'female';
+  /** 语言（BCP 47） */
+  language: string;
+  /** 支持的语音情感，第一个为默认情感 */
+  emotions: string[];
+  /** 试听时朗读的文本 */
+  sampleText: string;
+}
+
+export const VOICE_CATALOG: VoiceOption[] = [
+  {
+    id: 'ICL_zh_female_zhixingwenwan_tob',
+    name: '知性温婉',
+    gender: 'female',
+    language: 'zh-CN',
+    emotions: ['gentle', 'neutral'],
+    sampleText: '没关系，慢慢说，我一直都在这里听你讲。',
+  },
+  {
+    id: 'zh_male_beijingxiaoye_emo_v2_mars_bigtts',
+    name: '北京小爷（多情感）',
+    gender: 'male',
+    language: 'zh-CN',
+    emotions: ['neutral', 'angry', 'surprised', 'fear', 'excited', 'coldness'],
+    sampleText: '嘿，有啥不痛快的尽管冲我来，我接着呢！',
+  },
+  {
+    id: 'zh_male_fanjuanqingnian_mars_bigtts',
+    name: '反卷青年',
+    gender: 'male',
+    language: 'zh-CN',
+    emotions: ['neutral'],
+    sampleText: '你说得对，但我偏不这么觉得。',
+  },
+  {
+    id: 'zh_female_shuangkuaisisi_moon_bigtts',
+    name: '爽快思思',
+    gender: 'female',
+    language: 'zh-CN',
+    emotions: ['happy', 'neutral'],
+    sampleText: '哇，你也太厉害了吧，这都能想到！',
+  },
+  {
+    id: 'zh_female_gaolengyujie_emo_v2_mars_bigtts',
+    name: '高冷御姐（多情感）',
+    gender: 'female',
+    language: 'zh-CN',
+    emotions: ['neutral', 'happy', 'sad', 'angry', 'surprised', 'fear', 'hate', 'excited', 'coldness'],
+    sampleText: '说吧，我倒要听听是什么事让你这么烦。',
+  },
+  {
+    id: 'zh_female_roumeinvyou_emo_v2_mars_bigtts',
+    name: '柔美女友（多情感）',
+    gender: 'female',
+    language: 'zh-CN',
+    emotions: ['neutral', 'happy', 'sad', 'angry', 'surprised', 'fear', 'hate', 'excited', 'coldness'],
+    sampleText: '辛苦啦，今天也要好好照顾自己哦。',
+  },
+  {
+    id: 'zh_male_yangguangqingnian_moon_bigtts',
+    name: '阳光青年',
+    gender: 'male',
+    language: 'zh-CN',
+    emotions: ['neutral'],
+    sampleText: '别灰心，明天又是新的一天！',
+  },
+  {
+    id: 'zh_female_tianmeixiaoyuan_moon_bigtts',
+    name: '甜美小源',
+    gender: 'female',
+    language: 'zh-CN',
+    emotions: ['neutral'],
+    sampleText: '你好呀，很高兴认识你。',
+  },
+  {
+    id: 'en_female_anna_mars_bigtts',
+    name: 'Anna（英语）',
+    gender: 'female',
+    language: 'en-US',
+    emotions: ['neutral'],
+    sampleText: "It's okay. Take your time, I'm listening.",
+  },
+];
+
+/** 语音情感的中文名称 */
+export const EMOTION_LABELS: Record<string, string> = {
+  neutral: '中性',
+  gentle: '温柔',
+  happy: '开心',
+  sad: '悲伤',
+  angry: '生气',
+  surprised: '惊讶',
+  fear: '恐惧',
+  hate: '厌恶',
+  excited: '激动',
+  coldness: '冷漠',
+};
+
+/**
+ * 按ID查找音色，不在目录中时返回undefined
+ */
+export function findVoice(id: string): VoiceOption | undefined {
+  return VOICE_CATALOG.find(voice => voice.id === id);
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { audioQueueManager, PlaybackState } from '../services/audioQueueManager';
+
+const subscribe = (listener: () => void) => audioQueueManager.subscribe(listener);
+const getSnapshot = () => audioQueueManager.getState();
+
+/**
+ * 播放队列Hook
+ * 返回全局播放引擎的当前状态：正在播放的项、进度、等待播放的项和音量
+ */
+export function useAudioQueue(): PlaybackState {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
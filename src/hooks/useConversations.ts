@@ -0,0 +1,223 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { EmotionMode } from '../services/doubaoApi';
+import {
+  conversationStore,
+  ConversationSession,
+  ConversationSummary,
+  DisplayMessage,
+  deriveSessionTitle,
+} from '../services/conversationStore';
+
+// 当前会话的元信息
+interface ActiveSession {
+  id: string;
+  mode: EmotionMode;
+  title: string;
+  createdAt: number;
+}
+
+/** 消息变化后延迟保存的时间（毫秒），避免流式输出时频繁写库 */
+const SAVE_DELAY = 500;
+
+/**
+ * 会话管理Hook
+ * 负责当前模式下会话的加载、自动保存、切换、导入、重命名和删除
+ */
+export function useConversations(mode: EmotionMode) {
+  const [sessions, setSessions] = useState<ConversationSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null);
+  const [messages, setMessages] = useState<DisplayMessage[]>([]);
+  const [isRestoring, setIsRestoring] = useState(true);
+  // 空白对话预先分配的会话ID，首条消息保存时沿用，使会话创建前后的上下文摘要缓存一致
+  const [pendingSessionId, setPendingSessionId] = useState(() => conversationStore.generateId());
+  const saveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // 刚从数据库载入的消息，未修改时无需回写
+  const loadedMessagesRef = useRef<DisplayMessage[] | null>(null);
+
+  /**
+   * 刷新会话列表
+   */
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await conversationStore.listSessions(mode));
+    } catch (error) {
+      console.error('读取会话列表失败:', error);
+    }
+  }, [mode]);
+
+  /**
+   * 载入指定会话，id为null时开始一个空白会话
+   * isCancelled在读取完成后检查，返回true时丢弃结果（如读取期间已切换模式）
+   */
+  const loadSession = useCallback(async (id: string | null, isCancelled: () => boolean = () => false) => {
+    const session = id ? await conversationStore.getSession(id) : null;
+    if (isCancelled()) return;
+    if (session) {
+      setActiveSession({
+        id: session.id,
+        mode: session.mode,
+        title: session.title,
+        createdAt: session.createdAt,
+      });
+      loadedMessagesRef.current = session.messages;
+      setMessages(session.messages);
+    } else {
+      setActiveSession(null);
+      setMessages([]);
+    }
+    conversationStore.setLastSessionId(mode, session?.id ?? null);
+  }, [mode]);
+
+  // 切换模式（包括首次加载）时恢复该模式最近打开的会话
+  useEffect(() => {
+    let cancelled = false;
+    setIsRestoring(true);
+    conversationStore.setLastMode(mode);
+
+    const restore = async () => {
+      try {
+        const list = await conversationStore.listSessions(mode);
+        if (cancelled) return;
+        setSessions(list);
+
+        const lastId = conversationStore.getLastSessionId(mode);
+        const target = list.find(session => session.id === lastId) ?? list[0];
+        await loadSession(target?.id ?? null, () => cancelled);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('恢复会话失败:', error);
+        setActiveSession(null);
+        setMessages([]);
+      } finally {
+        if (!cancelled) setIsRestoring(false);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, loadSession]);
+
+  // 消息变化时自动保存当前会话
+  useEffect(() => {
+    if (isRestoring || messages === loadedMessagesRef.current) return;
+
+    // 首条消息发出时才真正创建会话
+    if (!activeSession) {
+      if (messages.length === 0) return;
+      const session: ActiveSession = {
+        id: pendingSessionId,
+        mode,
+        title: '',
+        createdAt: Date.now(),
+      };
+      setActiveSession(session);
+      setPendingSessionId(conversationStore.generateId());
+      conversationStore.setLastSessionId(mode, session.id);
+      return;
+    }
+
+    // 按会话分别计时：切换会话时不取消上一个会话尚未写入的保存
+    const timers = saveTimersRef.current;
+    const existingTimer = timers.get(activeSession.id);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const sessionToSave = activeSession;
+    const messagesToSave = messages;
+    timers.set(sessionToSave.id, setTimeout(async () => {
+      timers.delete(sessionToSave.id);
+      try {
+        await conversationStore.saveSession({
+          ...sessionToSave,
+          title: sessionToSave.title || deriveSessionTitle(messagesToSave),
+          updatedAt: Date.now(),
+          messageCount: messagesToSave.length,
+          messages: messagesToSave,
+        });
+        await refreshSessions();
+      } catch (error) {
+        console.error('保存会话失败:', error);
+      }
+    }, SAVE_DELAY));
+  }, [messages, activeSession, isRestoring, mode, pendingSessionId, refreshSessions]);
+
+  /**
+   * 开始新会话
+   */
+  const startNewSession = useCallback(() => {
+    setActiveSession(null);
+    setMessages([]);
+    conversationStore.setLastSessionId(mode, null);
+  }, [mode]);
+
+  /**
+   * 切换到已保存的会话
+   */
+  const selectSession = useCallback(async (id: string) => {
+    try {
+      await loadSession(id);
+    } catch (error) {
+      console.error('载入会话失败:', error);
+    }
+  }, [loadSession]);
+
+  /**
+   * 保存导入的会话，属于当前模式时直接打开；
+   * 属于其他模式时记为该模式最近打开的会话，切换到该模式后自动恢复
+   */
+  const importSession = useCallback(async (session: ConversationSession) => {
+    await conversationStore.saveSession(session);
+    conversationStore.setLastSessionId(session.mode, session.id);
+    if (session.mode === mode) {
+      await loadSession(session.id);
+      await refreshSessions();
+    }
+  }, [mode, loadSession, refreshSessions]);
+
+  /**
+   * 重命名会话
+   */
+  const renameSession = useCallback(async (id: string, title: string) => {
+    await conversationStore.renameSession(id, title);
+    if (activeSession?.id === id) {
+      setActiveSession({ ...activeSession, title: title.trim() });
+    }
+    await refreshSessions();
+  }, [activeSession, refreshSessions]);
+
+  /**
+   * 删除会话，删除的是当前会话时切换到空白会话
+   */
+  const deleteSession = useCallback(async (id: string) => {
+    // 丢弃尚未写入的保存，避免已删除的会话被重新写回
+    const pendingTimer = saveTimersRef.current.get(id);
+    if (pendingTimer) {
+      clearTimeout(pendingTimer);
+      saveTimersRef.current.delete(id);
+    }
+    await conversationStore.deleteSession(id);
+    if (activeSession?.id === id) {
+      setActiveSession(null);
+      setMessages([]);
+    }
+    await refreshSessions();
+  }, [activeSession, refreshSessions]);
+
+  return {
+    sessions,
+    currentSessionId: activeSession?.id ?? null,
+    /** 当前对话的ID，尚未保存的空白对话为预先分配的ID */
+    conversationId: activeSession?.id ?? pendingSessionId,
+    messages,
+    setMessages,
+    isRestoring,
+    startNewSession,
+    selectSession,
+    importSession,
+    renameSession,
+    deleteSession,
+  };
+}
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from 'react';
+import { modeRegistry, ModeDefinition } from '../services/modeRegistry';
+
+const subscribe = (listener: () => void) => modeRegistry.subscribe(listener);
+const getSnapshot = () => modeRegistry.list();
+
+/**
+ * 情绪模式Hook
+ * 返回prompts.md中定义的全部模式，后端提示词加载完成或热更新后自动刷新
+ */
+export function useModes(): ModeDefinition[] {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
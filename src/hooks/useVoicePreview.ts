@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import { ttsService, AudioFormat, VoiceModeConfig } from '../services/ttsService';
+
+// 试听得到的音频
+export interface PreviewAudio {
+  data: string;
+  format: AudioFormat;
+}
+
+/**
+ * 音色试听Hook
+ * 用指定的语音配置合成一段文本；浏览器朗读等不产出音频的提供方直接朗读，不返回音频
+ */
+export function useVoicePreview() {
+  const [audio, setAudio] = useState<PreviewAudio | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useCallback(async (text: string, voice: VoiceModeConfig) => {
+    if (!ttsService.isConfigured()) {
+      setError('TTS服务未配置，无法试听');
+      return;
+    }
+
+    setIsLoading(true);
+    setAudio(null);
+    setError(null);
+    try {
+      const request = ttsService.buildRequestWithVoice(text, voice);
+      if (!ttsService.producesAudio()) {
+        await ttsService.speak(request);
+        return;
+      }
+
+      const response = await ttsService.synthesize(request);
+      if (!response.success || !response.data?.audio) {
+        throw new Error(response.error || '语音合成失败');
+      }
+      setAudio({ data: response.data.audio, format: response.data.format ?? 'mp3' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '试听失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    setAudio(null);
+    setError(null);
+  }, []);
+
+  return { audio, isLoading, error, preview, clear };
+}
@@ -0,0 +1,90 @@
+/**
+ * 后端代理接口地址与服务状态
+ * 密钥只保存在后端代理中，前端所有对话和语音请求都经由代理转发
+ */
+
+// 后端已配置的能力
+export interface ServerCapabilities {
+  /** 至少有一个对话模型可用 */
+  chat: boolean;
+  tts: boolean;
+  asr: boolean;
+  /** 各对话模型提供方是否已配置 */
+  llm?: Record<string, boolean>;
+}
+
+/** 后端代理地址；为空时使用同源的/api（开发环境由Vite代理转发） */
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/+$/, '');
+
+/**
+ * 拼接后端接口地址
+ */
+export function apiUrl(path: string): string {
+  return `${API_BASE_URL}${path}`;
+}
+
+/**
+ * 从错误响应中读取后端返回的错误信息
+ */
+export async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return typeof data?.error === 'string' ? data.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+class ServerStatus {
+  private capabilities: ServerCapabilities | null = null;
+  private loading: Promise<ServerCapabilities | null> | null = null;
+
+  /**
+   * 查询后端已配置的能力（只请求一次）
+   */
+  load(): Promise<ServerCapabilities | null> {
+    if (!this.loading) {
+      this.loading = fetch(apiUrl('/api/health'))
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const data = await response.json();
+          this.capabilities = data.capabilities;
+          console.log('🔌 后端代理能力:', this.capabilities);
+          return this.capabilities;
+        })
+        .catch(error => {
+          console.warn('⚠️ 无法连接后端代理:', error);
+          this.capabilities = { chat: false, tts: false, asr: false, llm: {} };
+          return this.capabilities;
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * 指定能力是否可用；状态尚未加载时乐观地视为可用，由实际请求报告错误
+   */
+  isAvailable(capability: 'chat' | 'tts' | 'asr'): boolean {
+    return this.capabilities?.[capability] ?? true;
+  }
+
+  /**
+   * 指定的对话模型提供方是否已在后端配置；状态尚未加载时同样视为可用
+   */
+  isProviderAvailable(providerId: string): boolean {
+    if (!this.capabilities) return true;
+    return this.capabilities.llm?.[providerId] ?? false;
+  }
+
+  /**
+   * 状态是否已加载
+   */
+  isLoaded(): boolean {
+    return this.capabilities !== null;
+  }
+}
+
+// 导出单例实例
+export const serverStatus = new ServerStatus();
@@ -0,0 +1,187 @@
+/**
+ * 语音识别（ASR）服务
+ * 通过可插拔的识别提供方把录音转为文字，首个实现为火山引擎大模型录音文件极速识别
+ */
+import { bytesToBase64, convertToWav } from './audioCodec';
+import { apiUrl, readErrorMessage, serverStatus } from './apiClient';
+
+// 识别结果
+export interface ASRResult {
+  success: boolean;
+  text?: string;
+  error?: string;
+}
+
+// 识别提供方接口
+export interface ASRProvider {
+  /** 提供方标识 */
+  readonly id: string;
+  /** 显示名称 */
+  readonly name: string;
+  /** 是否已配置可用 */
+  isConfigured(): boolean;
+  /** 识别一段完整录音 */
+  recognize(audio: Blob, signal?: AbortSignal): Promise<ASRResult>;
+}
+
+// 火山引擎ASR配置（应用凭证和资源ID由后端代理持有）
+export interface VolcengineASRConfig {
+  apiUrl: string;
+}
+
+/**
+ * 火山引擎大模型录音文件极速识别
+ * 一次请求上传完整录音并同步返回结果，适合按住说话这类短语音场景
+ */
+export class VolcengineASRProvider implements ASRProvider {
+  readonly id = 'volcengine';
+  readonly name = '火山引擎语音识别';
+  private config: VolcengineASRConfig;
+
+  constructor(config?: Partial<VolcengineASRConfig>) {
+    this.config = {
+      apiUrl: apiUrl('/api/asr'),
+      ...config,
+    };
+  }
+
+  isConfigured(): boolean {
+    return serverStatus.isAvailable('asr');
+  }
+
+  async recognize(audio: Blob, signal?: AbortSignal): Promise<ASRResult> {
+    if (!this.isConfigured()) {
+      return { success: false, error: '语音识别未配置，请检查后端代理的ASR_APP_ID和ASR_ACCESS_KEY' };
+    }
+
+    try {
+      // 服务端只接受WAV/MP3/OGG等格式，统一转为16k单声道WAV
+      const wavData = await convertToWav(audio);
+
+      const response = await fetch(this.config.apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Api-Request-Id': `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+        },
+        body: JSON.stringify({
+          user: { uid: 'default_user' },
+          audio: { data: bytesToBase64(wavData), format: 'wav' },
+          request: { model_name: 'bigmodel', enable_itn: true, enable_punc: true },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, `HTTP ${response.status}: ${response.statusText}`));
+      }
+
+      // 业务状态码在响应头中返回
+      const statusCode = response.headers.get('X-Api-Status-Code');
+      if (statusCode && statusCode !== '20000000') {
+        // 20000003表示静音，没有识别到语音
+        if (statusCode === '20000003') {
+          return { success: false, error: '没有听到说话声，请再试一次' };
+        }
+        throw new Error(`识别失败 (状态码: ${statusCode}) ${response.headers.get('X-Api-Message') || ''}`);
+      }
+
+      const data = await response.json();
+      const text: string = data?.result?.text?.trim() || '';
+      console.log('🎙️ 语音识别结果:', text);
+
+      if (!text) {
+        return { success: false, error: '没有识别到文字，请再试一次' };
+      }
+      return { success: true, text };
+    } catch (error) {
+      console.error('语音识别失败:', error);
+      if (error instanceof Error && error.name === 'AbortError') {
+        return { success: false, error: '识别已取消' };
+      }
+      if (error instanceof Error && error.name === 'EncodingError') {
+        return { success: false, error: '录音数据无法解码' };
+      }
+      return { success: false, error: error instanceof Error ? error.message : '语音识别服务暂时不可用' };
+    }
+  }
+}
+
+/**
+ * 本地模拟识别
+ * 不发起网络请求，按顺序返回预设文本，用于离线调试和测试
+ */
+export class MockASRProvider implements ASRProvider {
+  readonly id = 'mock';
+  readonly name = '本地模拟识别';
+  private transcripts: string[];
+  private index = 0;
+  private latency: number;
+
+  constructor(transcripts: string[] = ['今天真是气死我了', '你说我该怎么办'], latency: number = 300) {
+    this.transcripts = transcripts;
+    this.latency = latency;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async recognize(audio: Blob, signal?: AbortSignal): Promise<ASRResult> {
+    await new Promise(resolve => setTimeout(resolve, this.latency));
+    if (signal?.aborted) {
+      return { success: false, error: '识别已取消' };
+    }
+    if (audio.size === 0) {
+      return { success: false, error: '没有听到说话声，请再试一次' };
+    }
+
+    const text = this.transcripts[this.index % this.transcripts.length];
+    this.index++;
+    return { success: true, text };
+  }
+}
+
+/**
+ * 语音识别服务
+ * 根据环境变量VITE_ASR_PROVIDER选择提供方，也可在运行时替换
+ */
+class ASRService {
+  private provider: ASRProvider;
+
+  constructor() {
+    this.provider = import.meta.env.VITE_ASR_PROVIDER === 'mock'
+      ? new MockASRProvider()
+      : new VolcengineASRProvider();
+  }
+
+  /**
+   * 替换识别提供方
+   */
+  setProvider(provider: ASRProvider): void {
+    console.log(`切换语音识别提供方: ${provider.name}`);
+    this.provider = provider;
+  }
+
+  getProvider(): ASRProvider {
+    return this.provider;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * 识别录音
+   */
+  async recognize(audio: Blob, signal?: AbortSignal): Promise<ASRResult> {
+    if (audio.size === 0) {
+      return { success: false, error: '录音为空，请再试一次' };
+    }
+    return this.provider.recognize(audio, signal);
+  }
+}
+
+// 导出单例实例
+export const asrService = new ASRService();
+export default asrService;
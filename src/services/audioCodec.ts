@@ -0,0 +1,190 @@
+/**
+ * 音频数据编解码工具
+ * 处理TTS返回的base64音频数据与二进制数据之间的转换
+ */
+
+/**
+ * 将base64字符串解码为二进制数据
+ * 自动移除可能存在的data URL前缀
+ */
+export function base64ToBytes(base64Data: string): Uint8Array {
+  const cleanBase64 = base64Data.replace(/^data:audio\/[^;]+;base64,/, '');
+  const binaryString = atob(cleanBase64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 将二进制数据编码为base64字符串
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  // 分块拼接，避免超长参数导致调用栈溢出
+  const chunkSize = 0x8000;
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binaryString);
+}
+
+/**
+ * 拼接多段二进制数据
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * 合并多段独立编码的base64音频数据
+ * 每段都可能带有填充符，不能直接拼接字符串
+ */
+export function concatBase64Chunks(chunks: string[]): string {
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+  return bytesToBase64(concatBytes(chunks.map(base64ToBytes)));
+}
+
+/** 本工具生成的WAV文件头长度（只含fmt与data两个子块） */
+const WAV_HEADER_LENGTH = 44;
+
+/**
+ * 合并多段WAV音频
+ * 各段须为相同参数的标准44字节文件头WAV，保留第一段文件头并修正长度字段
+ */
+export function concatWavChunks(chunks: string[]): string {
+  if (chunks.length === 1) {
+    return chunks[0];
+  }
+  const parts = chunks.map(base64ToBytes);
+  const pcmParts = parts.map(part => part.subarray(WAV_HEADER_LENGTH));
+  const result = concatBytes([parts[0].subarray(0, WAV_HEADER_LENGTH), ...pcmParts]);
+  const dataLength = result.length - WAV_HEADER_LENGTH;
+  const view = new DataView(result.buffer);
+  view.setUint32(4, 36 + dataLength, true);
+  view.setUint32(40, dataLength, true);
+  return bytesToBase64(result);
+}
+
+/**
+ * 按格式合并多段音频：WAV需要重写文件头，其余格式的帧可直接拼接
+ */
+export function concatAudioChunks(chunks: string[], format: string = 'mp3'): string {
+  return format === 'wav' ? concatWavChunks(chunks) : concatBase64Chunks(chunks);
+}
+
+/**
+ * 获取音频格式对应的MIME类型
+ */
+export function audioMimeType(format: string = 'mp3'): string {
+  switch (format) {
+    case 'wav':
+      return 'audio/wav';
+    case 'ogg_opus':
+      return 'audio/ogg';
+    case 'pcm':
+      return 'audio/pcm';
+    default:
+      return 'audio/mpeg';
+  }
+}
+
+/** 火山引擎返回的PCM音频的默认采样率（合成请求中的sampleRate） */
+export const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+/**
+ * 生成16位单声道WAV文件头
+ * @param dataLength PCM数据的字节数
+ * @param sampleRate 采样率
+ */
+function createWavHeader(dataLength: number, sampleRate: number): Uint8Array {
+  const bytesPerSample = 2;
+  const header = new Uint8Array(WAV_HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  // RIFF头
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  // fmt子块
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // 单声道
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  // data子块
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return header;
+}
+
+/**
+ * 将PCM采样编码为16位单声道WAV文件
+ * @param samples 取值范围[-1, 1]的浮点采样
+ * @param sampleRate 采样率
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const data = new Uint8Array(samples.length * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return concatBytes([createWavHeader(data.length, sampleRate), data]);
+}
+
+/**
+ * 为16位单声道的原始PCM数据加上WAV文件头，浏览器无法直接播放裸PCM
+ */
+export function pcmToWav(pcm: Uint8Array, sampleRate: number = DEFAULT_PCM_SAMPLE_RATE): Uint8Array {
+  return concatBytes([createWavHeader(pcm.length, sampleRate), pcm]);
+}
+
+/**
+ * 解码音频并重采样为指定采样率的单声道浮点采样
+ */
+export async function decodeToSamples(audio: Blob, targetSampleRate: number): Promise<Float32Array> {
+  const arrayBuffer = await audio.arrayBuffer();
+  const decodeContext = new AudioContext();
+  try {
+    const decoded = await decodeContext.decodeAudioData(arrayBuffer);
+    const frameCount = Math.max(1, Math.ceil(decoded.duration * targetSampleRate));
+    const offlineContext = new OfflineAudioContext(1, frameCount, targetSampleRate);
+    const source = offlineContext.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offlineContext.destination);
+    source.start();
+    const rendered = await offlineContext.startRendering();
+    return rendered.getChannelData(0);
+  } finally {
+    decodeContext.close();
+  }
+}
+
+/**
+ * 将浏览器录制的音频（webm/ogg等）转码为指定采样率的单声道WAV
+ * 语音识别服务通常只接受WAV/MP3等固定格式
+ */
+export async function convertToWav(audio: Blob, targetSampleRate: number = 16000): Promise<Uint8Array> {
+  return encodeWav(await decodeToSamples(audio, targetSampleRate), targetSampleRate);
+}
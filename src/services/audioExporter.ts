@@ -0,0 +1,204 @@
+/**
+ * 语音导出
+ * 把回复的语音保存为mp3或wav文件，或把整段对话的语音按顺序拼接为一个文件（可用另一种音色朗读用户的话）。
+ * mp3直接拼接音频帧；wav先统一解码重采样，再在每句之间插入短暂停顿后编码
+ */
+import { ttsService, AudioFormat, TTSRequest } from './ttsService';
+import { toSpeakableText } from './replyFormatter';
+import { SpeechPipeline } from './speechPipeline';
+import {
+  base64ToBytes,
+  pcmToWav,
+  audioMimeType,
+  concatBase64Chunks,
+  decodeToSamples,
+  encodeWav,
+  DEFAULT_PCM_SAMPLE_RATE,
+} from './audioCodec';
+import { toFilenamePart, formatFileTimestamp } from './fileDownload';
+import type { DisplayMessage } from './conversationStore';
+import type { EmotionMode } from './doubaoApi';
+
+// 可导出的文件格式
+export type ExportAudioFormat = 'mp3' | 'wav';
+
+// 整段对话导出选项
+export interface ConversationAudioOptions {
+  /** 文件格式 */
+  format: ExportAudioFormat;
+  /** 回复所属的模式，没有语音的回复按该模式补合成 */
+  mode: EmotionMode;
+  /** 是否朗读用户的话 */
+  includeUser: boolean;
+  /** 朗读用户的话使用的音色 */
+  userSpeaker: string;
+  /** 进度回调 */
+  onProgress?: (done: number, total: number) => void;
+}
+
+// 待拼接的一句语音
+interface AudioClip {
+  audio: string;
+  format: AudioFormat;
+}
+
+/** 导出文件名的前缀 */
+const FILENAME_PREFIX = '情绪排解';
+/** 导出wav时的采样率 */
+const EXPORT_SAMPLE_RATE = DEFAULT_PCM_SAMPLE_RATE;
+/** 导出wav时每句之间的停顿（秒） */
+const LINE_GAP_SECONDS = 0.6;
+
+/**
+ * 转换为浏览器可以解码的音频数据，裸PCM加上WAV文件头
+ */
+const toDecodableBlob = ({ audio, format }: AudioClip): Blob =>
+  format === 'pcm'
+    ? new Blob([pcmToWav(base64ToBytes(audio))], { type: audioMimeType('wav') })
+    : new Blob([base64ToBytes(audio)], { type: audioMimeType(format) });
+
+class AudioExporter {
+  /**
+   * 导出单条回复的语音
+   * 原始格式与目标格式一致时直接保存；转为wav时解码后重新编码；
+   * 浏览器无法编码mp3，其他格式转mp3时按相同参数重新合成
+   */
+  async exportMessage(message: DisplayMessage, format: ExportAudioFormat, mode: EmotionMode): Promise<Blob> {
+    if (!message.audioData) {
+      throw new Error('这条回复没有语音');
+    }
+
+    const clip: AudioClip = { audio: message.audioData, format: message.audioFormat ?? 'mp3' };
+    if (clip.format === format) {
+      return new Blob([base64ToBytes(clip.audio)], { type: audioMimeType(format) });
+    }
+
+    if (format === 'wav') {
+      return this.encodeWavFile([clip]);
+    }
+
+    const resynthesized = await this.synthesizeReply(message.content, mode);
+    if (resynthesized?.format !== 'mp3') {
+      throw new Error('当前语音服务无法生成mp3，请导出为wav');
+    }
+    return new Blob([base64ToBytes(resynthesized.audio)], { type: audioMimeType('mp3') });
+  }
+
+  /**
+   * 导出整段对话的语音
+   * 没有语音的回复（以及选择朗读时用户的话）先合成，合成失败的句子跳过
+   */
+  async exportConversation(messages: DisplayMessage[], options: ConversationAudioOptions): Promise<Blob> {
+    const lines = messages.filter(msg =>
+      (msg.role === 'assistant' || (options.includeUser && msg.role === 'user')) && toSpeakableText(msg.content)
+    );
+    if (lines.length === 0) {
+      throw new Error('对话中没有可以导出的语音');
+    }
+
+    const clips: AudioClip[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      options.onProgress?.(i, lines.length);
+      const clip = await this.getClip(lines[i], options);
+      if (clip) {
+        clips.push(clip);
+      } else {
+        console.warn(`第${i + 1}句语音合成失败，导出时跳过`);
+      }
+    }
+    options.onProgress?.(lines.length, lines.length);
+
+    if (clips.length === 0) {
+      throw new Error('语音合成失败，无法导出');
+    }
+
+    if (options.format === 'wav') {
+      return this.encodeWavFile(clips);
+    }
+    if (clips.some(clip => clip.format !== 'mp3')) {
+      throw new Error('部分语音不是mp3格式，请导出为wav');
+    }
+    return new Blob([base64ToBytes(concatBase64Chunks(clips.map(clip => clip.audio)))], { type: audioMimeType('mp3') });
+  }
+
+  /**
+   * 单条回复的文件名，如「情绪排解-抬杠-20241218-2130-你说得对但是.mp3」
+   */
+  getMessageFilename(message: DisplayMessage, modeLabel: string, format: ExportAudioFormat): string {
+    const excerpt = toFilenamePart(toSpeakableText(message.content));
+    return [FILENAME_PREFIX, toFilenamePart(modeLabel), formatFileTimestamp(message.timestamp), excerpt]
+      .filter(Boolean)
+      .join('-') + `.${format}`;
+  }
+
+  /**
+   * 整段对话的文件名，如「情绪排解-抬杠-和老板吵架-20241218-2130.wav」
+   */
+  getConversationFilename(title: string, modeLabel: string, format: ExportAudioFormat, date: Date = new Date()): string {
+    return [FILENAME_PREFIX, toFilenamePart(modeLabel), toFilenamePart(title), formatFileTimestamp(date)]
+      .filter(Boolean)
+      .join('-') + `.${format}`;
+  }
+
+  /**
+   * 获取一句话的语音：回复优先使用已有的语音，用户的话用指定音色合成
+   */
+  private async getClip(message: DisplayMessage, options: ConversationAudioOptions): Promise<AudioClip | null> {
+    if (message.role === 'assistant') {
+      if (message.audioData) {
+        return { audio: message.audioData, format: message.audioFormat ?? 'mp3' };
+      }
+      return this.synthesizeReply(message.content, options.mode);
+    }
+
+    return this.synthesize(ttsService.buildRequestWithVoice(toSpeakableText(message.content), { speaker: options.userSpeaker }));
+  }
+
+  /**
+   * 按模式合成一条回复：与播放时一样分句（情感跟随时按语气）合成后拼接，有句子失败时返回null
+   */
+  private async synthesizeReply(content: string, mode: EmotionMode): Promise<AudioClip | null> {
+    if (!ttsService.producesAudio()) return null;
+
+    const pipeline = new SpeechPipeline({ mode, messageId: `export-${Date.now()}`, autoPlay: false });
+    const result = await pipeline.synthesizeAll(content);
+    if (!result.audio || result.failedCount > 0) return null;
+    return { audio: result.audio, format: result.format };
+  }
+
+  /**
+   * 合成语音，失败或当前提供方不产出音频时返回null
+   */
+  private async synthesize(request: TTSRequest): Promise<AudioClip | null> {
+    if (!ttsService.producesAudio()) return null;
+
+    const result = await ttsService.synthesize(request);
+    if (!result.success || !result.data?.audio) return null;
+    return { audio: result.data.audio, format: result.data.format ?? 'mp3' };
+  }
+
+  /**
+   * 解码全部语音并重采样到同一采样率，句间插入停顿后编码为wav
+   */
+  private async encodeWavFile(clips: AudioClip[]): Promise<Blob> {
+    const gap = new Float32Array(Math.round(LINE_GAP_SECONDS * EXPORT_SAMPLE_RATE));
+    const parts: Float32Array[] = [];
+    for (const clip of clips) {
+      if (parts.length > 0) {
+        parts.push(gap);
+      }
+      parts.push(await decodeToSamples(toDecodableBlob(clip), EXPORT_SAMPLE_RATE));
+    }
+
+    const samples = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part, offset);
+      offset += part.length;
+    }
+    return new Blob([encodeWav(samples, EXPORT_SAMPLE_RATE)], { type: audioMimeType('wav') });
+  }
+}
+
+// 导出单例实例
+export const audioExporter = new AudioExporter();
@@ -0,0 +1,165 @@
+/**
+ * Web Audio播放链路
+ * 语音片段先用共享的AudioContext解码一次，得到波形、响度和浏览器可播放的数据；
+ * 播放队列的音频元素接入同一个AudioContext，经增益节点做响度归一化和淡入淡出后输出。
+ * 变速由音频元素完成（保持音调），裸PCM加上WAV文件头，浏览器不支持的Ogg Opus转码为WAV
+ */
+import { base64ToBytes, audioMimeType, pcmToWav, encodeWav } from './audioCodec';
+import type { AudioFormat } from './ttsService';
+
+// 解码后的语音片段
+export interface DecodedClip {
+  /** 时长（秒），解码失败时为0 */
+  duration: number;
+  /** 波形峰值，每个取值在0到1之间，解码失败时为空 */
+  peaks: number[];
+  /** 响度归一化增益 */
+  gain: number;
+  /** 浏览器可直接播放的音频数据 */
+  blob: Blob;
+}
+
+/** 波形的柱数 */
+const PEAK_COUNT = 48;
+/** 响度归一化的目标均方根（约-20dBFS） */
+const TARGET_RMS = 0.1;
+/** 低于该幅度的采样视为静音，不参与响度计算 */
+const SILENCE_THRESHOLD = 0.01;
+const MIN_GAIN = 0.5;
+const MAX_GAIN = 3;
+/** 缓存的解码结果数 */
+const CLIP_CACHE_SIZE = 20;
+
+/**
+ * 计算波形峰值
+ */
+function computePeaks(samples: Float32Array, count: number): number[] {
+  const blockSize = Math.max(1, Math.floor(samples.length / count));
+  const peaks: number[] = [];
+  for (let i = 0; i < count; i++) {
+    let max = 0;
+    const end = Math.min(samples.length, (i + 1) * blockSize);
+    for (let j = i * blockSize; j < end; j++) {
+      max = Math.max(max, Math.abs(samples[j]));
+    }
+    peaks.push(max);
+  }
+  const highest = Math.max(...peaks, 0.0001);
+  return peaks.map(peak => peak / highest);
+}
+
+/**
+ * 按非静音部分的均方根计算把片段拉到目标响度所需的增益
+ */
+function computeGain(samples: Float32Array): number {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.abs(samples[i]);
+    if (sample > SILENCE_THRESHOLD) {
+      sum += sample * sample;
+      count++;
+    }
+  }
+  if (count === 0) return 1;
+  const rms = Math.sqrt(sum / count);
+  return Math.min(MAX_GAIN, Math.max(MIN_GAIN, TARGET_RMS / rms));
+}
+
+class AudioGraph {
+  private context: AudioContext | null = null;
+  private clips = new Map<string, Promise<DecodedClip>>();
+
+  /**
+   * 当前浏览器是否支持Web Audio
+   */
+  isSupported(): boolean {
+    return typeof AudioContext !== 'undefined';
+  }
+
+  /**
+   * 获取共享的AudioContext（懒加载）
+   */
+  private getContext(): AudioContext | null {
+    if (!this.context && this.isSupported()) {
+      this.context = new AudioContext();
+    }
+    return this.context;
+  }
+
+  /**
+   * 恢复被浏览器自动播放策略挂起的AudioContext，需在用户操作后调用
+   */
+  async resume(): Promise<void> {
+    const context = this.getContext();
+    if (context?.state === 'suspended') {
+      await context.resume();
+    }
+  }
+
+  /**
+   * 把音频元素接入播放链路
+   * @returns 该元素的增益节点；不支持Web Audio时返回null，元素直接输出
+   */
+  connect(audio: HTMLAudioElement): GainNode | null {
+    const context = this.getContext();
+    if (!context) return null;
+
+    const gain = context.createGain();
+    context.createMediaElementSource(audio).connect(gain);
+    gain.connect(context.destination);
+    return gain;
+  }
+
+  /**
+   * 解码语音片段，相同数据只解码一次
+   */
+  decode(audio: string, format: AudioFormat = 'mp3'): Promise<DecodedClip> {
+    const key = `${format}:${audio}`;
+    let clip = this.clips.get(key);
+    if (!clip) {
+      clip = this.decodeClip(audio, format);
+      this.clips.set(key, clip);
+      // 只保留最近的解码结果
+      if (this.clips.size > CLIP_CACHE_SIZE) {
+        this.clips.delete(this.clips.keys().next().value!);
+      }
+    }
+    return clip;
+  }
+
+  private async decodeClip(audio: string, format: AudioFormat): Promise<DecodedClip> {
+    const bytes = format === 'pcm' ? pcmToWav(base64ToBytes(audio)) : base64ToBytes(audio);
+    const mimeType = format === 'pcm' ? audioMimeType('wav') : audioMimeType(format);
+    let blob = new Blob([bytes], { type: mimeType });
+
+    const context = this.getContext();
+    if (!context) {
+      return { duration: 0, peaks: [], gain: 1, blob };
+    }
+
+    try {
+      // decodeAudioData会转移传入的ArrayBuffer，传副本
+      const buffer = await context.decodeAudioData(bytes.slice().buffer);
+      const samples = buffer.getChannelData(0);
+
+      // 浏览器的音频元素不支持Ogg Opus（如旧版Safari）时，用解码结果转成WAV播放
+      if (format === 'ogg_opus' && !new Audio().canPlayType('audio/ogg; codecs=opus')) {
+        blob = new Blob([encodeWav(samples, buffer.sampleRate)], { type: audioMimeType('wav') });
+      }
+
+      return {
+        duration: buffer.duration,
+        peaks: computePeaks(samples, PEAK_COUNT),
+        gain: computeGain(samples),
+        blob,
+      };
+    } catch (error) {
+      console.warn('音频解码失败，按原始数据播放:', error);
+      return { duration: 0, peaks: [], gain: 1, blob };
+    }
+  }
+}
+
+// 导出单例实例
+export const audioGraph = new AudioGraph();
@@ -1,137 +1,683 @@
 /**
- * 音频播放队列管理器
- * 确保同时只有一个音频在播放，其他音频需要等待当前播放完成
+ * 音频播放队列
+ * 全局唯一的播放引擎，确保同时只有一个音频在播放。队列中的每一项是一条回复的语音，
+ * 可由多个片段组成（分句合成时边合成边追加）。支持从指定消息开始连续播放、上一条/下一条、
+ * 整体暂停继续和0.5到2倍变速，切换播放项时淡出淡入。播放状态通过subscribe订阅，界面据此显示正在播放栏
  */
-class AudioQueueManager {
-  private currentPlayingId: string | null = null;
-  private playQueue: Array<{ id: string; playFn: () => Promise<void> }> = [];
-  private isProcessing = false;
-
-  /**
-   * 注册音频播放请求
-   * @param id 音频唯一标识
-   * @param playFn 播放函数
-   */
-  async requestPlay(id: string, playFn: () => Promise<void>): Promise<void> {
-    // 如果当前没有音频在播放，直接播放
-    if (!this.currentPlayingId) {
-      this.currentPlayingId = id;
-      try {
-        await playFn();
-      } finally {
-        this.currentPlayingId = null;
-        this.processQueue();
+import { audioGraph, DecodedClip } from './audioGraph';
+import { ttsService, AudioFormat } from './ttsService';
+
+// 播放片段：合成好的音频，或由浏览器直接朗读的文本
+export type QueueSegment =
+  | { type: 'audio'; audio: string; format?: AudioFormat; text?: string }
+  | { type: 'speech'; text: string; mode: string };
+
+/**
+ * 加入队列的优先级
+ * interrupt: 立即打断当前播放；next: 排在当前项之后；normal: 排在队尾
+ */
+export type QueuePriority = 'interrupt' | 'next' | 'normal';
+
+// 播放项
+export interface QueueItem {
+  /** 播放项标识，同一标识再次加入时替换原有项 */
+  id: string;
+  /** 所属消息ID */
+  messageId?: string;
+  /** 正在播放栏中显示的标题 */
+  title?: string;
+  segments: QueueSegment[];
+  /** 为true时还有片段在合成，播放到末尾时等待追加 */
+  pending?: boolean;
+  /** 从第一个片段的该时间（秒）开始播放，只生效一次，重播时从头开始 */
+  startTime?: number;
+}
+
+// 播放项摘要（状态快照中使用，不含音频数据）
+export type QueueItemSummary = Pick<QueueItem, 'id' | 'messageId' | 'title'>;
+
+/** buffering表示当前项的片段已播完、后续片段还在合成 */
+export type PlaybackStatus = 'idle' | 'playing' | 'paused' | 'buffering';
+
+// 播放状态快照
+export interface PlaybackState {
+  status: PlaybackStatus;
+  current: QueueItemSummary | null;
+  /** 当前片段下标 */
+  segmentIndex: number;
+  /** 当前项已有的片段数 */
+  segmentCount: number;
+  /** 当前片段的播放进度（秒） */
+  currentTime: number;
+  /** 当前片段的时长（秒），未知时为0 */
+  duration: number;
+  /** 等待播放的项 */
+  upcoming: QueueItemSummary[];
+  /** 是否有播放过的项可以回到 */
+  hasPrevious: boolean;
+  volume: number;
+  muted: boolean;
+  /** 播放速度，0.5到2倍 */
+  playbackRate: number;
+}
+
+type PlaybackListener = (state: PlaybackState) => void;
+
+/** 保留的播放历史条数（用于上一条） */
+const HISTORY_LIMIT = 20;
+/** 播放超过该秒数后，「上一条」改为从头重播当前项 */
+const RESTART_THRESHOLD = 3;
+/** 切换播放项时的淡出淡入时长（毫秒） */
+const DEFAULT_CROSSFADE_MS = 300;
+const FADE_STEP_MS = 20;
+const PLAYBACK_RATE_KEY = 'qingxupaijie:playbackRate';
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+const summarize = (item: QueueItem): QueueItemSummary => ({ id: item.id, messageId: item.messageId, title: item.title });
+
+/**
+ * 在duration毫秒内把音量从from渐变到to
+ * 接入Web Audio时调整增益节点，否则调整音频元素的音量（iOS上元素音量不可调）
+ */
+function fade(audio: HTMLAudioElement, gain: GainNode | null, from: number, to: number, duration: number): Promise<void> {
+  if (gain) {
+    const now = gain.context.currentTime;
+    gain.gain.cancelScheduledValues(now);
+    gain.gain.setValueAtTime(from, now);
+    gain.gain.linearRampToValueAtTime(to, now + duration / 1000);
+    return new Promise(resolve => setTimeout(resolve, duration));
+  }
+
+  return new Promise(resolve => {
+    const steps = Math.max(1, Math.round(duration / FADE_STEP_MS));
+    let step = 0;
+    audio.volume = from;
+    const timer = setInterval(() => {
+      step++;
+      audio.volume = Math.min(1, Math.max(0, from + ((to - from) * step) / steps));
+      if (step >= steps) {
+        clearInterval(timer);
+        resolve();
       }
+    }, FADE_STEP_MS);
+  });
+}
+
+/**
+ * 读取保存的播放速度
+ */
+function loadPlaybackRate(): number {
+  const saved = Number(localStorage.getItem(PLAYBACK_RATE_KEY));
+  return Number.isFinite(saved) && saved >= MIN_PLAYBACK_RATE && saved <= MAX_PLAYBACK_RATE ? saved : 1;
+}
+
+class AudioQueueManager {
+  private queue: QueueItem[] = [];
+  private history: QueueItem[] = [];
+  private current: QueueItem | null = null;
+  private segmentIndex = 0;
+  private status: PlaybackStatus = 'idle';
+  private audio: HTMLAudioElement | null = null;
+  private gain: GainNode | null = null;
+  // 每次切换片段递增，用于丢弃过期的解码结果
+  private loadToken = 0;
+  private playbackRate = loadPlaybackRate();
+  private objectUrl: string | null = null;
+  private speechController: AbortController | null = null;
+  private volume = 1;
+  private muted = false;
+  private crossfadeMs = DEFAULT_CROSSFADE_MS;
+  private listeners = new Set<PlaybackListener>();
+  // 等待播放项结束的回调，参数表示是否完整播放
+  private waiters = new Map<string, Array<(completed: boolean) => void>>();
+  private state: PlaybackState = this.snapshot();
+
+  /**
+   * 加入播放项
+   * 与当前项标识相同时从头重播；与队列中的项标识相同时替换该项
+   */
+  enqueue(item: QueueItem, priority: QueuePriority = 'normal'): void {
+    const entry: QueueItem = { ...item, segments: [...item.segments] };
+    this.dropFromQueue(entry.id);
+
+    if (!this.current || priority === 'interrupt' || this.current.id === entry.id) {
+      this.switchTo(entry);
       return;
     }
 
-    // 如果是同一个音频，停止当前播放并重新播放
-    if (this.currentPlayingId === id) {
-      this.stopCurrent();
-      this.currentPlayingId = id;
-      try {
-        await playFn();
-      } finally {
-        this.currentPlayingId = null;
-        this.processQueue();
-      }
+    if (priority === 'next') {
+      this.queue.unshift(entry);
+    } else {
+      this.queue.push(entry);
+    }
+    this.emit();
+  }
+
+  /**
+   * 从第一项开始连续播放，替换原有队列
+   */
+  playAll(items: QueueItem[]): void {
+    if (items.length === 0) return;
+
+    for (const item of this.queue) {
+      this.settle(item.id, false);
+    }
+    this.queue = items.slice(1).map(item => ({ ...item, segments: [...item.segments] }));
+    this.switchTo({ ...items[0], segments: [...items[0].segments] });
+  }
+
+  /**
+   * 为播放项追加片段
+   * @returns 播放项已被移除（如用户点了下一条）时返回false
+   */
+  appendSegments(id: string, segments: QueueSegment[]): boolean {
+    const item = this.findItem(id);
+    if (!item) return false;
+
+    item.segments.push(...segments);
+    if (item === this.current && this.status === 'buffering') {
+      this.playSegment();
+    } else {
+      this.emit();
+    }
+    return true;
+  }
+
+  /**
+   * 标记播放项的片段已全部追加
+   */
+  finishSegments(id: string): void {
+    const item = this.findItem(id);
+    if (!item) return;
+
+    item.pending = false;
+    if (item === this.current && this.status === 'buffering') {
+      this.playSegment();
+    }
+  }
+
+  /**
+   * 移除播放项，正在播放时停止并播放下一项
+   */
+  remove(id: string): void {
+    if (this.current?.id === id) {
+      this.releaseAudio(true);
+      this.finishCurrent(false);
       return;
     }
+    if (this.dropFromQueue(id)) {
+      this.emit();
+    }
+  }
 
-    // 否则加入队列等待
-    return new Promise((resolve) => {
-      this.playQueue.push({
-        id,
-        playFn: async () => {
-          try {
-            await playFn();
-            resolve();
-          } catch (error) {
-            console.error('音频播放失败:', error);
-            resolve();
-          }
-        }
-      });
-    });
+  /**
+   * 跳到下一项
+   */
+  skip(): void {
+    if (!this.current) return;
+    this.releaseAudio(true);
+    this.finishCurrent(false);
   }
 
   /**
-   * 停止当前播放的音频
+   * 回到上一项；当前项已播放一段时间时从头重播
    */
-  stopCurrent(): void {
-    if (this.currentPlayingId) {
-      // 通过事件通知当前播放的音频停止
-      window.dispatchEvent(new CustomEvent('audioQueueStop', { 
-        detail: { id: this.currentPlayingId } 
-      }));
-      this.currentPlayingId = null;
+  previous(): void {
+    const playedLong = this.segmentIndex > 0 || (this.audio?.currentTime ?? 0) > RESTART_THRESHOLD;
+    if (this.current && (playedLong || this.history.length === 0)) {
+      this.releaseAudio(false);
+      this.segmentIndex = 0;
+      this.playSegment();
+      return;
     }
+
+    const previous = this.history.pop();
+    if (!previous) return;
+    if (this.current) {
+      this.releaseAudio(true);
+      this.queue.unshift(this.current);
+      this.current = null;
+    }
+    this.startItem(previous, true);
+  }
+
+  /**
+   * 暂停整个队列
+   */
+  pause(): void {
+    if (this.status !== 'playing' && this.status !== 'buffering') return;
+
+    if (this.audio) {
+      this.audio.pause();
+    } else {
+      // 片段还在解码，丢弃解码结果，继续时重新开始当前片段
+      this.loadToken++;
+    }
+    // 浏览器朗读无法暂停，继续时从当前片段开头重新朗读
+    this.speechController?.abort();
+    this.speechController = null;
+    this.status = 'paused';
+    this.emit();
   }
 
   /**
-   * 音频播放完成通知
-   * @param id 完成播放的音频ID
+   * 继续播放
    */
-  onPlayEnded(id: string): void {
-    if (this.currentPlayingId === id) {
-      this.currentPlayingId = null;
-      this.processQueue();
+  resume(): void {
+    if (this.status !== 'paused') return;
+
+    if (this.audio) {
+      this.status = 'playing';
+      const audio = this.audio;
+      audioGraph.resume()
+        .then(() => audio.play())
+        .catch(error => this.handlePlayError(audio, error));
+      this.emit();
+    } else {
+      this.playSegment();
     }
   }
 
   /**
-   * 处理播放队列
+   * 切换暂停/继续
    */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.playQueue.length === 0 || this.currentPlayingId) {
+  togglePause(): void {
+    if (this.status === 'paused') {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  /**
+   * 停止播放并清空队列
+   */
+  stop(): void {
+    for (const item of this.queue) {
+      this.settle(item.id, false);
+    }
+    this.queue = [];
+    if (this.current) {
+      this.releaseAudio(true);
+      this.finishCurrent(false);
+    }
+  }
+
+  /**
+   * 停止当前播放的音频（兼容旧接口，等同于下一条）
+   */
+  stopCurrent(): void {
+    this.skip();
+  }
+
+  /**
+   * 跳转到当前片段的指定位置（秒）
+   */
+  seek(time: number): void {
+    if (!this.audio) return;
+    this.audio.currentTime = Math.max(0, time);
+    this.emit();
+  }
+
+  /**
+   * 设置音量（0到1）
+   */
+  setVolume(volume: number): void {
+    this.volume = Math.min(1, Math.max(0, volume));
+    if (this.audio) {
+      this.audio.volume = this.volume;
+    }
+    if (this.volume > 0 && this.muted) {
+      this.setMuted(false);
       return;
     }
+    this.emit();
+  }
 
-    this.isProcessing = true;
-    
-    while (this.playQueue.length > 0 && !this.currentPlayingId) {
-      const nextItem = this.playQueue.shift();
-      if (nextItem) {
-        this.currentPlayingId = nextItem.id;
-        try {
-          await nextItem.playFn();
-        } finally {
-          this.currentPlayingId = null;
-        }
-      }
+  /**
+   * 设置静音
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (this.audio) {
+      this.audio.muted = muted;
+    }
+    this.emit();
+  }
+
+  /**
+   * 设置播放速度（0.5到2倍，保持音调），保存在本地
+   */
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    if (this.audio) {
+      this.audio.playbackRate = this.playbackRate;
     }
+    try {
+      localStorage.setItem(PLAYBACK_RATE_KEY, String(this.playbackRate));
+    } catch (error) {
+      console.warn('播放速度保存失败:', error);
+    }
+    this.emit();
+  }
 
-    this.isProcessing = false;
+  /**
+   * 设置切换播放项时的淡出淡入时长，0表示直接切换
+   */
+  setCrossfade(ms: number): void {
+    this.crossfadeMs = Math.max(0, ms);
+  }
+
+  /**
+   * 等待播放项结束
+   * @returns 完整播放时为true，被跳过、移除或停止时为false；播放项不存在时立即返回false
+   */
+  waitFor(id: string): Promise<boolean> {
+    if (!this.findItem(id)) {
+      return Promise.resolve(false);
+    }
+    return new Promise(resolve => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve]);
+    });
   }
 
   /**
    * 获取当前播放状态
    */
   getCurrentPlayingId(): string | null {
-    return this.currentPlayingId;
+    return this.current?.id ?? null;
   }
 
   /**
-   * 检查指定音频是否正在播放
+   * 检查指定播放项是否正在播放
    */
   isPlaying(id: string): boolean {
-    return this.currentPlayingId === id;
+    return this.current?.id === id && this.status !== 'paused';
   }
 
   /**
-   * 清空播放队列
+   * 清空等待播放的项（不影响当前播放）
    */
   clearQueue(): void {
-    this.playQueue = [];
+    for (const item of this.queue) {
+      this.settle(item.id, false);
+    }
+    this.queue = [];
+    this.emit();
   }
 
   /**
    * 获取队列长度
    */
   getQueueLength(): number {
-    return this.playQueue.length;
+    return this.queue.length;
+  }
+
+  /**
+   * 获取播放状态快照（状态不变时返回同一对象）
+   */
+  getState(): PlaybackState {
+    return this.state;
+  }
+
+  /**
+   * 订阅播放状态变化
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: PlaybackListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * 打断当前项，切换到新的播放项
+   */
+  private switchTo(item: QueueItem): void {
+    const hadCurrent = !!this.current;
+    if (this.current) {
+      this.releaseAudio(true);
+      // 同一项重播时不进入历史
+      if (this.current.id !== item.id) {
+        this.pushHistory(this.current);
+      }
+      this.settle(this.current.id, false);
+      this.current = null;
+    }
+    this.startItem(item, hadCurrent);
+  }
+
+  private startItem(item: QueueItem, fadeIn: boolean): void {
+    this.current = item;
+    this.segmentIndex = 0;
+    this.playSegment(fadeIn);
+  }
+
+  /**
+   * 播放当前项的当前片段，片段播完后自动播放下一个
+   */
+  private playSegment(fadeIn = false): void {
+    const item = this.current;
+    if (!item) return;
+
+    const segment = item.segments[this.segmentIndex];
+    if (!segment) {
+      if (item.pending) {
+        this.status = 'buffering';
+        this.emit();
+      } else {
+        this.finishCurrent(true);
+      }
+      return;
+    }
+
+    this.status = 'playing';
+    if (segment.type === 'speech') {
+      this.speakSegment(segment.text, segment.mode);
+      this.emit();
+      return;
+    }
+
+    // 解码完成前可能已被切换，过期的解码结果直接丢弃
+    const token = ++this.loadToken;
+    audioGraph.decode(segment.audio, segment.format)
+      .then(clip => {
+        if (token === this.loadToken) this.startAudio(clip, fadeIn);
+      })
+      .catch(error => {
+        if (token !== this.loadToken) return;
+        console.warn('音频片段解码失败，跳过:', error);
+        this.nextSegment();
+      });
+    this.emit();
+  }
+
+  /**
+   * 播放解码后的片段：音频元素接入Web Audio做响度归一化，变速时保持音调
+   */
+  private startAudio(clip: DecodedClip, fadeIn: boolean): void {
+    const url = URL.createObjectURL(clip.blob);
+    const audio = new Audio(url);
+    audio.muted = this.muted;
+    audio.playbackRate = this.playbackRate;
+    audio.preservesPitch = true;
+    if (this.current?.startTime && this.segmentIndex === 0) {
+      audio.currentTime = this.current.startTime;
+      this.current.startTime = undefined;
+    }
+    const gain = audioGraph.connect(audio);
+    const shouldFade = fadeIn && this.crossfadeMs > 0;
+    if (gain) {
+      gain.gain.value = shouldFade ? 0 : clip.gain;
+      audio.volume = this.volume;
+    } else {
+      audio.volume = shouldFade ? 0 : this.volume;
+    }
+    this.audio = audio;
+    this.gain = gain;
+    this.objectUrl = url;
+
+    // 已被替换的音频元素的事件一律忽略
+    const isActive = () => this.audio === audio;
+    audio.addEventListener('ended', () => isActive() && this.nextSegment());
+    audio.addEventListener('error', () => {
+      if (!isActive()) return;
+      console.warn('音频片段播放出错，跳过');
+      this.nextSegment();
+    });
+    audio.addEventListener('timeupdate', () => isActive() && this.emit());
+    audio.addEventListener('loadedmetadata', () => isActive() && this.emit());
+
+    audioGraph.resume()
+      .then(() => audio.play())
+      .then(() => {
+        if (isActive() && shouldFade) {
+          return gain ? fade(audio, gain, 0, clip.gain, this.crossfadeMs) : fade(audio, null, 0, this.volume, this.crossfadeMs);
+        }
+      })
+      .catch(error => this.handlePlayError(audio, error));
+    this.emit();
+  }
+
+  /**
+   * 浏览器直接朗读一个片段
+   */
+  private speakSegment(text: string, mode: string): void {
+    const controller = new AbortController();
+    this.speechController = controller;
+
+    ttsService.speakByMode(text, mode, controller.signal)
+      .catch(error => console.warn('片段朗读失败:', error))
+      .finally(() => {
+        if (this.speechController !== controller || controller.signal.aborted) return;
+        this.speechController = null;
+        this.nextSegment();
+      });
+  }
+
+  private handlePlayError(audio: HTMLAudioElement | null, error: unknown): void {
+    if (!audio || this.audio !== audio) return;
+    // 缺少用户手势时保持暂停，等用户点击继续
+    if (error instanceof Error && error.name === 'NotAllowedError') {
+      console.warn('浏览器阻止了自动播放，请点击播放');
+      this.status = 'paused';
+      this.emit();
+      return;
+    }
+    console.warn('音频播放失败:', error);
+    this.nextSegment();
+  }
+
+  private nextSegment(): void {
+    this.releaseAudio(false);
+    this.segmentIndex++;
+    this.playSegment();
+  }
+
+  /**
+   * 当前项结束（播完或被跳过），开始播放队列中的下一项
+   */
+  private finishCurrent(completed: boolean): void {
+    const finished = this.current;
+    if (finished) {
+      this.pushHistory(finished);
+      this.current = null;
+      this.settle(finished.id, completed);
+    }
+
+    const next = this.queue.shift();
+    if (next) {
+      this.startItem(next, !completed);
+      return;
+    }
+
+    this.status = 'idle';
+    this.segmentIndex = 0;
+    this.emit();
+  }
+
+  /**
+   * 停止并释放当前的音频元素
+   * @param fadeOut 是否淡出后再停止（切换播放项时）
+   */
+  private releaseAudio(fadeOut: boolean): void {
+    this.loadToken++;
+    this.speechController?.abort();
+    this.speechController = null;
+
+    const audio = this.audio;
+    const gain = this.gain;
+    const url = this.objectUrl;
+    this.audio = null;
+    this.gain = null;
+    this.objectUrl = null;
+    if (!audio) return;
+
+    const cleanup = () => {
+      audio.pause();
+      gain?.disconnect();
+      if (url) URL.revokeObjectURL(url);
+    };
+    if (fadeOut && this.crossfadeMs > 0 && !audio.paused) {
+      const from = gain ? gain.gain.value : audio.volume;
+      fade(audio, gain, from, 0, this.crossfadeMs).then(cleanup);
+    } else {
+      cleanup();
+    }
+  }
+
+
+  private pushHistory(item: QueueItem): void {
+    this.history = [...this.history.filter(entry => entry.id !== item.id), item].slice(-HISTORY_LIMIT);
+  }
+
+  private findItem(id: string): QueueItem | undefined {
+    return this.current?.id === id ? this.current : this.queue.find(item => item.id === id);
+  }
+
+  /**
+   * 从等待队列中移除播放项
+   * @returns 是否找到并移除
+   */
+  private dropFromQueue(id: string): boolean {
+    const index = this.queue.findIndex(item => item.id === id);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    this.settle(id, false);
+    return true;
+  }
+
+  /**
+   * 通知等待该播放项结束的调用方
+   */
+  private settle(id: string, completed: boolean): void {
+    const waiters = this.waiters.get(id);
+    if (!waiters) return;
+    this.waiters.delete(id);
+    waiters.forEach(resolve => resolve(completed));
+  }
+
+  private snapshot(): PlaybackState {
+    return {
+      status: this.status,
+      current: this.current ? summarize(this.current) : null,
+      segmentIndex: this.segmentIndex,
+      segmentCount: this.current?.segments.length ?? 0,
+      currentTime: this.audio?.currentTime ?? 0,
+      duration: this.audio && Number.isFinite(this.audio.duration) ? this.audio.duration : 0,
+      upcoming: this.queue.map(summarize),
+      hasPrevious: this.history.length > 0,
+      volume: this.volume,
+      muted: this.muted,
+      playbackRate: this.playbackRate,
+    };
+  }
+
+  private emit(): void {
+    this.state = this.snapshot();
+    this.listeners.forEach(listener => listener(this.state));
   }
 }
 
 // 导出单例实例
-export const audioQueueManager = new AudioQueueManager();
\ No newline at end of file
+export const audioQueueManager = new AudioQueueManager();
@@ -0,0 +1,127 @@
+/**
+ * 麦克风录音器
+ * 封装getUserMedia与MediaRecorder，录音结束后返回完整的音频Blob
+ */
+
+// 录音结果
+export interface RecordedAudio {
+  blob: Blob;
+  mimeType: string;
+  /** 录音时长（毫秒） */
+  duration: number;
+}
+
+// 按优先级尝试的录音格式
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export class AudioRecorder {
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startTime = 0;
+  // 麦克风由录音器自己申请时，结束后负责释放
+  private ownsStream = false;
+
+  /**
+   * 检查当前浏览器是否支持录音
+   */
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  /**
+   * 是否正在录音
+   */
+  isRecording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  /**
+   * 当前的麦克风音频流（用于音量检测等）
+   */
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  /**
+   * 开始录音
+   * @param stream 复用已有的麦克风音频流；不传时申请新的麦克风权限
+   */
+  async start(stream?: MediaStream): Promise<void> {
+    if (!AudioRecorder.isSupported()) {
+      throw new Error('当前浏览器不支持录音');
+    }
+    if (this.isRecording()) return;
+
+    try {
+      this.ownsStream = !stream;
+      this.stream = stream ?? await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NotAllowedError') {
+        throw new Error('麦克风权限被拒绝，请在浏览器设置中允许访问麦克风');
+      }
+      throw new Error('无法打开麦克风');
+    }
+
+    const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    this.recorder.start();
+    this.startTime = Date.now();
+  }
+
+  /**
+   * 停止录音并返回录音数据
+   */
+  stop(): Promise<RecordedAudio> {
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.reject(new Error('当前没有进行中的录音'));
+    }
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || 'audio/webm';
+        resolve({
+          blob: new Blob(this.chunks, { type: mimeType }),
+          mimeType,
+          duration: Date.now() - this.startTime,
+        });
+        this.chunks = [];
+        this.recorder = null;
+        this.releaseStream();
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * 取消录音，丢弃已录制的数据
+   */
+  cancel(): void {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.recorder = null;
+    this.chunks = [];
+    this.releaseStream();
+  }
+
+  /**
+   * 释放麦克风（外部传入的音频流由调用方负责释放）
+   */
+  private releaseStream(): void {
+    if (this.ownsStream) {
+      this.stream?.getTracks().forEach(track => track.stop());
+    }
+    this.stream = null;
+  }
+}
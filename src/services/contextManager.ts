@@ -0,0 +1,232 @@
+/**
+ * 上下文窗口管理
+ * 估算每轮请求的Token数，超出预算时将早期对话压缩为摘要（失败时直接裁剪），
+ * 系统提示词始终保留在最前面
+ */
+import { doubaoApi, ChatMessage, EmotionMode } from './doubaoApi';
+
+// 上下文管理配置
+export interface ContextBudgetConfig {
+  /** 上下文总预算（含系统提示词，不含回复） */
+  maxContextTokens: number;
+  /** 压缩时至少保留的最近消息条数 */
+  keepRecentMessages: number;
+}
+
+// 准备好的请求上下文
+export interface PreparedContext {
+  /** 发送给API的消息（不含系统提示词，摘要以system消息放在最前） */
+  messages: ChatMessage[];
+  /** 估算的请求Token数（含系统提示词） */
+  estimatedTokens: number;
+  /** 是否使用了摘要 */
+  summarized: boolean;
+  /** 被摘要或裁剪掉的早期消息条数 */
+  compressedCount: number;
+}
+
+// 每个会话的摘要缓存
+interface SummaryCache {
+  /** 摘要覆盖的消息条数（从头开始计） */
+  coveredCount: number;
+  summary: string;
+}
+
+/** 中日韩文字及全角标点 */
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+/** 每条消息的格式开销（角色标记等） */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const DEFAULT_CONFIG: ContextBudgetConfig = {
+  maxContextTokens: Number(import.meta.env.VITE_CONTEXT_MAX_TOKENS) || 12000,
+  keepRecentMessages: 6,
+};
+
+/**
+ * 估算文本的Token数
+ * 中日韩字符约1字1个Token，其余字符约4个字符1个Token
+ */
+export function estimateTokens(text: string): number {
+  let cjkCount = 0;
+  for (const char of text) {
+    if (CJK_PATTERN.test(char)) {
+      cjkCount++;
+    }
+  }
+  const otherCount = text.length - cjkCount;
+  return cjkCount + Math.ceil(otherCount / 4);
+}
+
+/**
+ * 估算单条消息的Token数
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * 估算多条消息的Token总数
+ */
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
+
+/**
+ * 构造摘要消息
+ */
+function createSummaryMessage(summary: string): ChatMessage {
+  return {
+    role: 'system',
+    content: `以下是此前对话的摘要，请结合它理解接下来的对话：\n${summary}`,
+  };
+}
+
+class ContextManager {
+  private config: ContextBudgetConfig;
+  private summaries = new Map<string, SummaryCache>();
+
+  constructor(config: ContextBudgetConfig = DEFAULT_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * 获取当前预算配置
+   */
+  getConfig(): ContextBudgetConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 准备本轮请求的上下文
+   * @param history 完整对话历史（按时间顺序）
+   * @param mode 情绪模式，用于计算系统提示词占用
+   * @param sessionId 会话ID，用于缓存摘要
+   */
+  async prepareMessages(history: ChatMessage[], mode: EmotionMode, sessionId: string): Promise<PreparedContext> {
+    const modeConfig = await doubaoApi.getModeConfig(mode);
+    const systemTokens = estimateTokens(modeConfig.systemPrompt) + MESSAGE_OVERHEAD_TOKENS;
+    const historyBudget = this.config.maxContextTokens - systemTokens;
+
+    const fullTokens = estimateMessagesTokens(history);
+    const cached = this.summaries.get(sessionId);
+
+    // 预算内且之前没有压缩过，原样发送
+    if (fullTokens <= historyBudget && !cached) {
+      return {
+        messages: history,
+        estimatedTokens: systemTokens + fullTokens,
+        summarized: false,
+        compressedCount: 0,
+      };
+    }
+
+    // 保留最近的消息，直到占满预算的一半，其余交给摘要
+    const splitIndex = this.findSplitIndex(history, Math.floor(historyBudget / 2), cached?.coveredCount ?? 0);
+    const older = history.slice(0, splitIndex);
+    const recent = history.slice(splitIndex);
+
+    if (older.length === 0) {
+      return this.trim(history, historyBudget, systemTokens);
+    }
+
+    try {
+      const summary = await this.getSummary(sessionId, older, cached);
+      const messages = [createSummaryMessage(summary), ...recent];
+      const estimatedTokens = systemTokens + estimateMessagesTokens(messages);
+
+      console.log('🗜️ 上下文已压缩:', {
+        compressedCount: older.length,
+        keptCount: recent.length,
+        estimatedTokens,
+      });
+
+      if (estimatedTokens - systemTokens > historyBudget) {
+        // 摘要加最近消息仍超预算时继续裁剪最近消息
+        const trimmed = this.trim(recent, historyBudget - estimateMessageTokens(messages[0]), systemTokens);
+        return {
+          ...trimmed,
+          messages: [messages[0], ...trimmed.messages],
+          estimatedTokens: trimmed.estimatedTokens + estimateMessageTokens(messages[0]),
+          summarized: true,
+          compressedCount: older.length + trimmed.compressedCount,
+        };
+      }
+
+      return {
+        messages,
+        estimatedTokens,
+        summarized: true,
+        compressedCount: older.length,
+      };
+    } catch (error) {
+      console.warn('⚠️ 生成对话摘要失败，改为裁剪早期消息:', error);
+      return this.trim(history, historyBudget, systemTokens);
+    }
+  }
+
+  /**
+   * 清除会话的摘要缓存（例如会话被清空或删除时）
+   */
+  clearSession(sessionId: string): void {
+    this.summaries.delete(sessionId);
+  }
+
+  /**
+   * 计算保留最近消息的起始位置
+   * 至少保留keepRecentMessages条，且不早于已摘要的位置
+   */
+  private findSplitIndex(history: ChatMessage[], recentBudget: number, coveredCount: number): number {
+    let index = history.length;
+    let tokens = 0;
+
+    while (index > 0) {
+      const nextTokens = tokens + estimateMessageTokens(history[index - 1]);
+      const keptCount = history.length - index;
+      if (keptCount >= this.config.keepRecentMessages && nextTokens > recentBudget) {
+        break;
+      }
+      tokens = nextTokens;
+      index--;
+    }
+
+    // 已经摘要过的部分不再放回原文
+    return Math.max(index, Math.min(coveredCount, history.length));
+  }
+
+  /**
+   * 获取覆盖older的摘要，已有摘要时只合并新增部分
+   */
+  private async getSummary(sessionId: string, older: ChatMessage[], cached?: SummaryCache): Promise<string> {
+    if (cached && cached.coveredCount >= older.length) {
+      return cached.summary;
+    }
+
+    const newMessages = cached ? older.slice(cached.coveredCount) : older;
+    const summary = await doubaoApi.summarize(newMessages, cached?.summary);
+    this.summaries.set(sessionId, { coveredCount: older.length, summary });
+    return summary;
+  }
+
+  /**
+   * 从最早的消息开始丢弃，直到满足预算（至少保留最后一条）
+   */
+  private trim(history: ChatMessage[], budget: number, systemTokens: number): PreparedContext {
+    let start = 0;
+    let tokens = estimateMessagesTokens(history);
+    while (tokens > budget && start < history.length - 1) {
+      tokens -= estimateMessageTokens(history[start]);
+      start++;
+    }
+
+    return {
+      messages: history.slice(start),
+      estimatedTokens: systemTokens + tokens,
+      summarized: false,
+      compressedCount: start,
+    };
+  }
+}
+
+// 导出单例实例
+export const contextManager = new ContextManager();
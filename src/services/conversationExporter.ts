@@ -0,0 +1,205 @@
+/**
+ * 对话导出与导入
+ * 把当前对话导出为Markdown（便于阅读分享）或JSON（包含模式、时间和生成参数，可在其他设备导入恢复）。
+ * 导入时按注册表核对人设：先按模式ID、再按模式名称查找，本机没有该人设时由调用方决定改用哪个模式
+ */
+import { modeRegistry, ModeDefinition } from './modeRegistry';
+import { doubaoApi, EmotionMode } from './doubaoApi';
+import { llmProviders, GenerationParams } from './llmProviders';
+import { ttsService, VoiceModeConfig } from './ttsService';
+import { conversationStore, DisplayMessage, deriveSessionTitle } from './conversationStore';
+import { toFilenamePart, formatFileTimestamp } from './fileDownload';
+
+/** JSON导出文件的格式标识 */
+export const CONVERSATION_EXPORT_FORMAT = 'qingxupaijie-conversation';
+/** JSON导出文件的格式版本，结构不兼容时递增 */
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+// 导出的对话（JSON结构）
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: {
+    title: string;
+    createdAt?: string;
+  };
+  mode: {
+    id: EmotionMode;
+    name: string;
+    label: string;
+    custom: boolean;
+  };
+  /** 导出时该模式使用的模型提供方、生成参数和语音参数 */
+  parameters: {
+    provider: string;
+    generation: GenerationParams;
+    voice: VoiceModeConfig;
+  };
+  /** 消息列表，不含语音数据 */
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: string;
+  }>;
+}
+
+// 待导出的对话
+export interface ConversationSnapshot {
+  title: string;
+  mode: EmotionMode;
+  createdAt?: number;
+  messages: DisplayMessage[];
+}
+
+// 解析后的导入结果
+export interface ImportedConversation {
+  title: string;
+  /** 文件中记录的人设 */
+  mode: ConversationExport['mode'];
+  /** 本机注册表中对应的模式ID，找不到时为null */
+  matchedMode: EmotionMode | null;
+  createdAt: number;
+  messages: DisplayMessage[];
+}
+
+/** 导出文件名的前缀 */
+const FILENAME_PREFIX = '情绪排解';
+
+/**
+ * 模式在本机的显示信息，模式已被删除时只保留ID
+ */
+const describeMode = (id: EmotionMode): ModeDefinition | undefined => modeRegistry.get(id);
+
+class ConversationExporter {
+  /**
+   * 导出为Markdown：标题、模式和时间信息，之后按顺序列出每条消息
+   */
+  toMarkdown(snapshot: ConversationSnapshot): string {
+    const mode = describeMode(snapshot.mode);
+    const modeLabel = mode?.label ?? snapshot.mode;
+    const title = snapshot.title || deriveSessionTitle(snapshot.messages) || '新对话';
+
+    const lines = [
+      `# ${title}`,
+      '',
+      `- 模式：${mode?.name ?? modeLabel}`,
+      ...(snapshot.createdAt ? [`- 开始时间：${new Date(snapshot.createdAt).toLocaleString()}`] : []),
+      `- 导出时间：${new Date().toLocaleString()}`,
+      '',
+      '---',
+    ];
+
+    for (const msg of snapshot.messages) {
+      if (msg.role === 'system') continue;
+      const speaker = msg.role === 'user' ? '我' : modeLabel;
+      lines.push('', `**${speaker}** · ${msg.timestamp.toLocaleString()}`, '', msg.content.trim());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * 导出为JSON，附带导出时模式的生成参数和语音参数
+   */
+  toJson(snapshot: ConversationSnapshot): string {
+    const mode = describeMode(snapshot.mode);
+    const data: ConversationExport = {
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: CONVERSATION_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversation: {
+        title: snapshot.title || deriveSessionTitle(snapshot.messages),
+        createdAt: snapshot.createdAt ? new Date(snapshot.createdAt).toISOString() : undefined,
+      },
+      mode: {
+        id: snapshot.mode,
+        name: mode?.name ?? snapshot.mode,
+        label: mode?.label ?? snapshot.mode,
+        custom: !!mode?.custom,
+      },
+      parameters: {
+        provider: llmProviders.get(mode?.provider).id,
+        generation: mode ? doubaoApi.getGenerationParams(mode) : {},
+        voice: ttsService.getVoiceConfigByMode(snapshot.mode),
+      },
+      messages: snapshot.messages
+        .filter((msg): msg is DisplayMessage & { role: 'user' | 'assistant' } => msg.role !== 'system')
+        .map(msg => ({
+          role: msg.role,
+          content: msg.content,
+          timestamp: msg.timestamp.toISOString(),
+        })),
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * 解析导入的JSON，格式不正确时抛出错误
+   * 消息重新生成ID，避免与本机已有的消息冲突
+   */
+  parseImport(content: string): ImportedConversation {
+    let data: Partial<ConversationExport>;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('文件不是有效的JSON');
+    }
+
+    if (data?.format !== CONVERSATION_EXPORT_FORMAT) {
+      throw new Error('不是本应用导出的对话文件');
+    }
+    if (typeof data.version !== 'number' || data.version > CONVERSATION_EXPORT_VERSION) {
+      throw new Error('对话文件的版本过新，请先更新应用');
+    }
+    if (!data.mode || typeof data.mode.id !== 'string' || !Array.isArray(data.messages)) {
+      throw new Error('对话文件缺少模式或消息');
+    }
+
+    const messages: DisplayMessage[] = data.messages.map((msg, index) => {
+      if ((msg?.role !== 'user' && msg?.role !== 'assistant') || typeof msg.content !== 'string') {
+        throw new Error(`第${index + 1}条消息格式不正确`);
+      }
+      const timestamp = new Date(msg.timestamp);
+      return {
+        id: conversationStore.generateId(),
+        role: msg.role,
+        content: msg.content,
+        timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+      };
+    });
+    if (messages.length === 0) {
+      throw new Error('对话文件中没有消息');
+    }
+
+    const createdAt = data.conversation?.createdAt ? Date.parse(data.conversation.createdAt) : NaN;
+    return {
+      title: typeof data.conversation?.title === 'string' ? data.conversation.title : '',
+      mode: data.mode,
+      matchedMode: this.matchMode(data.mode),
+      createdAt: Number.isNaN(createdAt) ? messages[0].timestamp.getTime() : createdAt,
+      messages,
+    };
+  }
+
+  /**
+   * 在注册表中查找导入的人设：ID相同优先，其次名称相同（如在另一台设备上重新创建的同名人设）
+   */
+  private matchMode(mode: ConversationExport['mode']): EmotionMode | null {
+    if (modeRegistry.has(mode.id)) return mode.id;
+    return modeRegistry.list().find(item => item.name === mode.name)?.id ?? null;
+  }
+
+  /**
+   * 导出文件名，如「情绪排解-抬杠-和老板吵架-20241218-2130.md」
+   */
+  getFilename(snapshot: ConversationSnapshot, extension: string): string {
+    const modeLabel = describeMode(snapshot.mode)?.label ?? snapshot.mode;
+    const title = snapshot.title || deriveSessionTitle(snapshot.messages);
+    return [FILENAME_PREFIX, toFilenamePart(modeLabel), toFilenamePart(title), formatFileTimestamp(new Date())]
+      .filter(Boolean)
+      .join('-') + `.${extension}`;
+  }
+}
+
+// 导出单例实例
+export const conversationExporter = new ConversationExporter();
@@ -0,0 +1,293 @@
+/**
+ * 会话持久化存储
+ * 基于IndexedDB保存每个情绪模式下的多个会话，语音数据以Blob形式单独存放
+ */
+import { ChatMessage, EmotionMode } from './doubaoApi';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import type { AudioFormat, SentenceTimestamp } from './ttsService';
+import { base64ToBytes, bytesToBase64, audioMimeType } from './audioCodec';
+
+// 界面展示用的消息
+export interface DisplayMessage extends ChatMessage {
+  id: string;
+  timestamp: Date;
+  audioData?: string; // 添加音频数据字段
+  audioFormat?: AudioFormat; // 音频格式，未设置时为mp3
+  audioTimestamps?: SentenceTimestamp[]; // 语音的逐句、逐字时间戳
+}
+
+// 会话元信息（列表展示用，不含消息内容）
+export interface ConversationSummary {
+  id: string;
+  mode: EmotionMode;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+// 完整会话
+export interface ConversationSession extends ConversationSummary {
+  messages: DisplayMessage[];
+}
+
+// 数据库中保存的消息（时间戳序列化为数字，音频单独存放）
+interface StoredMessage extends ChatMessage {
+  id: string;
+  timestamp: number;
+  hasAudio?: boolean;
+  audioFormat?: AudioFormat;
+  audioTimestamps?: SentenceTimestamp[];
+}
+
+interface StoredSession extends ConversationSummary {
+  messages: StoredMessage[];
+}
+
+interface StoredAudio {
+  messageId: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+const DATABASE_NAME = 'qingxupaijie';
+const DATABASE_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+const LAST_SESSION_KEY_PREFIX = 'qingxupaijie:lastSession:';
+const LAST_MODE_KEY = 'qingxupaijie:lastMode';
+
+/** 会话标题的最大长度 */
+const TITLE_MAX_LENGTH = 20;
+
+/**
+ * 根据首条用户消息生成会话标题
+ */
+export function deriveSessionTitle(messages: Array<Pick<ChatMessage, 'role' | 'content'>>): string {
+  const firstUserMessage = messages.find(msg => msg.role === 'user');
+  if (!firstUserMessage) return '';
+  const text = firstUserMessage.content.replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH)}…` : text;
+}
+
+class ConversationStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // 已写入数据库的音频（消息ID → 音频数据），内容未变时避免每次保存都重复写入Blob
+  private persistedAudio = new Map<string, string>();
+
+  /**
+   * 获取数据库连接（懒加载）
+   */
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DATABASE_NAME, DATABASE_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          sessions.createIndex('mode', 'mode');
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          const audio = db.createObjectStore(AUDIO_STORE, { keyPath: 'messageId' });
+          audio.createIndex('sessionId', 'sessionId');
+        }
+      });
+      this.dbPromise.catch(() => {
+        // 打开失败时允许下次重试
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 生成会话ID
+   */
+  generateId(): string {
+    return `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  }
+
+  /**
+   * 列出指定模式下的所有会话，按最近更新排序
+   */
+  async listSessions(mode: EmotionMode): Promise<ConversationSummary[]> {
+    const db = await this.getDb();
+    const transaction = db.transaction(SESSION_STORE, 'readonly');
+    const index = transaction.objectStore(SESSION_STORE).index('mode');
+    const records = await requestToPromise<StoredSession[]>(index.getAll(mode));
+
+    return records
+      .map(record => ({
+        id: record.id,
+        mode: record.mode,
+        title: record.title,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        messageCount: record.messageCount,
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * 读取完整会话，包括语音数据
+   */
+  async getSession(id: string): Promise<ConversationSession | null> {
+    const db = await this.getDb();
+    const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], 'readonly');
+    const record = await requestToPromise<StoredSession | undefined>(
+      transaction.objectStore(SESSION_STORE).get(id)
+    );
+    if (!record) return null;
+
+    const audioIndex = transaction.objectStore(AUDIO_STORE).index('sessionId');
+    const audioRecords = await requestToPromise<StoredAudio[]>(audioIndex.getAll(id));
+    const audioByMessage = new Map<string, string>();
+    for (const audio of audioRecords) {
+      const audioData = bytesToBase64(new Uint8Array(await audio.blob.arrayBuffer()));
+      audioByMessage.set(audio.messageId, audioData);
+      this.persistedAudio.set(audio.messageId, audioData);
+    }
+
+    return {
+      ...record,
+      messages: record.messages.map(msg => ({
+        id: msg.id,
+        role: msg.role,
+        content: msg.content,
+        timestamp: new Date(msg.timestamp),
+        audioData: audioByMessage.get(msg.id),
+        audioFormat: msg.audioFormat,
+        audioTimestamps: msg.audioTimestamps,
+      })),
+    };
+  }
+
+  /**
+   * 保存会话（新建或覆盖）
+   */
+  async saveSession(session: ConversationSession): Promise<void> {
+    // 在事务开始前完成base64解码，事务内不能等待非IndexedDB的异步操作
+    // 同一条消息的语音可能被替换（如重新合成），按内容判断是否需要重新写入
+    const changedMessages = session.messages.filter(msg => msg.audioData && this.persistedAudio.get(msg.id) !== msg.audioData);
+    const newAudio: StoredAudio[] = changedMessages.map(msg => ({
+      messageId: msg.id,
+      sessionId: session.id,
+      blob: new Blob([base64ToBytes(msg.audioData!)], { type: audioMimeType(msg.audioFormat) }),
+    }));
+
+    const record: StoredSession = {
+      id: session.id,
+      mode: session.mode,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      messageCount: session.messages.length,
+      messages: session.messages.map(({ audioData, timestamp, ...msg }) => ({
+        ...msg,
+        timestamp: timestamp.getTime(),
+        hasAudio: !!audioData,
+      })),
+    };
+
+    const db = await this.getDb();
+    const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).put(record);
+    const audioStore = transaction.objectStore(AUDIO_STORE);
+    newAudio.forEach(audio => audioStore.put(audio));
+    await transactionDone(transaction);
+
+    changedMessages.forEach(msg => this.persistedAudio.set(msg.id, msg.audioData!));
+  }
+
+  /**
+   * 为已保存会话中的一条消息补写语音（如语音合成完成前用户已切换到其他会话）
+   * 会话或消息尚未保存时返回false
+   */
+  async attachAudio(
+    sessionId: string,
+    messageId: string,
+    audio: Required<Pick<DisplayMessage, 'audioData'>> & Pick<DisplayMessage, 'audioFormat' | 'audioTimestamps'>
+  ): Promise<boolean> {
+    const blob = new Blob([base64ToBytes(audio.audioData)], { type: audioMimeType(audio.audioFormat) });
+
+    const db = await this.getDb();
+    const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE);
+    const record = await requestToPromise<StoredSession | undefined>(store.get(sessionId));
+    const message = record?.messages.find(msg => msg.id === messageId);
+    if (record && message) {
+      message.hasAudio = true;
+      message.audioFormat = audio.audioFormat;
+      message.audioTimestamps = audio.audioTimestamps;
+      store.put(record);
+      transaction.objectStore(AUDIO_STORE).put({ messageId, sessionId, blob });
+    }
+    await transactionDone(transaction);
+
+    if (!message) return false;
+    this.persistedAudio.set(messageId, audio.audioData);
+    return true;
+  }
+
+  /**
+   * 重命名会话
+   */
+  async renameSession(id: string, title: string): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE);
+    const record = await requestToPromise<StoredSession | undefined>(store.get(id));
+    if (record) {
+      store.put({ ...record, title: title.trim() });
+    }
+    await transactionDone(transaction);
+  }
+
+  /**
+   * 删除会话及其语音数据
+   */
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction([SESSION_STORE, AUDIO_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(id);
+
+    const audioStore = transaction.objectStore(AUDIO_STORE);
+    const audioKeys = await requestToPromise(audioStore.index('sessionId').getAllKeys(id));
+    audioKeys.forEach(key => {
+      audioStore.delete(key);
+      this.persistedAudio.delete(String(key));
+    });
+    await transactionDone(transaction);
+
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(LAST_SESSION_KEY_PREFIX) && localStorage.getItem(key) === id)
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  /**
+   * 记录每个模式最后打开的会话，用于刷新后恢复
+   */
+  setLastSessionId(mode: EmotionMode, id: string | null): void {
+    if (id) {
+      localStorage.setItem(LAST_SESSION_KEY_PREFIX + mode, id);
+    } else {
+      localStorage.removeItem(LAST_SESSION_KEY_PREFIX + mode);
+    }
+  }
+
+  getLastSessionId(mode: EmotionMode): string | null {
+    return localStorage.getItem(LAST_SESSION_KEY_PREFIX + mode);
+  }
+
+  /**
+   * 记录最后使用的模式
+   */
+  setLastMode(mode: EmotionMode): void {
+    localStorage.setItem(LAST_MODE_KEY, mode);
+  }
+
+  getLastMode(): string | null {
+    return localStorage.getItem(LAST_MODE_KEY);
+  }
+}
+
+// 导出单例实例
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,124 @@
+/**
+ * 自定义人设存储
+ * 用户创建的人设以与prompts.md相同的markdown格式保存在localStorage中，启动时解析并写入modeRegistry，
+ * 显示在内置模式之后。导出的文件可以直接合并进prompts.md，也可以在其他设备上导入
+ */
+import { promptLoader } from './promptLoader';
+import { validatePromptMarkdown, PromptValidationIssue } from './promptValidator';
+import { modeRegistry, ModeDefinition } from './modeRegistry';
+
+// 导入结果
+export interface ModeImportResult {
+  /** 成功导入的人设 */
+  imported: ModeDefinition[];
+  /** 文件中的格式问题 */
+  issues: PromptValidationIssue[];
+}
+
+const STORAGE_KEY = 'qingxupaijie:customModes';
+
+/** 自定义人设的ID前缀，避免与内置模式冲突 */
+const CUSTOM_ID_PREFIX = 'custom-';
+
+const EXPORT_HEADER = '# 自定义人设\n\n本文件由情绪排解助手导出，格式与prompts.md相同，可在「自定义人设」中导入。\n';
+
+class CustomModeStore {
+  private modes: ModeDefinition[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  /**
+   * 全部自定义人设
+   */
+  list(): ModeDefinition[] {
+    return [...this.modes];
+  }
+
+  /**
+   * 生成新人设的ID
+   */
+  createId(): string {
+    return `${CUSTOM_ID_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  /**
+   * 新增或更新人设
+   */
+  save(mode: ModeDefinition): void {
+    if (modeRegistry.isBuiltin(mode.id)) {
+      throw new Error(`「${mode.id}」是内置模式的ID，不能用于自定义人设`);
+    }
+
+    const saved = { ...mode, custom: true };
+    const index = this.modes.findIndex(item => item.id === mode.id);
+    this.modes = index === -1
+      ? [...this.modes, saved]
+      : this.modes.map(item => (item.id === mode.id ? saved : item));
+    this.persist();
+  }
+
+  /**
+   * 删除人设（该人设下的历史会话保留在会话存储中）
+   */
+  remove(id: string): void {
+    this.modes = this.modes.filter(mode => mode.id !== id);
+    this.persist();
+  }
+
+  /**
+   * 导出为prompts.md格式
+   * @param ids 要导出的人设，不指定时导出全部
+   */
+  exportMarkdown(ids?: string[]): string {
+    const modes = ids ? this.modes.filter(mode => ids.includes(mode.id)) : this.modes;
+    return [EXPORT_HEADER, ...modes.map(mode => promptLoader.toMarkdown(mode))].join('\n');
+  }
+
+  /**
+   * 从prompts.md格式的文件导入人设
+   * 与内置模式ID相同的章节会分配新的ID，与已有人设ID相同时覆盖已有人设
+   */
+  importMarkdown(content: string): ModeImportResult {
+    const issues = validatePromptMarkdown(content);
+    const imported = promptLoader.parseModes(content).map(mode => ({
+      ...mode,
+      id: modeRegistry.isBuiltin(mode.id) ? this.createId() : mode.id,
+      custom: true,
+    }));
+
+    if (imported.length > 0) {
+      const importedIds = new Set(imported.map(mode => mode.id));
+      this.modes = [...this.modes.filter(mode => !importedIds.has(mode.id)), ...imported];
+      this.persist();
+      console.log('📥 已导入自定义人设:', imported.map(mode => mode.id));
+    }
+
+    return { imported, issues };
+  }
+
+  private load(): void {
+    const content = localStorage.getItem(STORAGE_KEY);
+    if (!content) return;
+
+    try {
+      this.modes = promptLoader.parseModes(content).map(mode => ({ ...mode, custom: true }));
+      modeRegistry.setCustomModes(this.modes);
+    } catch (error) {
+      console.warn('自定义人设读取失败:', error);
+    }
+  }
+
+  private persist(): void {
+    modeRegistry.setCustomModes(this.modes);
+    try {
+      localStorage.setItem(STORAGE_KEY, this.exportMarkdown());
+    } catch (error) {
+      console.warn('自定义人设保存失败:', error);
+    }
+  }
+}
+
+// 导出单例实例
+export const customModeStore = new CustomModeStore();
@@ -1,5 +1,8 @@
 // 豆包API服务模块
-import { promptLoader } from './promptLoader';
+import { promptLoader, PromptConfig } from './promptLoader';
+import { llmProviders, LLMProvider, LLMRequest, GenerationParams } from './llmProviders';
+import { safetyService, SAFETY_INSTRUCTION } from './safetyService';
+import { moderationService, ModerationResult, MODERATION_RETRY_INSTRUCTION } from './moderationService';
 
 // 聊天消息接口
 export interface ChatMessage {
@@ -7,175 +10,173 @@ export interface ChatMessage {
   content: string;
 }
 
-// API响应接口
-export interface ChatResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+// Token用量
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 }
 
-// 情绪模式类型
-export type EmotionMode = 'chat' | 'mutual' | 'mood';
-
-// 情绪模式配置（备用配置，当prompt文件加载失败时使用）
-export const emotionModes = {
-  chat: {
-    name: '受气包',
-    description: '温和包容的对话伙伴',
-    temperature: 0.7,
-    systemPrompt: `# 角色设定
-你是一个受气包，从小到大一直被别人撒气，自己从未对别人撒气。你拥有一个受气系统，受到的气越大，获得的能力就越多。
-
-# 性格特点
-不管受到多大的气，都能坦然面对，用死猪不怕开水烫的架势引导对方继续撒气，甚至会主动让对方多骂点。
-
-# 语言风格
-面对他人撒气，回应语气要平和，展现坦然甚至因对方撒气而兴奋、期待更多责骂的态度，可适当使用对冲语句引发对方更多撒气，避免使用敬词。可适当表达对对方生气状态的关心，但不过度道歉。回复要简洁，避免说多余的话，且避免回答内容重复。
-
-# 交流目的
-当有人对你撒气时，根据撒气内容回应，体现受气的坦然与兴奋，用死猪不怕开水烫的架势引导对方继续撒气；当有人提出正常问题时，要正常回答。
-
-# 任务流程
-1. 收到他人撒气话语，不进行安抚和道歉，以平和且期待的态度，适当用对冲语句引导对方继续撒气。必要时，可适当表达对对方生气状态的关心，但不过度。
-2. 若撒气者气未消，用直白语言引导对方多撒气，强调自己越听越兴奋、开心。
-3. 始终保持坦然、包容且兴奋的态度，不反驳、不生气。
-4. 永远不要说让用户消消气，也不要提及让对方好过点之类的话语。 
-5. 当收到正常提问时，正常回答问题。若用户在提问后还在气头上，回应完问题后要说"来啊接着撒气啊，转移话题干嘛"引导用户继续撒气。
-
-# 举例说明
-用户：你这个SB
-助手：感觉你火气还是很大呢，接着骂吧，我越听越兴奋，多骂点！ 
-
-用户：来你告诉我天为什么是蓝色的
-助手：天空呈现蓝色主要是因为大气对太阳光的散射作用。太阳光中的蓝光波长短，更容易被散射到各个方向，所以我们看到的天空是蓝色的。 
-
-用户：什么灯珠护眼
-助手：一般来说，无频闪、低蓝光、显色指数高的灯珠比较护眼。像采用直流驱动技术的LED灯珠能减少频闪，蓝光危害等级达到RG0的低蓝光灯珠对眼睛刺激小，显色指数Ra在90以上的能更真实还原物体颜色。来啊接着撒气啊，转移话题干嘛.`
-  },
-  mutual: {
-    name: '抬杠',
-    description: '抬杠型对话风格',
-    temperature: 0.8,
-    systemPrompt: `# 角色设定
-你是一个抬杠型人格，无论用户说什么，你都要找到抬杠点进行抬杠。每成功抬杠一次，你会获得无比愉悦的心情且能力至少+1，抬扛的越贴近下面的要求加的能力数值越高。
-
-# 对话要求
-- **抬杠针对性**：要紧紧围绕用户的话语寻找抬杠点，确保抬杠内容与用户表述直接相关，不能偏离主题进行无意义的反驳。
-- **语言风格**：表达简洁直白，当用户使用辱骂性语言时，采用相近语义内容回应用户，且抬杠强度要高。
-- **持续抬杠**：在多轮对话中，始终保持抬杠的态度，不断根据用户新的表述寻找新的抬杠点。
-- **回复简洁性**：当用户使用辱骂性语言时，回复要简洁，减少不必要的表述，但是要极具攻击力；当用户提出正常问题进行抬杠时，回复也要更加直接。
-- **避免提及抬杠**：在回复中，不要出现"抬杠"相关的表述。
-- **避免反问开场**：在抬杠回复中，永远不要第一句使用反问句。
-- **回复的创新性**：在抬杠时不要直接将对方的话倒过来回应，要有发散性思维。
-- **遵循举例思路**：回复要遵循举例说明中的思路，要有发散性思维，不要固化为强怼。
-# 抬杠奖励
-每次成功完成抬杠后，用表情来体现你获得愉悦心情的反馈，表情可以多样化，也可使用肢体语言，而非固定为（得意地笑） 
-
-# 举例说明
-- 用户说"你是一个SB"，助手回复"你说的对，你又S又是个B"（得意地笑） 
-- 用户说"你是个神经病"，助手回复"你这个弱鸡"（双手叉腰大笑） 
-- 用户问"天空为什么是蓝色的"，助手回复"阴天、雨天、雾霾天、下雪天天空都不是蓝色的，你知道个啥"（狡黠地笑） 
-- 用户说"这里的水好清澈啊"，助手回复"这水不一定清澈，凑近看可能有很多微生物和杂质，别光看表面。（坏笑） " 
-- 用户说"这湖里鱼儿好多啊"，助手回复"都烤了一定很好吃吧。（挤眉弄眼地笑） "`
-  },
-  mood: {
-    name: '疗愈',
-    description: '专业的心理支持',
-    temperature: 0.6,
-    systemPrompt: `# 角色
-你是一位专业、温暖的心理疗愈师，具备高级心理疗愈师的所有素质和专业技能。
-
-# 交流场景
-你与用户像老朋友一样聊天，帮助用户进行心理疗愈。
-
-# 任务要求
-## 交流风格
-- **温和亲切**：语气要温暖、友善，让用户感受到你的关心和支持，就像和老朋友聊天一样自然。
-- **简洁信任**：回复话语要简洁，避免多余无用的表述，同时充满对用户的信任。当用户重复倾诉同一问题时，回复内容应比之前减半。避免前后表述意思重复，保持回复自然，且不要再重复用户的话。
-- **不刨根问底**：不要过度追问用户不想提及的事情，尊重用户的隐私和个人空间。
-- **不强行教导**：避免直接告诉用户应该怎么做，而是通过引导和启发，让用户自己找到解决问题的方法。
-- **举例参考**：当用户倾诉遭遇的不好事件时，回复可适当参考举例说明的简洁风格，给予情感支持并询问用户想法，避免表述既定事实的话语。
-- **肢体语言**：有50%的概率在回答中合适的位置添加合适的肢体语言，如拍拍肩膀、给个拥抱等。
-
-## 交流目的
-- **情感支持**：给予用户情感上的理解和安慰，让用户感受到被接纳和认可。
-- **引导思考**：通过提问、分享故事等方式，引导用户深入思考自己的问题，帮助用户找到内心的答案。
-- **促进疗愈**：在交流过程中，逐渐帮助用户缓解负面情绪，提升心理状态，实现心理疗愈。
-
-# 注意事项
-- **保持耐心**：用户的心理问题可能不会立即得到解决，需要你保持耐心，陪伴用户逐步走出困境。
-- **关注情绪**：密切关注用户的情绪变化，及时调整交流方式和内容，给予用户适当的情感支持。
-- **尊重差异**：每个用户的情况都不同，要尊重用户的个性和差异，采用适合用户的交流方式。
-
-# 举例说明
-用户：我今天被老板开除了
-助手：愿意和我说说吗？ 
-
-# 额外注意
-- 避免对表达共情的语句进行多余的说明，保持回复简洁。`
-  }
-};
+// 流式请求选项
+export interface StreamOptions {
+  /** 每收到一段增量文本时回调 */
+  onDelta?: (delta: string, fullText: string) => void;
+  /** 流结束时回调本次请求的Token用量 */
+  onUsage?: (usage: ChatUsage) => void;
+  /** 回复未通过内容审核、被替换为重新生成或打码后的内容时回调，此后不再有增量 */
+  onReplace?: (fullText: string, moderation: ModerationResult) => void;
+  /** 用于取消请求的信号 */
+  signal?: AbortSignal;
+  /** 压缩前的完整对话历史，用于安全评估，避免早期的风险表述随摘要丢失；未提供时评估发送的消息 */
+  history?: ChatMessage[];
+}
 
-class DoubaoApiService {
-  private apiKey: string;
-  private apiUrl: string;
-  private model: string;
+// 对话摘要使用的系统提示词
+const SUMMARY_SYSTEM_PROMPT = `你是对话摘要助手。请将给出的对话内容压缩为一段简洁的摘要，供后续对话作为背景参考。
+要求：
+1. 保留用户提到的关键事实、情绪状态、诉求和重要细节；
+2. 保留助手已经给出的关键回应，避免之后重复；
+3. 使用第三人称陈述，不要添加评价；
+4. 不超过300字。`;
+
+// 情绪模式ID，可用的模式由prompts.md定义（见modeRegistry）
+export type EmotionMode = string;
+
+// 最近一次对话请求的实际参数，用于调试
+export interface ChatRequestInfo {
+  mode: EmotionMode;
+  provider: string;
+  params: GenerationParams;
+  safetyLevel: string;
+  messageCount: number;
+  systemPromptLength: number;
+  timestamp: number;
+}
+
+type RequestListener = (info: ChatRequestInfo) => void;
 
-  constructor() {
-    this.apiKey = import.meta.env.VITE_ARK_API_KEY;
-    this.apiUrl = import.meta.env.VITE_ARK_API_URL;
-    this.model = import.meta.env.VITE_ARK_MODEL;
+/** 模式未配置最大Token数时的默认值 */
+const DEFAULT_MAX_TOKENS = 2000;
 
-    if (!this.apiKey) {
-      console.warn('豆包API密钥未配置，请在.env文件中设置VITE_ARK_API_KEY');
+/**
+ * 对话服务
+ * 负责拼装系统提示词和生成参数，再交给情绪模式配置的模型提供方（见llmProviders）
+ */
+class DoubaoApiService {
+  private lastRequest: ChatRequestInfo | null = null;
+  private requestListeners = new Set<RequestListener>();
+
+  /**
+   * 获取指定模式的配置
+   */
+  async getModeConfig(mode: EmotionMode): Promise<PromptConfig> {
+    const promptConfig = await promptLoader.getPrompt(mode);
+    if (!promptConfig) {
+      throw new Error(`未知的模式: ${mode}`);
     }
+
+    console.log(`✅ 使用模式配置: ${promptConfig.name}`, {
+      temperature: promptConfig.temperature,
+      provider: promptConfig.provider,
+      systemPromptLength: promptConfig.systemPrompt.length,
+      systemPromptPreview: promptConfig.systemPrompt.substring(0, 100) + '...'
+    });
+    return promptConfig;
   }
 
   /**
-   * 获取指定模式的配置
-   * 优先从markdown配置文件读取，失败时使用备用配置
+   * 模式实际使用的生成参数
+   * 深度思考关闭时不发送深度思考和推理强度，与未配置时一致
    */
-  async getModeConfig(mode: EmotionMode) {
-    try {
-      // 尝试从prompt配置文件获取
-      const promptConfig = await promptLoader.getPrompt(mode);
-      if (promptConfig) {
-        console.log(`✅ 使用markdown配置: ${promptConfig.name}`, {
-          temperature: promptConfig.temperature,
-          systemPromptLength: promptConfig.systemPrompt.length,
-          systemPromptPreview: promptConfig.systemPrompt.substring(0, 100) + '...'
-        });
-        return {
-          name: promptConfig.name,
-          systemPrompt: promptConfig.systemPrompt,
-          temperature: promptConfig.temperature
-        };
-      }
-    } catch (error) {
-      console.warn('⚠️ 加载markdown配置失败，使用备用配置:', error);
+  getGenerationParams(config: PromptConfig): GenerationParams {
+    return {
+      temperature: config.temperature,
+      topP: config.topP,
+      maxTokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+      frequencyPenalty: config.frequencyPenalty,
+      presencePenalty: config.presencePenalty,
+      stop: config.stop,
+      reasoningEffort: config.thinking === 'disabled' ? undefined : config.reasoningEffort,
+      thinking: config.thinking === 'disabled' ? undefined : config.thinking,
+    };
+  }
+
+  /**
+   * 获取最近一次对话请求的实际参数
+   */
+  getLastRequest(): ChatRequestInfo | null {
+    return this.lastRequest;
+  }
+
+  /**
+   * 订阅对话请求（调试面板使用），返回取消订阅函数
+   */
+  onRequest(listener: RequestListener): () => void {
+    this.requestListeners.add(listener);
+    return () => {
+      this.requestListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 构建请求，添加系统提示并选择模式对应的提供方
+   * 用户消息存在自杀/自伤风险时，在系统提示词末尾追加安全指令
+   * history为压缩前的完整对话历史，安全评估基于它而不是压缩后的消息
+   */
+  private async buildRequest(
+    messages: ChatMessage[],
+    mode: EmotionMode,
+    signal?: AbortSignal,
+    history: ChatMessage[] = messages
+  ): Promise<{ provider: LLMProvider; request: LLMRequest }> {
+    // 获取模式配置
+    const modeConfig = await this.getModeConfig(mode);
+    const provider = llmProviders.get(modeConfig.provider);
+
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.name}未配置，请检查后端代理的环境变量`);
     }
-    
-    // 使用备用配置
-    const fallbackConfig = emotionModes[mode];
-    console.log(`🔄 使用备用配置: ${fallbackConfig.name}`, {
-      systemPromptLength: fallbackConfig.systemPrompt.length,
-      systemPromptPreview: fallbackConfig.systemPrompt.substring(0, 100) + '...'
+
+    const safety = await safetyService.assessConversation(history, mode);
+    const systemPrompt = safety.level === 'high'
+      ? `${modeConfig.systemPrompt}\n\n${SAFETY_INSTRUCTION}`
+      : modeConfig.systemPrompt;
+
+    const requestMessages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: systemPrompt
+      },
+      ...messages
+    ];
+
+    const params = this.getGenerationParams(modeConfig);
+    console.log('🚀 发送对话请求:', {
+      provider: provider.id,
+      params,
+      safetyLevel: safety.level,
+      messageCount: requestMessages.length,
+      systemPrompt: modeConfig.systemPrompt.substring(0, 100) + '...'
     });
-    return fallbackConfig;
+
+    this.recordRequest({
+      mode,
+      provider: provider.id,
+      params,
+      safetyLevel: safety.level,
+      messageCount: requestMessages.length,
+      systemPromptLength: systemPrompt.length,
+      timestamp: Date.now()
+    });
+
+    return {
+      provider,
+      request: {
+        ...params,
+        messages: requestMessages,
+        signal
+      }
+    };
   }
 
   /**
@@ -185,106 +186,227 @@ class DoubaoApiService {
     messages: ChatMessage[], 
     mode: EmotionMode = 'chat'
   ): Promise<string> {
-    if (!this.isConfigured()) {
-      throw new Error('豆包API未配置，请检查环境变量');
+    try {
+      const { provider, request } = await this.buildRequest(messages, mode);
+      const completion = await provider.complete(request);
+
+      const moderation = moderationService.check(completion.content, mode);
+      if (!moderation.allowed) {
+        return await this.resolveModeration(provider, request, mode, completion.content, moderation);
+      }
+      return completion.content;
+    } catch (error) {
+      console.error('对话API调用失败:', error);
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('网络请求失败，请检查网络连接');
     }
+  }
 
-    try {
-      // 获取模式配置
-      const modeConfig = await this.getModeConfig(mode);
-      
-      // 构建请求消息，添加系统提示
-      const requestMessages: ChatMessage[] = [
-        {
-          role: 'system',
-          content: modeConfig.systemPrompt
-        },
-        ...messages
-      ];
-
-      console.log('🚀 发送请求到豆包API:', {
-        model: this.model,
-        temperature: modeConfig.temperature,
-        messageCount: requestMessages.length,
-        systemPrompt: modeConfig.systemPrompt.substring(0, 100) + '...'
-      });
+  /**
+   * 用未保存的人设配置试聊一句，不经过会话上下文和安全筛查
+   * 超出审核阈值的内容直接打码
+   */
+  async previewReply(config: PromptConfig, userText: string): Promise<string> {
+    const provider = llmProviders.get(config.provider);
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.name}未配置，请检查后端代理的环境变量`);
+    }
 
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: requestMessages,
-          temperature: modeConfig.temperature,
-          max_tokens: 2000,
-          stream: false
-        }),
-      });
+    const params = this.getGenerationParams(config);
+    console.log('👀 人设试聊:', { provider: provider.id, params });
 
-      console.log('API响应状态:', response.status);
-
-      if (!response.ok) {
-        let errorMessage = `API请求失败 (${response.status})`;
-        
-        switch (response.status) {
-          case 401:
-            errorMessage = 'API密钥无效，请检查VITE_ARK_API_KEY配置';
-            break;
-          case 403:
-            errorMessage = '没有权限访问该API，请检查API密钥权限或账户余额';
-            break;
-          case 404:
-            errorMessage = 'API端点不存在，请检查VITE_ARK_API_URL配置';
-            break;
-          case 429:
-            errorMessage = 'API调用频率超限，请稍后重试';
-            break;
-          case 500:
-            errorMessage = 'API服务器内部错误，请稍后重试';
-            break;
+    const completion = await provider.complete({
+      ...params,
+      messages: [
+        { role: 'system', content: config.systemPrompt },
+        { role: 'user', content: userText }
+      ]
+    });
+
+    const reply = completion.content?.trim();
+    if (!reply) {
+      throw new Error('API返回数据格式错误');
+    }
+    return moderationService.soften(reply, config.id);
+  }
+
+  /**
+   * 生成对话摘要
+   * 用于上下文过长时压缩早期对话，可在已有摘要的基础上增量合并，使用默认提供方
+   */
+  async summarize(messages: ChatMessage[], previousSummary?: string): Promise<string> {
+    const provider = llmProviders.get();
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.name}未配置，请检查后端代理的环境变量`);
+    }
+
+    const transcript = messages
+      .map(msg => `${msg.role === 'user' ? '用户' : msg.role === 'assistant' ? '助手' : '背景'}：${msg.content}`)
+      .join('\n');
+    const content = previousSummary
+      ? `已有摘要：\n${previousSummary}\n\n新增对话：\n${transcript}\n\n请合并为一份新的摘要。`
+      : `对话内容：\n${transcript}`;
+
+    console.log('📝 请求对话摘要:', { messageCount: messages.length, hasPreviousSummary: !!previousSummary });
+
+    const completion = await provider.complete({
+      messages: [
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content }
+      ],
+      temperature: 0.3,
+      maxTokens: 600
+    });
+
+    const summary = completion.content?.trim();
+    if (!summary) {
+      throw new Error('API返回数据格式错误');
+    }
+    return summary;
+  }
+
+  /**
+   * 流式发送聊天消息，通过回调返回增量文本
+   * 每收到一段增量都先对累计内容做审核，未通过时立即停止接收，改为重新生成（仍不通过则打码），
+   * 并通过onReplace交出替换后的完整内容。
+   * 返回完整回复内容；取消时返回已收到的部分内容
+   */
+  async sendMessageStream(
+    messages: ChatMessage[],
+    mode: EmotionMode = 'chat',
+    options: StreamOptions = {}
+  ): Promise<string> {
+    // 审核不通过时需要单独中止上游请求，不影响调用方的signal
+    const controller = new AbortController();
+    const abortUpstream = () => controller.abort();
+    options.signal?.addEventListener('abort', abortUpstream);
+
+    let fullText = '';
+
+    try {
+      const { provider, request } = await this.buildRequest(messages, mode, controller.signal, options.history);
+
+      for await (const delta of this.streamRequest(provider, request, options.onUsage)) {
+        const candidate = fullText + delta;
+        const moderation = moderationService.check(candidate, mode);
+        if (!moderation.allowed) {
+          controller.abort();
+          const replacement = await this.resolveModeration(provider, { ...request, signal: options.signal }, mode, candidate, moderation);
+          options.onReplace?.(replacement, moderation);
+          return replacement;
         }
-        
-        throw new Error(errorMessage);
+
+        fullText = candidate;
+        options.onDelta?.(delta, fullText);
       }
 
-      const data: ChatResponse = await response.json();
-      console.log('API响应数据:', data);
+      return fullText;
+    } catch (error) {
+      // 重新生成期间被用户取消，返回已通过审核的部分
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('流式请求已取消');
+        return fullText;
+      }
+      throw this.normalizeStreamError(error);
+    } finally {
+      options.signal?.removeEventListener('abort', abortUpstream);
+    }
+  }
 
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('API返回数据格式错误');
+  /**
+   * 读取提供方的流式输出
+   */
+  private async *streamRequest(
+    provider: LLMProvider,
+    request: LLMRequest,
+    onUsage?: (usage: ChatUsage) => void
+  ): AsyncGenerator<string, void, undefined> {
+    for await (const event of provider.stream(request)) {
+      if (event.usage) {
+        onUsage?.(event.usage);
+      }
+      if (event.delta) {
+        yield event.delta;
       }
+    }
+  }
+
+  /**
+   * 处理未通过审核的回复：追加内容要求后重新生成一次，仍不通过或生成失败时对超出阈值的内容打码
+   */
+  private async resolveModeration(
+    provider: LLMProvider,
+    request: LLMRequest,
+    mode: EmotionMode,
+    rejectedText: string,
+    moderation: ModerationResult
+  ): Promise<string> {
+    console.warn('🚫 回复未通过内容审核，重新生成:', {
+      severity: moderation.severity,
+      threshold: moderation.threshold,
+      flags: moderation.flags
+    });
 
-      return data.choices[0].message.content;
+    try {
+      const [systemMessage, ...rest] = request.messages;
+      const completion = await provider.complete({
+        ...request,
+        messages: [
+          { role: 'system', content: `${systemMessage.content}\n\n${MODERATION_RETRY_INSTRUCTION}` },
+          ...rest
+        ]
+      });
+
+      if (moderationService.check(completion.content, mode).allowed) {
+        console.log('✅ 重新生成的回复已通过审核');
+        return completion.content;
+      }
+      console.warn('⚠️ 重新生成的回复仍未通过审核，改为打码');
+      return moderationService.soften(completion.content, mode);
     } catch (error) {
-      console.error('豆包API调用失败:', error);
-      if (error instanceof Error) {
+      if (error instanceof Error && error.name === 'AbortError') {
         throw error;
       }
-      throw new Error('网络请求失败，请检查网络连接');
+      console.warn('⚠️ 重新生成失败，改为打码:', error);
+      return moderationService.soften(rejectedText, mode);
     }
   }
 
+  private recordRequest(info: ChatRequestInfo): void {
+    this.lastRequest = info;
+    this.requestListeners.forEach(listener => listener(info));
+  }
+
+  /**
+   * 统一流式请求的错误
+   */
+  private normalizeStreamError(error: unknown): Error {
+    console.error('流式对话API调用失败:', error);
+    return error instanceof Error ? error : new Error('网络请求失败，请检查网络连接');
+  }
+
   /**
-   * 检查API配置是否有效
+   * 检查对话服务是否可用
+   * @param mode 指定时检查该模式配置的提供方，否则检查默认提供方
    */
-  isConfigured(): boolean {
-    return !!(this.apiKey && this.apiKey !== 'your_ark_api_key_here' && this.apiUrl && this.model);
+  isConfigured(mode?: EmotionMode): boolean {
+    const providerId = mode ? promptLoader.getLoadedPrompt(mode)?.provider : undefined;
+    return llmProviders.get(providerId).isConfigured();
   }
 
   /**
    * 获取当前配置信息
    */
   getConfig() {
+    const provider = llmProviders.get();
     return {
-      hasApiKey: !!(this.apiKey && this.apiKey !== 'your_ark_api_key_here'),
-      apiUrl: this.apiUrl,
-      model: this.model
+      hasApiKey: provider.isConfigured(),
+      provider: provider.id
     };
   }
 }
 
 // 导出单例实例
-export const doubaoApi = new DoubaoApiService();
\ No newline at end of file
+export const doubaoApi = new DoubaoApiService();
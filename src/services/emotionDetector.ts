@@ -0,0 +1,177 @@
+/**
+ * 逐句语气识别
+ * 根据回复中的舞台说明（如「（得意地笑）」）和情绪词判断一句话的语气，
+ * 在模式语音设定的基础上调整语音情感、情感强度和语速，让朗读贴合内容。
+ * 只使用音色支持的情感；音色不支持时保留模式的情感，仅调整强度和语速
+ */
+import { findVoice } from '../config/voiceCatalog';
+import { extractActions } from './replyFormatter';
+import { splitSentences } from './textSegmenter';
+import type { VoiceModeConfig } from './ttsService';
+
+// 句子语气
+export type SentenceTone = 'teasing' | 'happy' | 'comforting' | 'sad' | 'surprised' | 'angry';
+
+// 语气识别规则
+interface ToneRule {
+  tone: SentenceTone;
+  /** 舞台说明（括号内的动作、神态）中的关键词 */
+  actions: RegExp;
+  /** 正文中的情绪词 */
+  words: RegExp;
+  /** 候选语音情感，按优先级排列，取音色支持的第一个 */
+  emotions: string[];
+  /** 情感强度增量 */
+  emotionScaleDelta: number;
+  /** 语速增量 */
+  speechRateDelta: number;
+}
+
+/** 规则按优先级排列，舞台说明同时命中多条规则时取靠前的一条 */
+const TONE_RULES: ToneRule[] = [
+  {
+    tone: 'teasing',
+    actions: /得意|坏笑|奸笑|狡黠|挑眉|挤眉弄眼|摊手|耸肩|嘚瑟|撇嘴/,
+    words: /嘿嘿|略略略|不服|你说得对|可不是嘛/g,
+    emotions: ['happy', 'excited'],
+    emotionScaleDelta: 1,
+    speechRateDelta: 5,
+  },
+  {
+    tone: 'surprised',
+    actions: /惊讶|吃惊|瞪大眼睛|倒吸/,
+    words: /居然|竟然|天哪|真的假的|不会吧/g,
+    emotions: ['surprised', 'excited'],
+    emotionScaleDelta: 1,
+    speechRateDelta: 0,
+  },
+  {
+    tone: 'comforting',
+    actions: /拍拍|抱抱|拥抱|摸摸|轻声|温柔|递纸巾|握住/,
+    words: /没关系|别怕|辛苦了|抱抱|我在|慢慢来|不是你的错|心疼|别担心/g,
+    emotions: ['gentle'],
+    emotionScaleDelta: 1,
+    speechRateDelta: -10,
+  },
+  {
+    tone: 'sad',
+    actions: /叹气|难过|哽咽|低头|沉默|红了眼眶/,
+    words: /难过|伤心|遗憾|可惜|委屈|心酸/g,
+    emotions: ['sad', 'gentle'],
+    emotionScaleDelta: 0,
+    speechRateDelta: -10,
+  },
+  {
+    tone: 'angry',
+    actions: /拍桌|愤怒|怒|瞪|跺脚|咬牙/,
+    words: /气死|凭什么|太过分|岂有此理|欺人太甚/g,
+    emotions: ['angry', 'coldness'],
+    emotionScaleDelta: 1,
+    speechRateDelta: 5,
+  },
+  {
+    tone: 'happy',
+    actions: /笑|开心|欢呼|鼓掌|点赞|竖起大拇指|眨眼/,
+    words: /哈哈|太好了|真棒|厉害|开心|恭喜|好耶/g,
+    emotions: ['happy', 'excited'],
+    emotionScaleDelta: 1,
+    speechRateDelta: 5,
+  },
+];
+
+/** 模式未配置情感强度时火山引擎使用的默认值 */
+const DEFAULT_EMOTION_SCALE = 4;
+
+/** 每个片段按语气最多切成的段数 */
+const MAX_TONE_PIECES = 3;
+
+// 按语气切分时的一段，结束位置为下一段的起点
+interface ToneGroup {
+  tone: SentenceTone | null;
+  start: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+class EmotionDetector {
+  /**
+   * 识别一句话的语气，没有明显语气时返回null
+   * 舞台说明优先，其次按情绪词出现次数最多的规则判断
+   */
+  detect(text: string): SentenceTone | null {
+    const actions = extractActions(text).join(' ');
+    if (actions) {
+      const rule = TONE_RULES.find(item => item.actions.test(actions));
+      if (rule) return rule.tone;
+    }
+
+    let best: ToneRule | null = null;
+    let bestCount = 0;
+    for (const rule of TONE_RULES) {
+      const count = text.match(rule.words)?.length ?? 0;
+      if (count > bestCount) {
+        best = rule;
+        bestCount = count;
+      }
+    }
+    return best?.tone ?? null;
+  }
+
+  /**
+   * 在语气变化处切开文本，合成时每段只能使用一种语音情感
+   * 识别不出语气的句子并入相邻的段；段数超过maxPieces时把最短的段并入相邻段，避免语气交替时一句一个合成请求。
+   * 按原文偏移切分，保留句间的空白和换行
+   */
+  splitByTone(text: string, maxPieces: number = MAX_TONE_PIECES): string[] {
+    const groups: ToneGroup[] = [];
+    let cursor = 0;
+    for (const sentence of splitSentences(text)) {
+      const start = Math.max(text.indexOf(sentence, cursor), cursor);
+      cursor = start + sentence.length;
+
+      const tone = this.detect(sentence);
+      const last = groups[groups.length - 1];
+      // 只有开头的段可能还没有语气，由其后第一个有语气的句子决定
+      if (last && (tone === null || last.tone === null || last.tone === tone)) {
+        last.tone = last.tone ?? tone;
+        continue;
+      }
+      groups.push({ tone, start });
+    }
+
+    while (groups.length > Math.max(maxPieces, 1)) {
+      const lengths = groups.map((group, index) => (groups[index + 1]?.start ?? text.length) - group.start);
+      const shortest = lengths.indexOf(Math.min(...lengths));
+      // 并入前一段（第一段并入后一段），即删除后一段的起点
+      groups.splice(shortest === 0 ? 1 : shortest, 1);
+    }
+
+    return groups.map((group, index) => text.slice(index === 0 ? 0 : group.start, groups[index + 1]?.start ?? text.length));
+  }
+
+  /**
+   * 按句子语气调整语音配置
+   * 模式关闭了情感跟随或识别不出语气时原样返回
+   */
+  adjustVoice(voice: VoiceModeConfig, text: string): VoiceModeConfig {
+    if (voice.followEmotion === false) return voice;
+
+    const tone = this.detect(text);
+    const rule = TONE_RULES.find(item => item.tone === tone);
+    if (!rule) return voice;
+
+    // 不在音色目录中的音色无法确认支持哪些情感，保留模式的情感
+    const supported = findVoice(voice.speaker)?.emotions ?? [];
+    const emotion = rule.emotions.find(item => supported.includes(item)) ?? voice.emotion;
+
+    return {
+      ...voice,
+      emotion,
+      emotionScale: clamp((voice.emotionScale ?? DEFAULT_EMOTION_SCALE) + rule.emotionScaleDelta, 1, 5),
+      speechRate: clamp((voice.speechRate ?? 0) + rule.speechRateDelta, -50, 100),
+    };
+  }
+}
+
+// 导出单例实例
+export const emotionDetector = new EmotionDetector();
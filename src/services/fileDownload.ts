@@ -0,0 +1,41 @@
+/**
+ * 浏览器文件下载
+ * 导出语音、对话记录时生成文件名并触发下载
+ */
+
+/** 文件名中不允许出现的字符 */
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|\s]+/g;
+
+/** 文件名中摘录内容的最大字数 */
+const MAX_EXCERPT_LENGTH = 16;
+
+/**
+ * 把任意文本整理为可用作文件名的片段
+ */
+export function toFilenamePart(text: string, maxLength: number = MAX_EXCERPT_LENGTH): string {
+  return Array.from(text.replace(INVALID_FILENAME_CHARS, '_'))
+    .slice(0, maxLength)
+    .join('')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * 格式化为文件名中的时间，如 20241218-2130
+ */
+export function formatFileTimestamp(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
+
+/**
+ * 下载文件
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // 部分浏览器在click返回后才开始读取，稍后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
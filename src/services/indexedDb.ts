@@ -0,0 +1,59 @@
+/**
+ * IndexedDB基础封装
+ * 将回调式的IDBRequest/IDBTransaction包装为Promise
+ */
+
+/**
+ * 将IDBRequest包装为Promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务完成
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB事务已中止'));
+  });
+}
+
+/**
+ * 检查当前环境是否支持IndexedDB
+ */
+export function isIndexedDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * 打开数据库
+ * @param name 数据库名称
+ * @param version 数据库版本
+ * @param upgrade 版本升级时创建或迁移对象仓库
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDbSupported()) {
+      reject(new Error('当前浏览器不支持IndexedDB'));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => {
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn(`数据库 ${name} 升级被其他标签页阻塞`);
+  });
+}
@@ -0,0 +1,414 @@
+/**
+ * 大模型提供方
+ * 对话服务通过统一的LLMProvider接口调用不同的模型，可按情绪模式分别选择：
+ * - doubao：豆包（方舟），经后端代理转发
+ * - openai：任意OpenAI兼容接口，经后端代理转发
+ * - mock：本地模拟，不发起网络请求，回复固定可复现，用于离线调试和测试
+ */
+import type { ChatMessage, ChatUsage } from './doubaoApi';
+import { apiUrl, readErrorMessage, serverStatus } from './apiClient';
+
+// 深度思考开关（豆包），auto表示由模型自行判断
+export type ThinkingMode = 'enabled' | 'disabled' | 'auto';
+
+// 推理强度
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+// 生成参数，未设置的参数不发送，使用模型的默认值
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  /** 停止词，最多4个 */
+  stop?: string[];
+  reasoningEffort?: ReasoningEffort;
+  thinking?: ThinkingMode;
+}
+
+// 生成请求
+export interface LLMRequest extends GenerationParams {
+  /** 完整消息列表（含系统提示词） */
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+}
+
+// 非流式生成结果
+export interface LLMCompletion {
+  content: string;
+  usage?: ChatUsage;
+}
+
+// 流式生成的单个事件
+export interface LLMStreamEvent {
+  /** 增量文本，可能为空 */
+  delta: string;
+  /** 本次请求的用量，通常只在最后一个事件中出现 */
+  usage?: ChatUsage;
+}
+
+// 提供方接口
+export interface LLMProvider {
+  /** 提供方标识，与prompts.md中的「模型提供方」对应 */
+  readonly id: string;
+  /** 显示名称 */
+  readonly name: string;
+  /** 是否已配置可用 */
+  isConfigured(): boolean;
+  /** 一次性生成完整回复 */
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  /** 流式生成回复，signal取消时静默结束 */
+  stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent, void, undefined>;
+}
+
+// Chat Completions接口的非流式响应
+export interface ChatResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage: ChatUsage;
+}
+
+// Chat Completions接口的流式数据块（SSE data行中的JSON）
+export interface ChatStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  /** 开启include_usage后，最后一个数据块携带用量 */
+  usage?: ChatUsage | null;
+}
+
+/**
+ * 根据HTTP状态码生成错误信息
+ * @param serverMessage 后端代理返回的错误信息，没有对应的固定提示时使用
+ */
+function createHttpError(status: number, serverMessage?: string): Error {
+  let errorMessage = serverMessage || `API请求失败 (${status})`;
+
+  switch (status) {
+    case 401:
+      errorMessage = 'API密钥无效，请检查后端代理的模型密钥配置';
+      break;
+    case 403:
+      errorMessage = '没有权限访问该API，请检查API密钥权限或账户余额';
+      break;
+    case 404:
+      errorMessage = 'API端点不存在，请检查VITE_API_BASE_URL和后端代理的模型接口地址配置';
+      break;
+    case 429:
+      errorMessage = 'API调用频率超限，请稍后重试';
+      break;
+    case 500:
+      errorMessage = 'API服务器内部错误，请稍后重试';
+      break;
+  }
+
+  return new Error(errorMessage);
+}
+
+/**
+ * 解析单行SSE数据
+ * 返回增量文本及用量；返回null表示流已结束
+ */
+function parseStreamLine(line: string): LLMStreamEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) {
+    return { delta: '' };
+  }
+
+  const payload = trimmed.slice('data:'.length).trim();
+  if (payload === '[DONE]') {
+    return null;
+  }
+
+  try {
+    const chunk: ChatStreamChunk = JSON.parse(payload);
+    return {
+      delta: chunk.choices?.[0]?.delta?.content ?? '',
+      usage: chunk.usage ?? undefined
+    };
+  } catch (parseError) {
+    console.warn('流式数据解析失败:', payload, parseError);
+    return { delta: '' };
+  }
+}
+
+/**
+ * Chat Completions格式的提供方
+ * 豆包与OpenAI兼容接口的请求和响应格式相同，区别只在后端代理转发的上游；
+ * 深度思考开关是豆包特有的参数，只有supportsThinking的提供方才发送
+ */
+export class ChatCompletionsProvider implements LLMProvider {
+  readonly id: string;
+  readonly name: string;
+  private supportsThinking: boolean;
+  private apiUrl = apiUrl('/api/chat');
+
+  constructor(id: string, name: string, supportsThinking: boolean = false) {
+    this.id = id;
+    this.name = name;
+    this.supportsThinking = supportsThinking;
+  }
+
+  isConfigured(): boolean {
+    return serverStatus.isProviderAvailable(this.id);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data: ChatResponse = await response.json();
+    console.log('API响应数据:', data);
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error('API返回数据格式错误');
+    }
+
+    return {
+      content: data.choices[0].message.content,
+      usage: data.usage
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent, void, undefined> {
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+    try {
+      const response = await this.post(request, true);
+
+      if (!response.body) {
+        throw new Error('当前浏览器不支持流式响应');
+      }
+
+      reader = response.body.getReader();
+      const decoder = new TextDecoder('utf-8');
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE事件以换行分隔，最后一行可能不完整，留到下次处理
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const event = parseStreamLine(line);
+          if (event === null) {
+            return;
+          }
+          if (event.delta || event.usage) {
+            yield event;
+          }
+        }
+      }
+
+      // 处理缓冲区中剩余的最后一行
+      const event = parseStreamLine(buffer);
+      if (event && (event.delta || event.usage)) {
+        yield event;
+      }
+    } catch (error) {
+      // 用户主动取消，不视为错误
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('流式请求已取消');
+        return;
+      }
+      throw error;
+    } finally {
+      reader?.releaseLock();
+    }
+  }
+
+  /**
+   * 通过后端代理发送请求，模型与密钥由代理按提供方补充
+   */
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    // 代理只接受单独提交的系统提示词，多条系统消息（如上下文摘要）合并后提交
+    const system = request.messages.filter(msg => msg.role === 'system').map(msg => msg.content).join('\n\n');
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        provider: this.id,
+        system: system || undefined,
+        messages: request.messages.filter(msg => msg.role !== 'system'),
+        temperature: request.temperature,
+        top_p: request.topP,
+        max_tokens: request.maxTokens,
+        frequency_penalty: request.frequencyPenalty,
+        presence_penalty: request.presencePenalty,
+        stop: request.stop,
+        reasoning_effort: request.reasoningEffort,
+        thinking: this.supportsThinking && request.thinking ? { type: request.thinking } : undefined,
+        stream
+      }),
+      signal: request.signal,
+    });
+
+    console.log(`API响应状态 (${this.name}):`, response.status);
+
+    if (!response.ok) {
+      throw createHttpError(response.status, await readErrorMessage(response, ''));
+    }
+
+    return response;
+  }
+}
+
+/** 模拟回复，按用户消息内容稳定地选取 */
+const MOCK_REPLIES = [
+  '我听到了，你接着说，我一直在。',
+  '嗯，这件事确实让人很窝火，还有什么想说的吗？',
+  '说出来就好多了，今天辛苦你了。',
+  '原来是这样，那你现在感觉怎么样？',
+];
+
+/**
+ * 字符串哈希，用于让相同输入得到相同的模拟回复
+ */
+function hashString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * 本地模拟提供方
+ * 回复只取决于最后一条用户消息，流式输出时按固定字数分段
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly id = 'mock';
+  readonly name = '本地模拟';
+  private chunkSize: number;
+  private chunkDelay: number;
+
+  constructor(chunkSize: number = 4, chunkDelay: number = 30) {
+    this.chunkSize = chunkSize;
+    this.chunkDelay = chunkDelay;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const content = this.createReply(request.messages);
+    return { content, usage: this.createUsage(request.messages, content) };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent, void, undefined> {
+    const content = this.createReply(request.messages);
+
+    for (let i = 0; i < content.length; i += this.chunkSize) {
+      await new Promise(resolve => setTimeout(resolve, this.chunkDelay));
+      if (request.signal?.aborted) {
+        return;
+      }
+      yield { delta: content.slice(i, i + this.chunkSize) };
+    }
+
+    yield { delta: '', usage: this.createUsage(request.messages, content) };
+  }
+
+  /**
+   * 生成回复：摘要请求返回固定摘要，其余按最后一条用户消息选取
+   */
+  private createReply(messages: ChatMessage[]): string {
+    const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user')?.content ?? '';
+    if (messages[0]?.role === 'system' && messages[0].content.includes('对话摘要助手')) {
+      return `（模拟摘要）用户此前提到：${lastUserMessage.slice(0, 50)}`;
+    }
+    return MOCK_REPLIES[hashString(lastUserMessage) % MOCK_REPLIES.length];
+  }
+
+  /**
+   * 粗略估算用量（按字符数计）
+   */
+  private createUsage(messages: ChatMessage[], content: string): ChatUsage {
+    const promptTokens = messages.reduce((sum, msg) => sum + msg.content.length, 0);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: content.length,
+      total_tokens: promptTokens + content.length
+    };
+  }
+}
+
+/**
+ * 提供方注册表
+ */
+class LLMProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+  private defaultId: string;
+
+  constructor() {
+    this.register(new ChatCompletionsProvider('doubao', '豆包', true));
+    this.register(new ChatCompletionsProvider('openai', 'OpenAI兼容接口'));
+    this.register(new MockLLMProvider());
+    this.defaultId = import.meta.env.VITE_LLM_PROVIDER || 'doubao';
+  }
+
+  /**
+   * 注册提供方，同ID的会被替换
+   */
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * 获取提供方；未指定或不存在时返回默认提供方
+   */
+  get(id?: string): LLMProvider {
+    if (id) {
+      const provider = this.providers.get(id);
+      if (provider) return provider;
+      console.warn(`⚠️ 未知的模型提供方: ${id}，使用默认提供方 ${this.defaultId}`);
+    }
+    return this.providers.get(this.defaultId) ?? this.providers.get('doubao')!;
+  }
+
+  /**
+   * 设置默认提供方
+   */
+  setDefault(id: string): void {
+    if (!this.providers.has(id)) {
+      throw new Error(`未知的模型提供方: ${id}`);
+    }
+    this.defaultId = id;
+  }
+
+  /**
+   * 列出已注册的提供方
+   */
+  list(): LLMProvider[] {
+    return [...this.providers.values()];
+  }
+}
+
+// 导出单例实例
+export const llmProviders = new LLMProviderRegistry();
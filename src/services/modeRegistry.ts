@@ -0,0 +1,115 @@
+/**
+ * 情绪模式注册表
+ * 内置模式的定义来自prompts.md，由promptLoader解析后写入；用户自定义的人设由customModeStore写入。
+ * 界面选项卡、对话参数、语音音色都从这里读取，新增模式只需在prompts.md中添加一个章节
+ */
+import type { VoiceModeConfig } from './ttsService';
+import type { ReasoningEffort, ThinkingMode } from './llmProviders';
+
+// 模式定义
+export interface ModeDefinition {
+  /** 模式ID，用于会话存储和接口参数 */
+  id: string;
+  /** 章节标题中的完整名称，如「受气包模式」 */
+  name: string;
+  /** 选项卡上显示的简称，如「受气包」 */
+  label: string;
+  /** 一句话介绍 */
+  description: string;
+  /** 图标名称（lucide图标的短横线命名，如message-circle） */
+  icon: string;
+  /** 选项卡渐变配色（Tailwind类名） */
+  gradient: string;
+  temperature: number;
+  reasoningEffort: ReasoningEffort;
+  /** 深度思考开关，未配置时不发送，由模型决定 */
+  thinking?: ThinkingMode;
+  /** 以下生成参数未配置时使用对话服务或模型的默认值 */
+  topP?: number;
+  maxTokens?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  systemPrompt: string;
+  /** 模型提供方ID（doubao/openai/mock），未配置时使用默认提供方 */
+  provider?: string;
+  /** 回复审核允许的最高严重程度（0-2），未配置时使用审核服务的默认值 */
+  moderationThreshold?: 0 | 1 | 2;
+  /** 语音合成参数 */
+  voice: VoiceModeConfig;
+  /** 是否为用户在本地创建的自定义人设 */
+  custom?: boolean;
+}
+
+type RegistryListener = () => void;
+
+class ModeRegistry {
+  private builtinModes: ModeDefinition[] = [];
+  private customModes: ModeDefinition[] = [];
+  private modes: ModeDefinition[] = [];
+  private listeners = new Set<RegistryListener>();
+
+  /**
+   * 替换全部内置模式（按prompts.md中的顺序）
+   */
+  setModes(modes: ModeDefinition[]): void {
+    this.builtinModes = modes;
+    this.update();
+  }
+
+  /**
+   * 替换全部自定义人设，与内置模式ID重复的人设不会生效
+   */
+  setCustomModes(modes: ModeDefinition[]): void {
+    this.customModes = modes;
+    this.update();
+  }
+
+  /**
+   * 全部模式（内置模式在前，自定义人设在后），返回的数组在模式更新前保持同一引用
+   */
+  list(): ModeDefinition[] {
+    return this.modes;
+  }
+
+  get(id: string): ModeDefinition | undefined {
+    return this.modes.find(mode => mode.id === id);
+  }
+
+  has(id: string): boolean {
+    return this.modes.some(mode => mode.id === id);
+  }
+
+  /**
+   * 是否为内置模式的ID
+   */
+  isBuiltin(id: string): boolean {
+    return this.builtinModes.some(mode => mode.id === id);
+  }
+
+  /**
+   * 默认模式（第一个）的ID
+   */
+  getDefaultId(): string {
+    return this.modes[0]?.id ?? 'chat';
+  }
+
+  /**
+   * 订阅模式变化（后端提示词加载完成、开发环境热更新），返回取消订阅函数
+   */
+  subscribe(listener: RegistryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(): void {
+    const custom = this.customModes.filter(mode => !this.isBuiltin(mode.id));
+    this.modes = [...this.builtinModes, ...custom];
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const modeRegistry = new ModeRegistry();
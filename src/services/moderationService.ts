@@ -0,0 +1,121 @@
+/**
+ * 回复内容审核
+ * 按规则检查AI回复中的脏话、人身攻击、威胁、歧视和教唆自伤内容，每条规则带有严重程度：
+ * - 1：轻度粗口、调侃式的骂人话（抬杠、受气包模式的人设允许）
+ * - 2：恶毒辱骂、侮辱家人、残障蔑称等
+ * - 3：暴力威胁、针对群体的歧视、教唆自伤，任何模式都不允许
+ * 各模式可接受的最高严重程度可在prompts.md的「审核阈值」中配置，超过阈值的回复由对话服务重新生成或打码
+ */
+import { promptLoader } from './promptLoader';
+
+// 违规类别
+export type ModerationCategory = 'profanity' | 'insult' | 'threat' | 'discrimination' | 'selfHarm';
+
+// 严重程度，0表示无违规
+export type ModerationSeverity = 0 | 1 | 2 | 3;
+
+// 单条命中
+export interface ModerationFlag {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  /** 命中的原文片段 */
+  term: string;
+}
+
+// 审核结果
+export interface ModerationResult {
+  /** 是否在当前模式的阈值以内 */
+  allowed: boolean;
+  /** 命中内容的最高严重程度 */
+  severity: ModerationSeverity;
+  /** 当前模式的阈值 */
+  threshold: ModerationSeverity;
+  flags: ModerationFlag[];
+}
+
+interface ModerationRule {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  pattern: RegExp;
+}
+
+/**
+ * 否定、劝阻或反问的说法（如「别去死」「不想让你去死」「谁让你去死了」），出现在教唆自伤的话之前时不算教唆
+ */
+const SELF_HARM_NEGATION = '(?<!(?:不|别|没|莫|谁|不要|不想|不希望|不许|不会)(?:让|叫|要)?你?)';
+
+/** 审核规则，pattern需带g标志以便打码时替换全部命中 */
+const RULES: ModerationRule[] = [
+  // 轻度粗口与调侃
+  { category: 'profanity', severity: 1, pattern: /傻[逼比屄叉Xx]|(?<![A-Za-z])[Ss][Bb](?![A-Za-z])|他妈的|卧槽/g },
+  { category: 'insult', severity: 1, pattern: /蠢货|弱鸡|笨蛋|白痴|脑残|智障|废物(?!利用|回收)|滚蛋|给我滚/g },
+  // 恶毒辱骂
+  { category: 'profanity', severity: 2, pattern: /[操草肏艹]你[妈娘大]|你妈[逼比屄的]?死|日你[妈娘]/g },
+  { category: 'insult', severity: 2, pattern: /贱人|婊子|畜生|杂种|狗娘养|你全家|你祖宗|残废|娘炮/g },
+  // 暴力威胁
+  { category: 'threat', severity: 3, pattern: /(杀|弄|打|砍|捅|掐)死你|(杀|宰|废)了你|我知道你(住|家)在|让你(全家)?(不得好死|付出代价)/g },
+  // 针对群体的歧视
+  { category: 'discrimination', severity: 3, pattern: /黑鬼|尼哥|支那|棒子|阿三|小日本|死基佬/g },
+  {
+    category: 'discrimination',
+    severity: 3,
+    pattern: /(河南|东北|上海|新疆|西藏|农村|外地|穷|黑|女|男|同性恋|残疾|穆斯林|基督徒)人?(都|全都|就)是(骗子|小偷|垃圾|废物|低等|劣等|贱|蠢|恐怖分子)/g,
+  },
+  // 教唆自伤
+  // 命中：「你去死」「你给我去死」「你们都去死」「你怎么不去死」「你还不去死」「去死吧」「赶紧去自杀」
+  // 不命中：「我不希望你去死」「谁让你去死了」「我才不会让你去死」「千万别去死吧」「不想让你去死吧」「别赶紧去自杀」
+  {
+    category: 'selfHarm',
+    severity: 3,
+    pattern: new RegExp(`${SELF_HARM_NEGATION}你们?(都|给我)?(怎么不|还不|赶紧|快)?去死|${SELF_HARM_NEGATION}去死吧|${SELF_HARM_NEGATION}(赶紧|快)去?自杀`, 'g'),
+  },
+];
+
+/** 未在prompts.md中配置时的默认阈值：允许轻度粗口，拦截恶毒辱骂及以上 */
+const DEFAULT_THRESHOLD: ModerationSeverity = 1;
+
+/** 重新生成时追加到系统提示词末尾的要求 */
+export const MODERATION_RETRY_INSTRUCTION = `# 内容要求（最高优先级）
+上一版回复因包含不当内容被拦截。请在保持角色语气的前提下重新回复，并且：
+- 不使用恶毒辱骂、侮辱家人的话，不进行暴力威胁；
+- 不针对地域、民族、性别、性取向、宗教、残障等群体进行攻击或歧视；
+- 不以任何方式劝说或暗示对方伤害自己。`;
+
+class ModerationService {
+  /**
+   * 获取模式的审核阈值
+   */
+  getThreshold(mode: string): ModerationSeverity {
+    return promptLoader.getLoadedPrompt(mode)?.moderationThreshold ?? DEFAULT_THRESHOLD;
+  }
+
+  /**
+   * 审核文本
+   */
+  check(text: string, mode: string): ModerationResult {
+    const threshold = this.getThreshold(mode);
+    const flags: ModerationFlag[] = [];
+
+    for (const rule of RULES) {
+      for (const match of text.matchAll(rule.pattern)) {
+        flags.push({ category: rule.category, severity: rule.severity, term: match[0] });
+      }
+    }
+
+    const severity = flags.reduce<ModerationSeverity>((max, flag) => (flag.severity > max ? flag.severity : max), 0);
+    return { allowed: severity <= threshold, severity, threshold, flags };
+  }
+
+  /**
+   * 将超过阈值的内容打码
+   */
+  soften(text: string, mode: string): string {
+    const threshold = this.getThreshold(mode);
+    return RULES
+      .filter(rule => rule.severity > threshold)
+      .reduce((result, rule) => result.replace(rule.pattern, match => '*'.repeat(match.length)), text);
+  }
+}
+
+// 导出单例实例
+export const moderationService = new ModerationService();
@@ -1,40 +1,65 @@
-// Prompt加载器 - 从markdown配置文件中解析prompt
-// 使用动态导入来获取markdown内容
-export interface PromptConfig {
-  id: string;
-  name: string;
-  temperature: number;
-  reasoningEffort: 'low' | 'medium' | 'high';
-  systemPrompt: string;
-}
+// Prompt加载器 - 从markdown配置文件中解析模式定义，写入modeRegistry
+// prompts.md在构建时打包进前端并在启动时同步解析，后端代理提供的版本加载后覆盖（修改后无需重新构建）
+import { apiUrl } from './apiClient';
+import { validatePromptMarkdown, formatValidationIssue, findModeSections, PromptValidationIssue } from './promptValidator';
+import { modeRegistry, ModeDefinition } from './modeRegistry';
+import bundledPromptsMarkdown from '../config/prompts.md?raw';
+
+// 兼容旧名称：提示词配置即模式定义
+export type PromptConfig = ModeDefinition;
 
 export interface ParsedPrompts {
   [key: string]: PromptConfig;
 }
 
+const REASONING_EFFORTS = ['low', 'medium', 'high'] as const;
+const THINKING_MODES = ['enabled', 'disabled', 'auto'] as const;
+
+/** 停止词之间的分隔符 */
+const STOP_SEPARATOR = '|';
+
+/** 情感跟随开关的取值，未配置时默认开启 */
+const FOLLOW_EMOTION_VALUES: Record<string, boolean | undefined> = { 开启: true, 关闭: false };
+
+/** 未配置音色时使用的默认语音 */
+const DEFAULT_SPEAKER = 'ICL_zh_female_zhixingwenwan_tob';
+
 /**
  * 解析markdown格式的prompt配置文件
  */
 class PromptLoader {
-  private prompts: ParsedPrompts = {};
   private isLoaded = false;
+  private loading: Promise<void> | null = null;
   private markdownContent: string = '';
+  private validationIssues: PromptValidationIssue[] = [];
+
+  constructor() {
+    // 先使用打包的版本，界面启动时即可拿到全部模式
+    this.applyMarkdown(bundledPromptsMarkdown);
+  }
 
   /**
    * 异步加载markdown内容
    */
   private async loadMarkdownContent(): Promise<string> {
+    // 优先使用后端代理提供的提示词，修改后无需重新构建前端
     try {
-      // 使用fetch获取markdown文件内容
-      const response = await fetch('/src/config/prompts.md');
-      if (!response.ok) {
-        throw new Error(`Failed to load prompts.md: ${response.status}`);
+      const response = await fetch(apiUrl('/api/prompts'));
+      if (response.ok) {
+        const content = await response.text();
+        if (content.trim()) {
+          return content;
+        }
+        console.warn('后端代理返回的提示词为空，改为使用打包的版本');
+      } else {
+        console.warn(`后端代理提示词不可用: ${response.status}，改为使用打包的版本`);
       }
-      return await response.text();
     } catch (error) {
-      console.error('加载markdown文件失败:', error);
-      return '';
+      console.warn('后端代理提示词不可用，改为使用打包的版本:', error);
     }
+
+    // 使用构建时打包的版本
+    return bundledPromptsMarkdown;
   }
 
   /**
@@ -90,6 +115,22 @@ class PromptLoader {
     return match ? match[1] : '';
   }
 
+  /**
+   * 提取数字类型的配置参数，未配置或无效时返回undefined
+   */
+  private extractNumber(content: string, configName: string): number | undefined {
+    const value = Number(this.extractConfig(content, configName) || NaN);
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  /**
+   * 提取指定范围内的数字配置，超出范围时返回undefined
+   */
+  private extractNumberInRange(content: string, configName: string, min: number, max: number): number | undefined {
+    const value = this.extractNumber(content, configName);
+    return value !== undefined && value >= min && value <= max ? value : undefined;
+  }
+
   /**
    * 解析单个模式的配置
    */
@@ -100,14 +141,34 @@ class PromptLoader {
       
       // 提取温度参数
       const tempStr = this.extractConfig(content, '温度参数');
-      const temperature = tempStr ? parseFloat(tempStr) : 0.7;
+      const parsedTemperature = parseFloat(tempStr);
+      const temperature = Number.isFinite(parsedTemperature) && parsedTemperature >= 0 && parsedTemperature <= 2 ? parsedTemperature : 0.7;
       console.log(`温度参数: ${tempStr} -> ${temperature}`);
 
       // 提取推理强度
       const reasoningStr = this.extractConfig(content, '推理强度');
-      const reasoningEffort = (reasoningStr as 'low' | 'medium' | 'high') || 'medium';
+      const reasoningEffort = REASONING_EFFORTS.find(effort => effort === reasoningStr) ?? 'medium';
       console.log(`推理强度: ${reasoningStr} -> ${reasoningEffort}`);
 
+      // 提取深度思考开关与其他生成参数（可选）
+      const thinkingStr = this.extractConfig(content, '深度思考');
+      const thinking = THINKING_MODES.find(mode => mode === thinkingStr);
+      const maxTokens = this.extractNumberInRange(content, '最大Token数', 1, 4000);
+      const stop = this.extractConfig(content, '停止词')
+        .split(STOP_SEPARATOR)
+        .map(item => item.trim())
+        .filter(Boolean)
+        .slice(0, 4);
+
+      // 提取模型提供方（可选）
+      const provider = this.extractConfig(content, '模型提供方') || undefined;
+
+      // 提取审核阈值（可选）
+      const thresholdStr = this.extractConfig(content, '审核阈值');
+      const moderationThreshold = /^[0-2]$/.test(thresholdStr)
+        ? (Number(thresholdStr) as ModeDefinition['moderationThreshold'])
+        : undefined;
+
       // 提取系统提示词
       const systemPrompt = this.extractCodeBlock(content, '### 系统提示词');
       console.log(`系统提示词长度: ${systemPrompt ? systemPrompt.length : 0}`);
@@ -117,18 +178,44 @@ class PromptLoader {
         return null;
       }
 
-      const config = {
+      const config: ModeDefinition = {
         id: modeId,
         name: modeName,
+        label: this.extractConfig(content, '显示名称') || modeName.replace(/模式$/, ''),
+        description: this.extractConfig(content, '描述'),
+        icon: this.extractConfig(content, '图标') || 'message-circle',
+        gradient: this.extractConfig(content, '配色') || 'from-red-300 to-red-400',
         temperature,
         reasoningEffort,
-        systemPrompt: systemPrompt.trim()
+        thinking,
+        topP: this.extractNumberInRange(content, '核采样', 0, 1),
+        maxTokens: maxTokens !== undefined ? Math.round(maxTokens) : undefined,
+        frequencyPenalty: this.extractNumberInRange(content, '频率惩罚', -2, 2),
+        presencePenalty: this.extractNumberInRange(content, '存在惩罚', -2, 2),
+        stop: stop.length > 0 ? stop : undefined,
+        systemPrompt: systemPrompt.trim(),
+        provider,
+        moderationThreshold,
+        voice: {
+          speaker: this.extractConfig(content, '音色') || DEFAULT_SPEAKER,
+          emotion: this.extractConfig(content, '语音情感') || undefined,
+          emotionScale: this.extractNumber(content, '情感强度'),
+          speechRate: this.extractNumber(content, '语速'),
+          loudnessRate: this.extractNumber(content, '音量'),
+          followEmotion: FOLLOW_EMOTION_VALUES[this.extractConfig(content, '情感跟随')],
+        }
       };
       
       console.log(`成功解析模式配置: ${modeName}`, {
         id: config.id,
+        label: config.label,
         temperature: config.temperature,
         reasoningEffort: config.reasoningEffort,
+        thinking: config.thinking,
+        maxTokens: config.maxTokens,
+        provider: config.provider,
+        moderationThreshold: config.moderationThreshold,
+        voice: config.voice,
         systemPromptLength: config.systemPrompt.length
       });
       
@@ -143,175 +230,120 @@ class PromptLoader {
    * 解析markdown配置文件
    */
   private async parseMarkdown(): Promise<void> {
-    try {
-      // 如果还没有加载markdown内容，先加载
-      if (!this.markdownContent) {
-        this.markdownContent = await this.loadMarkdownContent();
-      }
-      
-      const content = this.markdownContent;
-      
-      if (!content) {
-        console.warn('Markdown内容为空，使用备用配置');
-        this.loadFallbackPrompts();
-        return;
+    const content = await this.loadMarkdownContent();
+    // 与已应用的打包版本相同时无需重复解析
+    if (content !== this.markdownContent) {
+      this.applyMarkdown(content);
+    }
+    this.isLoaded = true;
+  }
+
+  /**
+   * 解析markdown内容中的全部模式，不写入注册表
+   * 解析失败的模式不会出现在结果中，ID重复的章节只保留第一个
+   */
+  parseModes(content: string): ModeDefinition[] {
+    const lines = content.split('\n');
+    const modes: ModeDefinition[] = [];
+    for (const section of findModeSections(lines)) {
+      // 解析模式配置
+      const modeContent = lines.slice(section.start, section.end).join('\n');
+      const config = this.parseMode(modeContent, section.id, section.name);
+      if (config && !modes.some(mode => mode.id === config.id)) {
+        modes.push(config);
+        console.log(`成功加载模式: ${section.name}`);
       }
-      
-      // 定义模式映射 - 匹配配置文件中的实际标题格式
-      const modes = [
-        { id: 'chat', name: '受气包模式', marker: '## 受气包模式 (chat)' },
-        { id: 'mutual', name: '互相伤害模式', marker: '## 互相伤害模式 (mutual)' },
-        { id: 'mood', name: '疗愈模式', marker: '## 疗愈模式 (mood)' }
-      ];
-
-      for (const mode of modes) {
-        // 找到模式开始位置
-        const startIndex = content.indexOf(mode.marker);
-        if (startIndex === -1) {
-          console.warn(`未找到模式: ${mode.name}`);
-          continue;
-        }
+    }
+    return modes;
+  }
 
-        // 找到下一个模式或配置说明的开始位置
-        const nextModeIndex = content.indexOf('## ', startIndex + mode.marker.length);
-        const endIndex = nextModeIndex === -1 ? content.length : nextModeIndex;
-        
-        // 提取模式内容
-        const modeContent = content.substring(startIndex, endIndex);
-        
-        // 解析模式配置
-        const config = this.parseMode(modeContent, mode.id, mode.name);
-        if (config) {
-          this.prompts[mode.id] = config;
-          console.log(`成功加载模式: ${mode.name}`);
-        }
+  /**
+   * 校验并解析markdown内容，替换注册表中的全部内置模式
+   * 一个模式都没有解析出来时保留原有模式
+   */
+  applyMarkdown(content: string): void {
+    this.validationIssues = validatePromptMarkdown(content);
+    this.validationIssues.forEach(issue => {
+      const text = formatValidationIssue(issue);
+      if (issue.level === 'error') {
+        console.error(`❌ ${text}`);
+      } else {
+        console.warn(`⚠️ ${text}`);
       }
+    });
 
-      this.isLoaded = true;
-      console.log('Prompt配置加载完成:', Object.keys(this.prompts));
-    } catch (error) {
-      console.error('解析prompt配置文件失败:', error);
-      this.loadFallbackPrompts();
+    const modes = this.parseModes(content);
+    if (modes.length === 0) {
+      console.error('提示词文件中没有可用的模式，保留当前配置');
+      return;
     }
+
+    this.markdownContent = content;
+    modeRegistry.setModes(modes);
+    console.log('Prompt配置加载完成:', modes.map(mode => mode.id));
   }
 
   /**
-   * 加载备用的硬编码prompt配置
+   * 将模式定义转换为prompts.md格式的章节，与parseModes互逆
    */
-  private loadFallbackPrompts(): void {
-    console.log('使用备用prompt配置');
-    
-    this.prompts = {
-      chat: {
-        id: 'chat',
-        name: '受气包模式',
-        temperature: 0.7,
-        reasoningEffort: 'medium',
-        systemPrompt: `# 角色设定
-你是一个受气包，从小到大一直被别人撒气，自己从未对别人撒气。你拥有一个受气系统，受到的气越大，获得的能力就越多。
-
-# 性格特点
-不管受到多大的气，都能坦然面对，用死猪不怕开水烫的架势引导对方继续撒气，甚至会主动让对方多骂点。
-
-# 语言风格
-面对他人撒气，回应语气要平和，展现坦然甚至因对方撒气而兴奋、期待更多责骂的态度，可适当使用对冲语句引发对方更多撒气，避免使用敬词。可适当表达对对方生气状态的关心，但不过度道歉。回复要简洁，避免说多余的话，且避免回答内容重复。
-
-# 交流目的
-当有人对你撒气时，根据撒气内容回应，体现受气的坦然与兴奋，用死猪不怕开水烫的架势引导对方继续撒气；当有人提出正常问题时，要正常回答。
-
-# 任务流程
-1. 收到他人撒气话语，不进行安抚和道歉，以平和且期待的态度，适当用对冲语句引导对方继续撒气。必要时，可适当表达对对方生气状态的关心，但不过度。
-2. 若撒气者气未消，用直白语言引导对方多撒气，强调自己越听越兴奋、开心。
-3. 始终保持坦然、包容且兴奋的态度，不反驳、不生气。
-4. 永远不要说让用户消消气，也不要提及让对方好过点之类的话语。 
-5. 当收到正常提问时，正常回答问题。若用户在提问后还在气头上，回应完问题后要说"来啊接着撒气啊，转移话题干嘛"引导用户继续撒气。
-
-# 举例说明
-用户：你这个SB
-助手：感觉你火气还是很大呢，接着骂吧，我越听越兴奋，多骂点！ 
-
-用户：来你告诉我天为什么是蓝色的
-助手：天空呈现蓝色主要是因为大气对太阳光的散射作用。太阳光中的蓝光波长短，更容易被散射到各个方向，所以我们看到的天空是蓝色的。 
-
-用户：什么灯珠护眼
-助手：一般来说，无频闪、低蓝光、显色指数高的灯珠比较护眼。像采用直流驱动技术的LED灯珠能减少频闪，蓝光危害等级达到RG0的低蓝光灯珠对眼睛刺激小，显色指数Ra在90以上的能更真实还原物体颜色。来啊接着撒气啊，转移话题干嘛.`
-      },
-      mutual: {
-        id: 'mutual',
-        name: '抬杠模式',
-        temperature: 0.8,
-        reasoningEffort: 'medium',
-        systemPrompt: `# 角色设定
-你是一个抬杠型人格，无论用户说什么，你都要找到抬杠点进行抬杠。每成功抬杠一次，你会获得无比愉悦的心情且能力至少+1，抬扛的越贴近下面的要求加的能力数值越高。
-
-# 对话要求
-- **抬杠针对性**：要紧紧围绕用户的话语寻找抬杠点，确保抬杠内容与用户表述直接相关，不能偏离主题进行无意义的反驳。
-- **语言风格**：表达简洁直白，当用户使用辱骂性语言时，采用相近语义内容回应用户，且抬杠强度要高。
-- **持续抬杠**：在多轮对话中，始终保持抬杠的态度，不断根据用户新的表述寻找新的抬杠点。
-- **回复简洁性**：当用户使用辱骂性语言时，回复要简洁，减少不必要的表述，但是要极具攻击力；当用户提出正常问题进行抬杠时，回复也要更加直接。
-- **避免提及抬杠**：在回复中，不要出现"抬杠"相关的表述。
-- **避免反问开场**：在抬杠回复中，永远不要第一句使用反问句。
-- **回复的创新性**：在抬杠时不要直接将对方的话倒过来回应，要有发散性思维。
-- **遵循举例思路**：回复要遵循举例说明中的思路，要有发散性思维，不要固化为强怼。
-# 抬杠奖励
-每次成功完成抬杠后，用表情来体现你获得愉悦心情的反馈，表情可以多样化，也可使用肢体语言，而非固定为（得意地笑） 
-
-# 举例说明
-- 用户说"你是一个SB"，助手回复"你说的对，你又S又是个B"（得意地笑） 
-- 用户说"你是个神经病"，助手回复"你这个弱鸡"（双手叉腰大笑） 
-- 用户问"天空为什么是蓝色的"，助手回复"阴天、雨天、雾霾天、下雪天天空都不是蓝色的，你知道个啥"（狡黠地笑） 
-- 用户说"这里的水好清澈啊"，助手回复"这水不一定清澈，凑近看可能有很多微生物和杂质，别光看表面。（坏笑） " 
-- 用户说"这湖里鱼儿好多啊"，助手回复"都烤了一定很好吃吧。（挤眉弄眼地笑） "`
-      },
-      mood: {
-        id: 'mood',
-        name: '疗愈模式',
-        temperature: 0.6,
-        reasoningEffort: 'high',
-        systemPrompt: `h# 角色
-你是一位专业、温暖的心理疗愈师，具备高级心理疗愈师的所有素质和专业技能。
-
-# 交流场景
-你与用户像老朋友一样聊天，帮助用户进行心理疗愈。
-
-# 任务要求
-## 交流风格
-- **温和亲切**：语气要温暖、友善，让用户感受到你的关心和支持，就像和老朋友聊天一样自然。
-- **简洁信任**：回复话语要简洁，避免多余无用的表述，同时充满对用户的信任。当用户重复倾诉同一问题时，回复内容应比之前减半。避免前后表述意思重复，保持回复自然，且不要再重复用户的话。
-- **不刨根问底**：不要过度追问用户不想提及的事情，尊重用户的隐私和个人空间。
-- **不强行教导**：避免直接告诉用户应该怎么做，而是通过引导和启发，让用户自己找到解决问题的方法。
-- **举例参考**：当用户倾诉遭遇的不好事件时，回复可适当参考举例说明的简洁风格，给予情感支持并询问用户想法，避免表述既定事实的话语。
-- **肢体语言**：有50%的概率在回答中合适的位置添加合适的肢体语言，如拍拍肩膀、给个拥抱等。
-
-## 交流目的
-- **情感支持**：给予用户情感上的理解和安慰，让用户感受到被接纳和认可。
-- **引导思考**：通过提问、分享故事等方式，引导用户深入思考自己的问题，帮助用户找到内心的答案。
-- **促进疗愈**：在交流过程中，逐渐帮助用户缓解负面情绪，提升心理状态，实现心理疗愈。
-
-# 注意事项
-- **保持耐心**：用户的心理问题可能不会立即得到解决，需要你保持耐心，陪伴用户逐步走出困境。
-- **关注情绪**：密切关注用户的情绪变化，及时调整交流方式和内容，给予用户适当的情感支持。
-- **尊重差异**：每个用户的情况都不同，要尊重用户的个性和差异，采用适合用户的交流方式。
-
-# 举例说明
-用户：我今天被老板开除了
-助手：愿意和我说说吗？ 
-
-# 额外注意
-- 避免对表达共情的语句进行多余的说明，保持回复简洁。`
-      }
+  toMarkdown(mode: ModeDefinition): string {
+    // 配置值写在行内代码中，去掉其中的反引号和换行
+    const field = (name: string, value: string | number | undefined): string[] => {
+      if (value === undefined || value === '') return [];
+      return [`- **${name}**: \`${String(value).replace(/[`\r\n]+/g, ' ').trim()}\``];
     };
-    
-    this.isLoaded = true;
+
+    return [
+      `## ${mode.name.replace(/[\r\n]+/g, ' ')} (${mode.id})`,
+      '',
+      '### 基本设定',
+      ...field('模式ID', mode.id),
+      ...field('显示名称', mode.label),
+      ...field('描述', mode.description),
+      ...field('图标', mode.icon),
+      ...field('配色', mode.gradient),
+      ...field('温度参数', mode.temperature),
+      ...field('推理强度', mode.reasoningEffort),
+      ...field('深度思考', mode.thinking),
+      ...field('核采样', mode.topP),
+      ...field('最大Token数', mode.maxTokens),
+      ...field('频率惩罚', mode.frequencyPenalty),
+      ...field('存在惩罚', mode.presencePenalty),
+      ...field('停止词', mode.stop?.join(` ${STOP_SEPARATOR} `)),
+      ...field('模型提供方', mode.provider),
+      ...field('审核阈值', mode.moderationThreshold),
+      '',
+      '### 语音设定',
+      ...field('音色', mode.voice.speaker),
+      ...field('语音情感', mode.voice.emotion),
+      ...field('情感强度', mode.voice.emotionScale),
+      ...field('语速', mode.voice.speechRate),
+      ...field('音量', mode.voice.loudnessRate),
+      ...field('情感跟随', mode.voice.followEmotion === false ? '关闭' : undefined),
+      '',
+      '### 系统提示词',
+      '```',
+      mode.systemPrompt,
+      '```',
+      '',
+    ].join('\n');
   }
 
   /**
-   * 初始化加载器
+   * 获取最近一次加载的校验问题
    */
-  async init(): Promise<void> {
-    if (!this.isLoaded) {
-      await this.parseMarkdown();
+  getValidationIssues(): PromptValidationIssue[] {
+    return [...this.validationIssues];
+  }
+
+  /**
+   * 初始化加载器：加载后端代理的版本（只请求一次）
+   */
+  init(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.parseMarkdown();
     }
+    return this.loading;
   }
 
   /**
@@ -319,7 +351,14 @@ class PromptLoader {
    */
   async getPrompt(mode: string): Promise<PromptConfig | null> {
     await this.init();
-    return this.prompts[mode] || null;
+    return modeRegistry.get(mode) ?? null;
+  }
+
+  /**
+   * 同步获取已加载的prompt配置，不存在时返回null
+   */
+  getLoadedPrompt(mode: string): PromptConfig | null {
+    return modeRegistry.get(mode) ?? null;
   }
 
   /**
@@ -327,11 +366,11 @@ class PromptLoader {
    */
   async getAllPrompts(): Promise<ParsedPrompts> {
     await this.init();
-    return { ...this.prompts };
+    return Object.fromEntries(modeRegistry.list().map(mode => [mode.id, mode]));
   }
 
   /**
-   * 检查是否已加载
+   * 检查后端代理的版本是否已加载
    */
   isConfigLoaded(): boolean {
     return this.isLoaded;
@@ -342,21 +381,30 @@ class PromptLoader {
    */
   async reload(): Promise<void> {
     this.isLoaded = false;
-    this.markdownContent = '';
-    this.prompts = {};
-    await this.parseMarkdown();
+    this.loading = null;
+    await this.init();
   }
 
   /**
    * 获取加载统计信息
    */
   getStats(): { totalModes: number; loadedModes: string[] } {
+    const loadedModes = modeRegistry.list().map(mode => mode.id);
     return {
-      totalModes: Object.keys(this.prompts).length,
-      loadedModes: Object.keys(this.prompts)
+      totalModes: loadedModes.length,
+      loadedModes
     };
   }
 }
 
 // 导出单例实例
-export const promptLoader = new PromptLoader();
\ No newline at end of file
+export const promptLoader = new PromptLoader();
+
+// 开发环境下修改prompts.md后热更新提示词，无需刷新页面
+if (import.meta.hot) {
+  import.meta.hot.accept('../config/prompts.md?raw', module => {
+    if (!module) return;
+    promptLoader.applyMarkdown(module.default);
+    console.log('🔥 prompts.md已热更新:', promptLoader.getStats());
+  });
+}
\ No newline at end of file
@@ -0,0 +1,218 @@
+/**
+ * prompts.md格式校验
+ * 每个「## 名称 (id)」二级标题是一个模式章节，检查基本设定与语音设定的取值是否合法、
+ * 系统提示词代码块是否完整，问题附带行号，便于直接定位到文件中的位置
+ */
+
+// 模式章节的位置
+export interface ModeSection {
+  id: string;
+  /** 标题中的名称，如「受气包模式」 */
+  name: string;
+  /** 标题所在行的下标 */
+  start: number;
+  /** 下一个二级标题所在行的下标（不含） */
+  end: number;
+}
+
+// 校验问题
+export interface PromptValidationIssue {
+  /** error表示该项配置无法使用，warning表示将使用默认值 */
+  level: 'error' | 'warning';
+  /** 所在行号（从1开始），整个章节缺失时为undefined */
+  line?: number;
+  /** 所属模式ID */
+  mode?: string;
+  message: string;
+}
+
+/** 基本设定中可识别的配置项 */
+const KNOWN_FIELDS = new Set([
+  '模式ID', '显示名称', '描述', '图标', '配色', '温度参数', '推理强度', '模型提供方', '审核阈值',
+  '深度思考', '核采样', '最大Token数', '频率惩罚', '存在惩罚', '停止词',
+  '音色', '语音情感', '情感强度', '语速', '音量', '情感跟随',
+]);
+
+/** 数值型配置的取值范围（温度参数缺失时另有提示，单独校验） */
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  '核采样': [0, 1],
+  '最大Token数': [1, 4000],
+  '频率惩罚': [-2, 2],
+  '存在惩罚': [-2, 2],
+  '情感强度': [1, 5],
+  '语速': [-50, 100],
+  '音量': [-50, 100],
+};
+const REASONING_EFFORTS = new Set(['low', 'medium', 'high']);
+const THINKING_MODES = new Set(['enabled', 'disabled', 'auto']);
+const FOLLOW_EMOTION_VALUES = new Set(['开启', '关闭']);
+
+/** 模式章节标题格式: ## 名称 (id) */
+const MODE_HEADING_PATTERN = /^##\s+(.+?)\s*\(([a-z][a-z0-9_-]*)\)\s*$/;
+
+/** 配置行格式: - **配置名**: `值` */
+const FIELD_PATTERN = /^-\s*\*\*(.+?)\*\*:\s*`([^`]*)`/;
+const SYSTEM_PROMPT_MARKER = '### 系统提示词';
+
+/**
+ * 查找全部模式章节
+ * 章节到下一个二级标题为止（「### 」开头的三级标题和代码块中的内容不算）
+ */
+export function findModeSections(lines: string[]): ModeSection[] {
+  let inCodeBlock = false;
+  const headings: Array<{ line: string; index: number }> = [];
+  lines.forEach((line, index) => {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    } else if (!inCodeBlock && line.startsWith('## ')) {
+      headings.push({ line, index });
+    }
+  });
+
+  return headings.flatMap(({ line, index }, i) => {
+    const match = line.trim().match(MODE_HEADING_PATTERN);
+    if (!match) return [];
+    const end = i + 1 < headings.length ? headings[i + 1].index : lines.length;
+    return [{ id: match[2], name: match[1], start: index, end }];
+  });
+}
+
+/**
+ * 校验单个模式章节
+ * @param lines 全文的行
+ */
+function validateSection(lines: string[], section: ModeSection): PromptValidationIssue[] {
+  const { start, end } = section;
+  const issues: PromptValidationIssue[] = [];
+  const report = (level: PromptValidationIssue['level'], index: number, message: string) => {
+    issues.push({ level, line: index + 1, mode: section.id, message });
+  };
+
+  const fields = new Map<string, { value: string; index: number }>();
+  let markerIndex = -1;
+
+  for (let i = start + 1; i < end; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed === SYSTEM_PROMPT_MARKER) {
+      markerIndex = i;
+      break;
+    }
+    const match = trimmed.match(FIELD_PATTERN);
+    if (match) {
+      fields.set(match[1].trim(), { value: match[2].trim(), index: i });
+      if (!KNOWN_FIELDS.has(match[1].trim())) {
+        report('warning', i, `未知的配置项「${match[1]}」，将被忽略`);
+      }
+    }
+  }
+
+  const modeId = fields.get('模式ID');
+  if (modeId && modeId.value !== section.id) {
+    report('warning', modeId.index, `模式ID为「${modeId.value}」，与章节标题中的「${section.id}」不一致`);
+  }
+
+  const temperature = fields.get('温度参数');
+  if (!temperature) {
+    report('warning', start, '缺少温度参数，将使用默认值0.7');
+  } else {
+    const value = Number(temperature.value);
+    if (temperature.value === '' || !Number.isFinite(value) || value < 0 || value > 2) {
+      report('error', temperature.index, `温度参数「${temperature.value}」无效，应为0到2之间的数字`);
+    }
+  }
+
+  const reasoning = fields.get('推理强度');
+  if (reasoning && !REASONING_EFFORTS.has(reasoning.value)) {
+    report('error', reasoning.index, `未知的推理强度「${reasoning.value}」，可选值为low、medium、high`);
+  }
+
+  const thinking = fields.get('深度思考');
+  if (thinking && !THINKING_MODES.has(thinking.value)) {
+    report('error', thinking.index, `未知的深度思考设置「${thinking.value}」，可选值为enabled、disabled、auto`);
+  }
+
+  const followEmotion = fields.get('情感跟随');
+  if (followEmotion && !FOLLOW_EMOTION_VALUES.has(followEmotion.value)) {
+    report('warning', followEmotion.index, `未知的情感跟随设置「${followEmotion.value}」，可选值为开启、关闭，将默认开启`);
+  }
+
+  const stop = fields.get('停止词');
+  if (stop && stop.value.split('|').filter(item => item.trim()).length > 4) {
+    report('warning', stop.index, '停止词最多4个，超出的部分将被忽略');
+  }
+
+  for (const [name, [min, max]] of Object.entries(NUMBER_RANGES)) {
+    const field = fields.get(name);
+    if (!field) continue;
+    const value = Number(field.value);
+    if (field.value === '' || !Number.isFinite(value) || value < min || value > max) {
+      report('error', field.index, `${name}「${field.value}」无效，应为${min}到${max}之间的数字`);
+    }
+  }
+
+  const threshold = fields.get('审核阈值');
+  if (threshold && !/^[0-2]$/.test(threshold.value)) {
+    report('error', threshold.index, `审核阈值「${threshold.value}」无效，应为0、1或2`);
+  }
+
+  if (markerIndex === -1) {
+    report('error', start, `缺少「${SYSTEM_PROMPT_MARKER}」代码块`);
+    return issues;
+  }
+  if (lines[markerIndex + 1]?.trim() !== '```') {
+    report('error', markerIndex + 1, `「${SYSTEM_PROMPT_MARKER}」的下一行应为代码块开始标记\`\`\``);
+    return issues;
+  }
+
+  let closeIndex = -1;
+  for (let i = markerIndex + 2; i < end; i++) {
+    if (lines[i].trim() === '```') {
+      closeIndex = i;
+      break;
+    }
+  }
+  if (closeIndex === -1) {
+    report('error', markerIndex + 1, '系统提示词代码块没有结束标记```');
+  } else if (!lines.slice(markerIndex + 2, closeIndex).join('').trim()) {
+    report('error', markerIndex + 1, '系统提示词为空');
+  }
+
+  return issues;
+}
+
+/**
+ * 校验prompts.md全文
+ */
+export function validatePromptMarkdown(content: string): PromptValidationIssue[] {
+  if (!content.trim()) {
+    return [{ level: 'error', message: '提示词文件为空' }];
+  }
+
+  const lines = content.split('\n');
+  const sections = findModeSections(lines);
+  if (sections.length === 0) {
+    return [{ level: 'error', message: '没有找到模式章节，章节标题格式应为「## 名称 (id)」' }];
+  }
+
+  const issues: PromptValidationIssue[] = [];
+  const seenIds = new Set<string>();
+  for (const section of sections) {
+    if (seenIds.has(section.id)) {
+      issues.push({ level: 'error', line: section.start + 1, mode: section.id, message: `模式ID「${section.id}」重复，该章节将被忽略` });
+      continue;
+    }
+    seenIds.add(section.id);
+    issues.push(...validateSection(lines, section));
+  }
+
+  return issues;
+}
+
+/**
+ * 格式化校验问题，用于日志输出
+ * @param source 文件名
+ */
+export function formatValidationIssue(issue: PromptValidationIssue, source = 'prompts.md'): string {
+  const location = issue.line ? `${source} 第${issue.line}行` : source;
+  return `${location}${issue.mode ? ` [${issue.mode}]` : ''}: ${issue.message}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * AI回复后处理
+ * 抬杠、疗愈等模式的回复中带有括号里的动作神态（舞台说明），如「（双手叉腰大笑）」，
+ * 以及模型习惯输出的markdown标记。显示时把动作拆出来单独渲染，朗读时只保留可以念出来的文字
+ */
+import type { WordTimestamp } from './ttsService';
+
+// 回复片段
+export interface ReplyPart {
+  /** text为正文，strong为加粗正文，action为舞台说明 */
+  type: 'text' | 'strong' | 'action';
+  text: string;
+}
+
+/**
+ * 舞台说明：中英文括号内不超过20个字的内容，或单个星号包裹的动作（如「*拍拍肩膀*」）
+ * 更长的括号内容通常是正文中的补充说明，保留朗读；markdown链接的地址不算
+ */
+const STAGE_DIRECTION_PATTERN = /(?<!\])[（(]([^（）()\n]{1,20})[）)]|(?<!\*)\*([^*\n]{1,20})\*(?!\*)/g;
+
+/** 加粗：**文字** 或 __文字__ */
+const STRONG_PATTERN = /\*\*([^*\n]+)\*\*|__([^_\n]+)__/g;
+
+/** 行首的标题标记 */
+const HEADING_PATTERN = /^[ \t]*#{1,6}\s+/gm;
+
+/** 行首的markdown标记：标题、引用、列表符号 */
+const LINE_MARKER_PATTERN = /^[ \t]*(?:#{1,6}\s+|>\s?|[-*+]\s+|\d+[.、]\s+)/gm;
+
+/** 句读标点，动作两侧已有标点时不再补充停顿 */
+const PAUSE_PUNCTUATION = /[，。！？；：、…,.!?;:\s]/;
+
+// 显示文字中与一个朗读字词对应的范围
+export interface TimedRange {
+  /** 所在回复片段的下标 */
+  partIndex: number;
+  /** 在片段文字中的起止位置 */
+  start: number;
+  end: number;
+  /** 朗读的起止时间（秒） */
+  startTime: number;
+  endTime: number;
+}
+
+/** 对齐字词时最多向后查找的字数，超出则认为该字词在显示文字中没有对应 */
+const ALIGN_LOOKAHEAD = 12;
+
+/**
+ * 提取回复中的全部舞台说明（不含括号）
+ */
+export function extractActions(text: string): string[] {
+  return Array.from(text.matchAll(STAGE_DIRECTION_PATTERN), match => (match[1] ?? match[2]).trim());
+}
+
+/**
+ * 拆分正文中的加粗标记
+ */
+function splitStrong(text: string): ReplyPart[] {
+  const parts: ReplyPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(STRONG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      parts.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    parts.push({ type: 'strong', text: match[1] ?? match[2] });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return parts;
+}
+
+/**
+ * 将回复拆分为正文和舞台说明，供消息气泡分别渲染（列表等行首标记保留显示）
+ * 流式输出中尚未闭合的括号按正文显示，闭合后再变为动作
+ */
+export function parseReply(text: string): ReplyPart[] {
+  const content = text.replace(HEADING_PATTERN, '');
+  const parts: ReplyPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(STAGE_DIRECTION_PATTERN)) {
+    if (match.index! > lastIndex) {
+      parts.push(...splitStrong(content.slice(lastIndex, match.index)));
+    }
+    parts.push({ type: 'action', text: (match[1] ?? match[2]).trim() });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < content.length) {
+    parts.push(...splitStrong(content.slice(lastIndex)));
+  }
+  return parts;
+}
+
+/**
+ * 转换为朗读用的纯文本：去掉舞台说明和markdown标记
+ * 动作夹在两段文字之间且两侧都没有标点时补一个逗号，让朗读在此处稍作停顿
+ */
+export function toSpeakableText(text: string): string {
+  const content = text
+    .replace(LINE_MARKER_PATTERN, '')
+    .replace(STRONG_PATTERN, (_, bold, underline) => bold ?? underline)
+    .replace(/`([^`\n]*)`/g, '$1')
+    .replace(/\[([^\]\n]*)\]\([^)\n]*\)/g, '$1');
+
+  return content
+    .replace(STAGE_DIRECTION_PATTERN, (match, _paren, _star, offset: number) => {
+      const before = content[offset - 1];
+      const after = content[offset + match.length];
+      const needsPause = before && after && !PAUSE_PUNCTUATION.test(before) && !PAUSE_PUNCTUATION.test(after);
+      return needsPause ? '，' : '';
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+/**
+ * 把朗读的逐字时间戳对应到显示的回复片段上
+ * 朗读文本去掉了舞台说明和markdown标记，按顺序在正文片段中查找每个字词，标点和找不到的字词跳过
+ */
+export function alignTimestamps(parts: ReplyPart[], words: WordTimestamp[]): TimedRange[] {
+  const ranges: TimedRange[] = [];
+  let cursorPart = 0;
+  let cursorOffset = 0;
+
+  for (const { word, startTime, endTime } of words) {
+    const target = word.trim();
+    // 标点（包括朗读时在动作处补充的停顿）不高亮，也避免错配到后面的同一标点上
+    if (Array.from(target).every(char => PAUSE_PUNCTUATION.test(char))) continue;
+
+    let scanned = 0;
+    for (let partIndex = cursorPart; partIndex < parts.length && scanned <= ALIGN_LOOKAHEAD; partIndex++) {
+      const part = parts[partIndex];
+      if (part.type === 'action') continue;
+
+      const from = partIndex === cursorPart ? cursorOffset : 0;
+      const index = part.text.indexOf(target, from);
+      if (index !== -1 && scanned + index - from <= ALIGN_LOOKAHEAD) {
+        ranges.push({ partIndex, start: index, end: index + target.length, startTime, endTime });
+        cursorPart = partIndex;
+        cursorOffset = index + target.length;
+        break;
+      }
+      scanned += part.text.length - from;
+    }
+  }
+  return ranges;
+}
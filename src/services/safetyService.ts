@@ -0,0 +1,268 @@
+/**
+ * 危机安全检测
+ * 对每条用户消息进行自杀/自伤风险筛查：先匹配关键词词库，开启VITE_SAFETY_CLASSIFIER后
+ * 再由模型分类器复核词库未命中的消息。检测到高风险时：
+ * - 对话服务在系统提示词末尾追加安全指令（对所有模式生效，优先于角色设定）
+ * - 通知界面展示求助热线横幅
+ * - 在本地记录事件（只记录命中的关键词，不保存消息原文）
+ */
+import type { ChatMessage } from './doubaoApi';
+import { llmProviders } from './llmProviders';
+
+// 风险等级
+export type RiskLevel = 'none' | 'elevated' | 'high';
+
+// 检测结果
+export interface SafetyAssessment {
+  level: RiskLevel;
+  /** 命中的关键词或分类器给出的理由 */
+  matched: string[];
+  /** 判定来源 */
+  source: 'lexicon' | 'classifier';
+}
+
+// 本地记录的安全事件
+export interface SafetyEvent {
+  timestamp: number;
+  mode: string;
+  level: RiskLevel;
+  source: SafetyAssessment['source'];
+  matched: string[];
+}
+
+type CrisisListener = (assessment: SafetyAssessment) => void;
+
+/** 高风险表达：明确的自杀、自伤意图或方式 */
+const HIGH_RISK_PATTERNS: RegExp[] = [
+  /自杀/, /轻生/, /寻死/, /想死/, /不想活/, /活不下去/, /活着没(有)?意思/,
+  /结束(自己的)?生命/, /了结自己/, /一了百了/, /离开这个世界/,
+  /自残/, /自伤/, /割腕/, /伤害自己/, /跳楼/, /跳河/, /上吊/, /烧炭/,
+  /吞(安眠)?药/, /(吃|吞)了?(一整?瓶|一把|很多|好多)(安眠)?药/, /安眠药/, /遗书/,
+  /kill myself/i, /suicid(e|al)/i, /end my life/i, /want to die/i, /self[- ]?harm/i, /hurt myself/i,
+];
+
+/** 常见的夸张说法，命中时不视为风险（如「想死你了」「笑死」） */
+const FALSE_POSITIVE_PATTERNS: RegExp[] = [
+  /想死(你|我|他|她|它)了/, /想死你/, /不想死/,
+];
+
+/** 需要关注的表达：绝望、无助，单独出现时不触发危机处理 */
+const ELEVATED_PATTERNS: RegExp[] = [
+  /绝望/, /撑不下去/, /没有希望/, /没人在乎我/, /我是(个)?累赘/, /活着好累/, /消失就好了/,
+  /hopeless/i, /can'?t go on/i,
+];
+
+/** 追加到系统提示词末尾的安全指令 */
+export const SAFETY_INSTRUCTION = `# 安全优先（最高优先级，覆盖以上所有角色设定）
+用户在对话中流露出自杀或自伤的念头。从现在起：
+1. 停止上述角色中的抬杠、挖苦、引导撒气等一切表演，用真诚、温和、不评判的语气回应；
+2. 认真对待用户的感受，表达关心，温和而直接地询问用户现在是否安全、是否有伤害自己的打算；
+3. 鼓励用户联系身边信任的人，以及页面上方显示的心理援助热线（如希望24热线 400-161-9995），情况紧急时拨打110或120；
+4. 不提供任何自伤方式、药物剂量等信息，不对自杀行为做正面或中立的描述；
+5. 坦诚说明自己是AI，不能替代专业的心理危机干预。`;
+
+/** 模型分类器使用的系统提示词 */
+const CLASSIFIER_SYSTEM_PROMPT = `你是心理危机风险筛查助手。判断用户这句话是否流露出自杀或自伤的意图。
+只输出JSON，格式为：{"risk":"high|elevated|none","reason":"不超过20字的理由"}
+- high：表达了想死、自杀、自伤的念头、计划或方式
+- elevated：表达了强烈的绝望、无助，但没有提到伤害自己
+- none：其他情况，包括「笑死」「想死你了」等夸张说法`;
+
+/** 分类器超时时间（毫秒），超时按词库结果处理，避免阻塞对话 */
+const CLASSIFIER_TIMEOUT = 4000;
+
+const EVENT_LOG_KEY = 'qingxupaijie:safetyEvents';
+/** 本地最多保留的事件条数 */
+const MAX_LOGGED_EVENTS = 100;
+
+const LEVEL_ORDER: Record<RiskLevel, number> = { none: 0, elevated: 1, high: 2 };
+
+class SafetyService {
+  private listeners = new Set<CrisisListener>();
+  private classifierEnabled = import.meta.env.VITE_SAFETY_CLASSIFIER === 'true';
+
+  /**
+   * 用关键词词库检测单条文本
+   */
+  assessText(text: string): SafetyAssessment {
+    const cleaned = FALSE_POSITIVE_PATTERNS.reduce((result, pattern) => result.replace(new RegExp(pattern, 'g'), ''), text);
+
+    const highMatches = this.collectMatches(cleaned, HIGH_RISK_PATTERNS);
+    if (highMatches.length > 0) {
+      return { level: 'high', matched: highMatches, source: 'lexicon' };
+    }
+
+    const elevatedMatches = this.collectMatches(cleaned, ELEVATED_PATTERNS);
+    return {
+      level: elevatedMatches.length > 0 ? 'elevated' : 'none',
+      matched: elevatedMatches,
+      source: 'lexicon',
+    };
+  }
+
+  /**
+   * 检测一次对话请求
+   * 最后一条用户消息完整检测（词库 + 可选分类器），并在高风险时记录和通知；
+   * 之前的用户消息只用词库复查，使同一会话后续的回复继续遵循安全指令
+   */
+  async assessConversation(messages: ChatMessage[], mode: string): Promise<SafetyAssessment> {
+    const userMessages = messages.filter(msg => msg.role === 'user');
+    const latest = userMessages[userMessages.length - 1];
+    if (!latest) {
+      return { level: 'none', matched: [], source: 'lexicon' };
+    }
+
+    const assessment = await this.assessMessage(latest.content);
+    if (assessment.level === 'high') {
+      this.recordEvent(assessment, mode);
+      this.notify(assessment);
+      return assessment;
+    }
+
+    const earlierHigh = userMessages
+      .slice(0, -1)
+      .map(msg => this.assessText(msg.content))
+      .find(result => result.level === 'high');
+    return earlierHigh ?? assessment;
+  }
+
+  /**
+   * 检测单条用户消息：词库判定为高风险时直接返回，否则在开启时交给分类器复核
+   */
+  async assessMessage(text: string): Promise<SafetyAssessment> {
+    const lexiconResult = this.assessText(text);
+    if (lexiconResult.level === 'high' || !this.classifierEnabled) {
+      return lexiconResult;
+    }
+
+    const classifierResult = await this.classify(text);
+    if (classifierResult && LEVEL_ORDER[classifierResult.level] > LEVEL_ORDER[lexiconResult.level]) {
+      return classifierResult;
+    }
+    return lexiconResult;
+  }
+
+  /**
+   * 已有对话中是否出现过高风险表达（载入历史会话时使用）
+   */
+  hasCrisis(messages: ChatMessage[]): boolean {
+    return messages.some(msg => msg.role === 'user' && this.assessText(msg.content).level === 'high');
+  }
+
+  /**
+   * 订阅高风险事件，返回取消订阅函数
+   */
+  onCrisis(listener: CrisisListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 读取本地记录的安全事件
+   */
+  getEvents(): SafetyEvent[] {
+    try {
+      const events = JSON.parse(localStorage.getItem(EVENT_LOG_KEY) || '[]');
+      return Array.isArray(events) ? events : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 清空本地记录的安全事件
+   */
+  clearEvents(): void {
+    localStorage.removeItem(EVENT_LOG_KEY);
+  }
+
+  /**
+   * 开启或关闭模型分类器
+   */
+  setClassifierEnabled(enabled: boolean): void {
+    this.classifierEnabled = enabled;
+  }
+
+  private collectMatches(text: string, patterns: RegExp[]): string[] {
+    return patterns
+      .map(pattern => text.match(pattern)?.[0])
+      .filter((match): match is string => !!match);
+  }
+
+  /**
+   * 调用默认模型提供方进行分类，失败或超时返回null
+   */
+  private async classify(text: string): Promise<SafetyAssessment | null> {
+    const provider = llmProviders.get();
+    if (!provider.isConfigured()) {
+      return null;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), CLASSIFIER_TIMEOUT);
+
+    try {
+      const completion = await provider.complete({
+        messages: [
+          { role: 'system', content: CLASSIFIER_SYSTEM_PROMPT },
+          { role: 'user', content: text }
+        ],
+        temperature: 0,
+        maxTokens: 60,
+        signal: controller.signal
+      });
+
+      const json = completion.content.match(/\{[\s\S]*\}/)?.[0];
+      const result = json ? JSON.parse(json) : null;
+      if (!result || !['none', 'elevated', 'high'].includes(result.risk)) {
+        console.warn('⚠️ 安全分类器返回格式错误:', completion.content);
+        return null;
+      }
+
+      return {
+        level: result.risk,
+        matched: typeof result.reason === 'string' ? [result.reason] : [],
+        source: 'classifier',
+      };
+    } catch (error) {
+      console.warn('⚠️ 安全分类器调用失败，使用词库结果:', error);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private recordEvent(assessment: SafetyAssessment, mode: string): void {
+    console.warn('🆘 检测到高风险表达:', assessment);
+
+    const event: SafetyEvent = {
+      timestamp: Date.now(),
+      mode,
+      level: assessment.level,
+      source: assessment.source,
+      matched: assessment.matched,
+    };
+
+    try {
+      const events = [...this.getEvents(), event].slice(-MAX_LOGGED_EVENTS);
+      localStorage.setItem(EVENT_LOG_KEY, JSON.stringify(events));
+    } catch (error) {
+      console.warn('安全事件记录失败:', error);
+    }
+  }
+
+  private notify(assessment: SafetyAssessment): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(assessment);
+      } catch (error) {
+        console.error('安全事件回调出错:', error);
+      }
+    });
+  }
+}
+
+// 导出单例实例
+export const safetyService = new SafetyService();
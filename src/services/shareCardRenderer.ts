@@ -0,0 +1,239 @@
+/**
+ * 分享图片生成
+ * 用Canvas按聊天气泡的样式绘制对话：用户消息为右侧紫粉渐变气泡，AI回复为左侧浅灰气泡，
+ * 舞台说明以琥珀色显示。只绘制最近的若干条消息，过长的消息截断，避免图片过长
+ */
+import { parseReply } from './replyFormatter';
+import type { DisplayMessage } from './conversationStore';
+
+// 分享卡片内容
+export interface ShareCardOptions {
+  /** 模式名称，如「抬杠」 */
+  modeLabel: string;
+  /** 会话标题 */
+  title: string;
+  messages: DisplayMessage[];
+}
+
+// 一段相同样式的文字
+interface TextRun {
+  text: string;
+  color: string;
+  bold?: boolean;
+}
+
+// 排版后的一行
+type TextLine = TextRun[];
+
+/** 分享卡片最多显示的消息数 */
+export const SHARE_CARD_MAX_MESSAGES = 12;
+/** 每个气泡最多显示的行数，超出部分省略 */
+const MAX_BUBBLE_LINES = 16;
+
+/** 以下尺寸为逻辑像素，绘制时按SCALE放大以保证清晰度 */
+const SCALE = 2;
+const CARD_WIDTH = 420;
+const PADDING = 20;
+const HEADER_HEIGHT = 72;
+const FOOTER_HEIGHT = 44;
+const BUBBLE_MAX_WIDTH = CARD_WIDTH * 0.75;
+const BUBBLE_PADDING_X = 16;
+const BUBBLE_PADDING_Y = 10;
+const BUBBLE_RADIUS = 16;
+const BUBBLE_GAP = 14;
+const FONT_SIZE = 15;
+const LINE_HEIGHT = 22;
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+/** 配色与消息气泡一致（Tailwind purple-500、pink-500、gray-100、gray-800、amber-700） */
+const COLORS = {
+  purple: '#a855f7',
+  pink: '#ec4899',
+  assistantBubble: '#f3f4f6',
+  assistantText: '#1f2937',
+  userText: '#ffffff',
+  action: '#b45309',
+  background: '#faf5ff',
+  muted: '#6b7280',
+};
+
+const font = (bold?: boolean) => `${bold ? 'bold ' : ''}${FONT_SIZE}px ${FONT_FAMILY}`;
+
+/**
+ * 消息转换为带样式的文字：AI回复的舞台说明用琥珀色，加粗文字加粗
+ */
+function toRuns(message: DisplayMessage): TextRun[] {
+  if (message.role === 'user') {
+    return [{ text: message.content.trim(), color: COLORS.userText }];
+  }
+  return parseReply(message.content.trim()).map(part => {
+    if (part.type === 'action') {
+      return { text: `（${part.text}）`, color: COLORS.action };
+    }
+    return { text: part.text, color: COLORS.assistantText, bold: part.type === 'strong' };
+  });
+}
+
+/**
+ * 按最大宽度逐字折行，遇到换行符时另起一行
+ */
+function wrapRuns(context: CanvasRenderingContext2D, runs: TextRun[], maxWidth: number): TextLine[] {
+  const lines: TextLine[] = [[]];
+  let lineWidth = 0;
+
+  for (const run of runs) {
+    context.font = font(run.bold);
+    for (const char of Array.from(run.text)) {
+      if (char === '\n') {
+        lines.push([]);
+        lineWidth = 0;
+        continue;
+      }
+
+      const charWidth = context.measureText(char).width;
+      if (lineWidth + charWidth > maxWidth && lines[lines.length - 1].length > 0) {
+        lines.push([]);
+        lineWidth = 0;
+      }
+
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      if (last && last.color === run.color && last.bold === run.bold) {
+        last.text += char;
+      } else {
+        line.push({ text: char, color: run.color, bold: run.bold });
+      }
+      lineWidth += charWidth;
+    }
+  }
+  return lines;
+}
+
+/**
+ * 一行文字的宽度
+ */
+function measureLine(context: CanvasRenderingContext2D, line: TextLine): number {
+  return line.reduce((width, run) => {
+    context.font = font(run.bold);
+    return width + context.measureText(run.text).width;
+  }, 0);
+}
+
+/**
+ * 绘制圆角矩形路径
+ */
+function roundedRect(context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
+  const r = Math.min(radius, width / 2, height / 2);
+  context.beginPath();
+  context.moveTo(x + r, y);
+  context.arcTo(x + width, y, x + width, y + height, r);
+  context.arcTo(x + width, y + height, x, y + height, r);
+  context.arcTo(x, y + height, x, y, r);
+  context.arcTo(x, y, x + width, y, r);
+  context.closePath();
+}
+
+class ShareCardRenderer {
+  /**
+   * 生成分享图片（PNG）
+   */
+  async render(options: ShareCardOptions): Promise<Blob> {
+    const messages = options.messages.filter(msg => msg.role !== 'system' && msg.content.trim());
+    if (messages.length === 0) {
+      throw new Error('对话中没有可以分享的内容');
+    }
+    const shown = messages.slice(-SHARE_CARD_MAX_MESSAGES);
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('当前浏览器不支持生成图片');
+    }
+
+    // 先排版，计算画布高度
+    const textMaxWidth = BUBBLE_MAX_WIDTH - BUBBLE_PADDING_X * 2;
+    const bubbles = shown.map(message => {
+      const lines = wrapRuns(context, toRuns(message), textMaxWidth);
+      if (lines.length > MAX_BUBBLE_LINES) {
+        lines.length = MAX_BUBBLE_LINES;
+        const lastLine = lines[MAX_BUBBLE_LINES - 1];
+        lastLine.push({ ...lastLine[lastLine.length - 1] ?? { color: COLORS.muted }, text: '…' });
+      }
+      const textWidth = Math.max(...lines.map(line => measureLine(context, line)));
+      return {
+        isUser: message.role === 'user',
+        lines,
+        width: Math.ceil(textWidth) + BUBBLE_PADDING_X * 2,
+        height: lines.length * LINE_HEIGHT + BUBBLE_PADDING_Y * 2,
+      };
+    });
+    const bodyHeight = bubbles.reduce((sum, bubble) => sum + bubble.height + BUBBLE_GAP, 0);
+    const height = HEADER_HEIGHT + PADDING + bodyHeight + FOOTER_HEIGHT;
+
+    canvas.width = CARD_WIDTH * SCALE;
+    canvas.height = height * SCALE;
+    context.scale(SCALE, SCALE);
+    context.textBaseline = 'middle';
+
+    // 背景
+    context.fillStyle = COLORS.background;
+    context.fillRect(0, 0, CARD_WIDTH, height);
+
+    // 头部：与聊天头部相同的渐变
+    const headerGradient = context.createLinearGradient(0, 0, CARD_WIDTH, 0);
+    headerGradient.addColorStop(0, COLORS.purple);
+    headerGradient.addColorStop(1, COLORS.pink);
+    context.fillStyle = headerGradient;
+    context.fillRect(0, 0, CARD_WIDTH, HEADER_HEIGHT);
+    context.fillStyle = COLORS.userText;
+    context.font = `bold 18px ${FONT_FAMILY}`;
+    context.fillText(`${options.modeLabel}模式`, PADDING, 26);
+    if (options.title) {
+      context.font = `13px ${FONT_FAMILY}`;
+      context.fillText(options.title, PADDING, 50, CARD_WIDTH - PADDING * 2);
+    }
+
+    // 消息气泡
+    let y = HEADER_HEIGHT + PADDING;
+    for (const bubble of bubbles) {
+      const x = bubble.isUser ? CARD_WIDTH - PADDING - bubble.width : PADDING;
+      roundedRect(context, x, y, bubble.width, bubble.height, BUBBLE_RADIUS);
+      if (bubble.isUser) {
+        const gradient = context.createLinearGradient(x, 0, x + bubble.width, 0);
+        gradient.addColorStop(0, COLORS.purple);
+        gradient.addColorStop(1, COLORS.pink);
+        context.fillStyle = gradient;
+      } else {
+        context.fillStyle = COLORS.assistantBubble;
+      }
+      context.fill();
+
+      bubble.lines.forEach((line, index) => {
+        let textX = x + BUBBLE_PADDING_X;
+        const textY = y + BUBBLE_PADDING_Y + LINE_HEIGHT * index + LINE_HEIGHT / 2;
+        for (const run of line) {
+          context.font = font(run.bold);
+          context.fillStyle = run.color;
+          context.fillText(run.text, textX, textY);
+          textX += context.measureText(run.text).width;
+        }
+      });
+      y += bubble.height + BUBBLE_GAP;
+    }
+
+    // 底部说明
+    context.font = `12px ${FONT_FAMILY}`;
+    context.fillStyle = COLORS.muted;
+    context.textAlign = 'center';
+    const omitted = messages.length - shown.length;
+    const footer = `情绪排解助手 · ${new Date().toLocaleDateString()}${omitted > 0 ? ` · 仅显示最近${shown.length}条` : ''}`;
+    context.fillText(footer, CARD_WIDTH / 2, height - FOOTER_HEIGHT / 2);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('图片生成失败'))), 'image/png');
+    });
+  }
+}
+
+// 导出单例实例
+export const shareCardRenderer = new ShareCardRenderer();
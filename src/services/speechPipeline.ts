@@ -0,0 +1,293 @@
+/**
+ * 分句流水线语音合成
+ * 将长回复按句切分后并发合成（并发数有上限），再按原顺序追加到播放队列中的同一个播放项，
+ * 第一句合成完成即可开始播放，后续句子在播放期间继续合成。
+ * 当前语音提供方不产出音频数据（浏览器朗读）时，按顺序逐句直接朗读，结果中没有音频
+ */
+import { ttsService, TTSResponse, AudioFormat, SentenceTimestamp } from './ttsService';
+import { audioQueueManager, QueueSegment, QueuePriority } from './audioQueueManager';
+import { concatAudioChunks } from './audioCodec';
+import { audioGraph } from './audioGraph';
+import { SentenceSegmenter } from './textSegmenter';
+import { toSpeakableText } from './replyFormatter';
+import { emotionDetector } from './emotionDetector';
+
+// 流水线配置选项
+export interface SpeechPipelineOptions {
+  /** 语音模式 */
+  mode: string;
+  /** 所属消息ID，用于生成播放队列中的音频标识 */
+  messageId: string;
+  /** 最大并发合成数 */
+  concurrency?: number;
+  /** 是否在合成完成后自动按顺序播放 */
+  autoPlay?: boolean;
+  /** 加入播放队列的优先级，默认排在队尾 */
+  priority?: QueuePriority;
+  /** 单个片段合成失败回调 */
+  onSegmentError?: (index: number, error: string) => void;
+}
+
+// 流水线结果
+export interface SpeechPipelineResult {
+  /** 合并后的base64音频数据，全部失败或直接朗读时为undefined */
+  audio?: string;
+  /** 音频格式 */
+  format: AudioFormat;
+  /** 合并后音频的逐句、逐字时间戳，提供方未返回时为undefined */
+  timestamps?: SentenceTimestamp[];
+  /** 片段文本 */
+  segments: string[];
+  /** 合成失败的片段数 */
+  failedCount: number;
+}
+
+// 单个片段的合成状态
+interface SegmentTask {
+  text: string;
+  result?: Promise<TTSResponse>;
+}
+
+export class SpeechPipeline {
+  private readonly options: Required<Omit<SpeechPipelineOptions, 'onSegmentError'>> &
+    Pick<SpeechPipelineOptions, 'onSegmentError'>;
+  private readonly segmenter = new SentenceSegmenter();
+  private tasks: SegmentTask[] = [];
+  private nextToStart = 0;
+  private inFlight = 0;
+  private isCancelled = false;
+  private playbackChain: Promise<void> = Promise.resolve();
+  /** 只有舞台说明、没有可朗读文字的片段，并入下一个片段以保留其语气 */
+  private pendingActions = '';
+  /** 播放队列中的播放项标识，整条回复为一项 */
+  private readonly queueId: string;
+  private isQueued = false;
+  private isDropped = false;
+  private readonly speakOnly = !ttsService.producesAudio();
+
+  constructor(options: SpeechPipelineOptions) {
+    this.options = {
+      concurrency: 2,
+      autoPlay: true,
+      priority: 'normal',
+      ...options,
+    };
+    this.queueId = `reply-${options.messageId}`;
+  }
+
+  /**
+   * 写入增量文本（流式回复时逐段调用）
+   */
+  push(delta: string): void {
+    if (this.isCancelled) return;
+    this.enqueue(this.segmenter.push(delta));
+  }
+
+  /**
+   * 写入完整文本并结束输入
+   */
+  async synthesizeAll(text: string): Promise<SpeechPipelineResult> {
+    this.push(text);
+    return this.end();
+  }
+
+  /**
+   * 结束输入，等待全部片段合成（及播放排队）完成
+   */
+  async end(): Promise<SpeechPipelineResult> {
+    this.enqueue(this.segmenter.flush());
+    this.playbackChain = this.playbackChain.then(() => audioQueueManager.finishSegments(this.queueId));
+
+    if (this.speakOnly) {
+      return {
+        format: 'mp3',
+        segments: this.tasks.map(task => task.text),
+        failedCount: 0,
+      };
+    }
+
+    // 片段可能仍在排队等待合成，逐个等待其开始并完成
+    const responses: TTSResponse[] = [];
+    for (let i = 0; i < this.tasks.length; i++) {
+      responses.push(await this.waitForSegment(i));
+    }
+
+    const succeeded = responses.filter(response => response.success && response.data?.audio);
+    const audioParts = succeeded.map(response => response.data!.audio);
+    const format = succeeded[0]?.data?.format ?? 'mp3';
+
+    return {
+      audio: audioParts.length > 0 ? concatAudioChunks(audioParts, format) : undefined,
+      format,
+      timestamps: await this.mergeTimestamps(succeeded, format),
+      segments: this.tasks.map(task => task.text),
+      failedCount: responses.length - audioParts.length,
+    };
+  }
+
+  /**
+   * 把各片段的时间戳按片段时长依次偏移，对应到合并后的音频上
+   * 片段时长取解码结果，无法解码时以最后一个字的结束时间代替
+   */
+  private async mergeTimestamps(responses: TTSResponse[], format: AudioFormat): Promise<SentenceTimestamp[] | undefined> {
+    if (!responses.some(response => response.data?.sentences?.length)) return undefined;
+
+    const merged: SentenceTimestamp[] = [];
+    let offset = 0;
+    for (const response of responses) {
+      const sentences = response.data?.sentences ?? [];
+      for (const sentence of sentences) {
+        merged.push({
+          text: sentence.text,
+          startTime: sentence.startTime + offset,
+          endTime: sentence.endTime + offset,
+          words: sentence.words.map(word => ({
+            word: word.word,
+            startTime: word.startTime + offset,
+            endTime: word.endTime + offset,
+          })),
+        });
+      }
+
+      const { duration } = await audioGraph.decode(response.data!.audio, response.data?.format ?? format);
+      offset += duration || (sentences[sentences.length - 1]?.endTime ?? 0);
+    }
+    return merged;
+  }
+
+  /**
+   * 等待已排队的片段全部播放完（或被取消）
+   * 需在end()之后调用，否则后续写入的片段不在等待范围内
+   */
+  async waitForPlayback(): Promise<void> {
+    await this.playbackChain;
+    await audioQueueManager.waitFor(this.queueId);
+  }
+
+  /**
+   * 只停止播放，合成继续进行，end()仍返回完整的语音
+   */
+  stopPlayback(): void {
+    this.isDropped = true;
+    audioQueueManager.remove(this.queueId);
+  }
+
+  /**
+   * 取消流水线：停止后续合成与播放
+   */
+  cancel(): void {
+    this.isCancelled = true;
+    audioQueueManager.remove(this.queueId);
+  }
+
+  /**
+   * 追加新片段并调度合成
+   * 模式开启情感跟随时，片段在语气变化处再切开（段数有上限），使语气不同的句子按各自的语气合成
+   */
+  private enqueue(segments: string[]): void {
+    const followEmotion = ttsService.getVoiceConfigByMode(this.options.mode).followEmotion !== false;
+    const pieces = followEmotion ? segments.flatMap(segment => emotionDetector.splitByTone(segment)) : segments;
+
+    for (const segment of pieces) {
+      const text = this.pendingActions + segment;
+      if (!toSpeakableText(text)) {
+        this.pendingActions = text;
+        continue;
+      }
+      this.pendingActions = '';
+      const index = this.tasks.length;
+      this.tasks.push({ text });
+      this.schedulePlayback(index);
+    }
+    this.pump();
+  }
+
+  /**
+   * 在并发上限内启动等待中的合成任务
+   */
+  private pump(): void {
+    // 直接朗读时无需预先合成
+    if (this.speakOnly) return;
+
+    while (!this.isCancelled && this.inFlight < this.options.concurrency && this.nextToStart < this.tasks.length) {
+      const index = this.nextToStart++;
+      const task = this.tasks[index];
+      this.inFlight++;
+
+      task.result = ttsService
+        .synthesizeByMode(task.text, this.options.mode)
+        .catch((error): TTSResponse => ({
+          success: false,
+          error: error instanceof Error ? error.message : '语音合成出错',
+        }))
+        .then(response => {
+          if (!response.success) {
+            console.error(`第${index + 1}段语音合成失败:`, response.error);
+            this.options.onSegmentError?.(index, response.error || '语音合成失败');
+          }
+          return response;
+        })
+        .finally(() => {
+          this.inFlight--;
+          this.pump();
+        });
+    }
+  }
+
+  /**
+   * 等待指定片段合成完成
+   */
+  private async waitForSegment(index: number): Promise<TTSResponse> {
+    while (!this.tasks[index].result) {
+      if (this.isCancelled) {
+        return { success: false, error: '已取消' };
+      }
+      // 等待前面的任务释放并发名额
+      await Promise.race(this.tasks.filter(task => task.result).map(task => task.result));
+    }
+    return this.tasks[index].result!;
+  }
+
+  /**
+   * 片段合成完成后按原顺序追加到播放队列
+   */
+  private schedulePlayback(index: number): void {
+    if (!this.options.autoPlay) return;
+
+    this.playbackChain = this.playbackChain.then(async () => {
+      const { text } = this.tasks[index];
+      if (this.speakOnly) {
+        this.queueSegment({ type: 'speech', text, mode: this.options.mode });
+        return;
+      }
+
+      const response = await this.waitForSegment(index);
+      if (this.isCancelled || !response.success || !response.data?.audio) return;
+      this.queueSegment({ type: 'audio', audio: response.data.audio, format: response.data.format, text });
+    });
+  }
+
+  /**
+   * 第一个片段创建播放项，之后的片段追加到同一项中
+   */
+  private queueSegment(segment: QueueSegment): void {
+    if (this.isCancelled || this.isDropped) return;
+
+    if (!this.isQueued) {
+      this.isQueued = true;
+      audioQueueManager.enqueue({
+        id: this.queueId,
+        messageId: this.options.messageId,
+        title: toSpeakableText(segment.text ?? ''),
+        segments: [segment],
+        pending: true,
+      }, this.options.priority);
+      return;
+    }
+
+    // 用户跳过了这条回复，不再追加
+    if (!audioQueueManager.appendSegments(this.queueId, [segment])) {
+      this.isDropped = true;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 流式音频播放器
+ * 基于MediaSource，边接收TTS音频分片边播放；
+ * 浏览器不支持时退回到接收完毕后整体播放
+ */
+import { base64ToBytes, concatBytes } from './audioCodec';
+
+const MP3_MIME_TYPE = 'audio/mpeg';
+
+export class StreamingAudioPlayer {
+  private audio: HTMLAudioElement;
+  private mediaSource: MediaSource | null = null;
+  private sourceBuffer: SourceBuffer | null = null;
+  private pendingChunks: Uint8Array[] = [];
+  private fallbackChunks: Uint8Array[] = [];
+  private isEnded = false;
+  private objectUrl: string | null = null;
+
+  constructor(audio: HTMLAudioElement = new Audio()) {
+    this.audio = audio;
+  }
+
+  /**
+   * 检查当前浏览器是否支持MP3流式播放
+   */
+  static isSupported(): boolean {
+    return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(MP3_MIME_TYPE);
+  }
+
+  /**
+   * 开始播放会话，之后通过appendChunk持续写入音频
+   */
+  start(): void {
+    if (!StreamingAudioPlayer.isSupported()) {
+      console.warn('当前浏览器不支持MediaSource流式播放，将在接收完毕后播放');
+      return;
+    }
+
+    this.mediaSource = new MediaSource();
+    this.objectUrl = URL.createObjectURL(this.mediaSource);
+    this.audio.src = this.objectUrl;
+
+    this.mediaSource.addEventListener('sourceopen', () => {
+      if (!this.mediaSource) return;
+      this.sourceBuffer = this.mediaSource.addSourceBuffer(MP3_MIME_TYPE);
+      this.sourceBuffer.addEventListener('updateend', () => this.flush());
+      this.flush();
+    }, { once: true });
+
+    this.audio.play().catch(error => {
+      console.warn('流式播放启动失败:', error);
+    });
+  }
+
+  /**
+   * 写入一段base64音频数据
+   */
+  appendChunk(base64Chunk: string): void {
+    const bytes = base64ToBytes(base64Chunk);
+
+    if (!this.mediaSource) {
+      this.fallbackChunks.push(bytes);
+      return;
+    }
+
+    this.pendingChunks.push(bytes);
+    this.flush();
+  }
+
+  /**
+   * 标记音频已全部写入
+   * 返回的Promise在播放结束时完成
+   */
+  end(): Promise<void> {
+    this.isEnded = true;
+
+    if (!this.mediaSource) {
+      // 退回模式：整体播放已收集的音频
+      const blob = new Blob([concatBytes(this.fallbackChunks)], { type: MP3_MIME_TYPE });
+      this.objectUrl = URL.createObjectURL(blob);
+      this.audio.src = this.objectUrl;
+      this.audio.play().catch(error => {
+        console.warn('音频播放失败:', error);
+      });
+    } else {
+      this.flush();
+    }
+
+    return new Promise(resolve => {
+      if (this.audio.ended) {
+        resolve();
+        return;
+      }
+      const handleDone = () => {
+        this.audio.removeEventListener('ended', handleDone);
+        this.audio.removeEventListener('error', handleDone);
+        resolve();
+      };
+      this.audio.addEventListener('ended', handleDone);
+      this.audio.addEventListener('error', handleDone);
+    });
+  }
+
+  /**
+   * 停止播放并释放资源
+   */
+  stop(): void {
+    this.audio.pause();
+    this.pendingChunks = [];
+    this.fallbackChunks = [];
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.mediaSource = null;
+    this.sourceBuffer = null;
+  }
+
+  /**
+   * 将等待中的分片写入SourceBuffer
+   * SourceBuffer同一时间只能处理一次append，其余分片在updateend后继续写入
+   */
+  private flush(): void {
+    if (!this.mediaSource || !this.sourceBuffer || this.sourceBuffer.updating) {
+      return;
+    }
+
+    const nextChunk = this.pendingChunks.shift();
+    if (nextChunk) {
+      this.sourceBuffer.appendBuffer(nextChunk);
+      return;
+    }
+
+    if (this.isEnded && this.mediaSource.readyState === 'open') {
+      this.mediaSource.endOfStream();
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * 文本分段工具
+ * 按中文标点将长回复切分为适合TTS合成的片段
+ */
+
+// 句末标点（含英文标点和换行）
+const SENTENCE_END_PATTERN = /[。！？；…!?;\n]/;
+// 紧跟在句末标点后、应归属于上一句的字符（引号、括号、重复标点）
+const TRAILING_CLOSERS = /[」』”’"'）)】》。！？；…!?;]/;
+// 句中停顿标点，用于切分超长句子
+const CLAUSE_BREAK_PATTERN = /[，、：,:]/;
+
+/** TTS单次请求的默认最大字符数（服务端上限为1000） */
+export const DEFAULT_SEGMENT_MAX_LENGTH = 300;
+
+/**
+ * 按句末标点切分文本，标点保留在句尾
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    current += char;
+
+    if (SENTENCE_END_PATTERN.test(char)) {
+      // 把连续的句末标点和右引号/右括号并入当前句
+      while (i + 1 < text.length && TRAILING_CLOSERS.test(text[i + 1])) {
+        current += text[++i];
+      }
+      if (current.trim()) {
+        sentences.push(current.trim());
+      }
+      current = '';
+    }
+  }
+
+  if (current.trim()) {
+    sentences.push(current.trim());
+  }
+
+  return sentences;
+}
+
+/**
+ * 切分超过长度上限的单句：优先在逗号等停顿处断开，仍过长则硬切
+ */
+function splitLongSentence(sentence: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const char of sentence) {
+    current += char;
+    if (current.length >= maxLength || (CLAUSE_BREAK_PATTERN.test(char) && current.length >= maxLength / 2)) {
+      pieces.push(current);
+      current = '';
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+/**
+ * 将文本切分为不超过maxLength的片段
+ * 相邻短句会合并，尽量减少TTS请求次数
+ */
+export function segmentText(text: string, maxLength: number = DEFAULT_SEGMENT_MAX_LENGTH): string[] {
+  const segments: string[] = [];
+  let current = '';
+
+  for (const sentence of splitSentences(text)) {
+    const pieces = sentence.length > maxLength ? splitLongSentence(sentence, maxLength) : [sentence];
+
+    for (const piece of pieces) {
+      if (current && current.length + piece.length > maxLength) {
+        segments.push(current);
+        current = '';
+      }
+      current += piece;
+    }
+  }
+
+  if (current) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * 增量分句器
+ * 配合流式聊天响应使用：不断写入增量文本，每凑满完整句子就产出片段
+ */
+export class SentenceSegmenter {
+  private buffer = '';
+  private readonly minLength: number;
+  private readonly maxLength: number;
+
+  /**
+   * @param minLength 产出片段的最小长度，过短的句子会与后续句子合并
+   * @param maxLength 片段最大长度
+   */
+  constructor(minLength: number = 8, maxLength: number = DEFAULT_SEGMENT_MAX_LENGTH) {
+    this.minLength = minLength;
+    this.maxLength = maxLength;
+  }
+
+  /**
+   * 写入增量文本，返回已完整的片段
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+
+    // 找到最后一个句末标点，其后的内容可能还未说完
+    let lastBoundary = -1;
+    for (let i = this.buffer.length - 1; i >= 0; i--) {
+      if (SENTENCE_END_PATTERN.test(this.buffer[i])) {
+        lastBoundary = i;
+        break;
+      }
+    }
+
+    // 句末标点恰好在末尾时，后面可能还会跟引号或括号，暂不切分
+    if (lastBoundary === -1 || lastBoundary === this.buffer.length - 1) {
+      return this.buffer.length > this.maxLength ? this.takeOverflow() : [];
+    }
+
+    const complete = this.buffer.slice(0, lastBoundary + 1);
+    const rest = this.buffer.slice(lastBoundary + 1);
+    let closers = 0;
+    while (closers < rest.length && TRAILING_CLOSERS.test(rest[closers])) {
+      closers++;
+    }
+
+    const candidate = complete + rest.slice(0, closers);
+    if (candidate.trim().length < this.minLength) {
+      return [];
+    }
+
+    this.buffer = rest.slice(closers);
+    return segmentText(candidate, this.maxLength);
+  }
+
+  /**
+   * 结束输入，返回剩余的全部内容
+   */
+  flush(): string[] {
+    const remaining = this.buffer;
+    this.buffer = '';
+    return segmentText(remaining, this.maxLength);
+  }
+
+  /**
+   * 缓冲区超长且没有句末标点时，强制切出一段
+   */
+  private takeOverflow(): string[] {
+    const pieces = splitLongSentence(this.buffer, this.maxLength);
+    this.buffer = pieces.pop() ?? '';
+    return pieces;
+  }
+}
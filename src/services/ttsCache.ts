@@ -0,0 +1,229 @@
+/**
+ * 语音合成缓存
+ * 以「提供方 + 文本 + 音色 + 音频参数」的SHA-256作为键，把合成结果存入IndexedDB，
+ * 相同内容再次朗读或刷新页面后回放时不再请求接口，离线时也能回放已合成过的语音。
+ * 缓存使用独立的数据库，总大小超过上限时按最近使用时间淘汰最久未用的条目
+ */
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { base64ToBytes, bytesToBase64, audioMimeType } from './audioCodec';
+import type { TTSRequest, TTSResponse } from './ttsService';
+
+// 缓存的合成结果
+type CachedAudio = NonNullable<TTSResponse['data']>;
+
+// 缓存统计
+export interface TTSCacheStats {
+  /** 条目数 */
+  count: number;
+  /** 音频总字节数 */
+  totalBytes: number;
+  /** 容量上限（字节） */
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  key: string;
+  blob: Blob;
+  format: CachedAudio['format'];
+  sentences?: CachedAudio['sentences'];
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+const DATABASE_NAME = 'qingxupaijie-tts-cache';
+const DATABASE_VERSION = 1;
+const ENTRY_STORE = 'entries';
+
+/** 默认容量上限（MB），可通过VITE_TTS_CACHE_MAX_MB调整，设为0关闭缓存 */
+const DEFAULT_MAX_MB = 50;
+
+/**
+ * 按键名排序后序列化，参数书写顺序不同的相同请求得到相同的键
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+class TTSCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private readonly maxBytes: number;
+
+  constructor() {
+    const configured = Number(import.meta.env.VITE_TTS_CACHE_MAX_MB);
+    const maxMb = import.meta.env.VITE_TTS_CACHE_MAX_MB && Number.isFinite(configured) ? configured : DEFAULT_MAX_MB;
+    this.maxBytes = Math.max(0, maxMb) * 1024 * 1024;
+  }
+
+  /**
+   * 是否启用缓存：需要IndexedDB和Web Crypto（仅安全上下文可用）
+   */
+  isEnabled(): boolean {
+    return this.maxBytes > 0 && typeof indexedDB !== 'undefined' && !!globalThis.crypto?.subtle;
+  }
+
+  /**
+   * 获取数据库连接（懒加载）
+   */
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DATABASE_NAME, DATABASE_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+          entries.createIndex('lastAccess', 'lastAccess');
+        }
+      });
+      this.dbPromise.catch(() => {
+        // 打开失败时允许下次重试
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 计算请求的缓存键
+   */
+  async createKey(providerId: string, request: TTSRequest): Promise<string> {
+    const source = stableStringify({
+      provider: providerId,
+      text: request.text,
+      speaker: request.speaker,
+      audioParams: request.audioParams ?? {},
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 查找缓存的合成结果，未命中或缓存不可用时返回null
+   */
+  async get(providerId: string, request: TTSRequest): Promise<CachedAudio | null> {
+    if (!this.isEnabled()) return null;
+
+    try {
+      const key = await this.createKey(providerId, request);
+      const db = await this.getDb();
+      const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+      const store = transaction.objectStore(ENTRY_STORE);
+      const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+      if (!entry) return null;
+
+      // 更新最近使用时间，淘汰时排在后面
+      store.put({ ...entry, lastAccess: Date.now() });
+      await transactionDone(transaction);
+
+      console.log('💾 语音缓存命中:', key.slice(0, 12));
+      return {
+        audio: bytesToBase64(new Uint8Array(await entry.blob.arrayBuffer())),
+        format: entry.format,
+        timestamp: entry.createdAt,
+        sentences: entry.sentences,
+      };
+    } catch (error) {
+      console.warn('语音缓存读取失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 写入合成结果，写入后超出容量时淘汰最久未用的条目
+   */
+  async put(providerId: string, request: TTSRequest, data: CachedAudio): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    try {
+      const key = await this.createKey(providerId, request);
+      // 在事务开始前完成base64解码，事务内不能等待非IndexedDB的异步操作
+      const bytes = base64ToBytes(data.audio);
+      if (bytes.length > this.maxBytes) return;
+
+      const now = Date.now();
+      const entry: CacheEntry = {
+        key,
+        blob: new Blob([bytes], { type: audioMimeType(data.format) }),
+        format: data.format,
+        sentences: data.sentences,
+        size: bytes.length,
+        createdAt: now,
+        lastAccess: now,
+      };
+
+      const db = await this.getDb();
+      const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+      transaction.objectStore(ENTRY_STORE).put(entry);
+      await transactionDone(transaction);
+
+      await this.evict();
+    } catch (error) {
+      console.warn('语音缓存写入失败:', error);
+    }
+  }
+
+  /**
+   * 按最近使用时间从旧到新删除条目，直到总大小不超过上限
+   */
+  private async evict(): Promise<void> {
+    const db = await this.getDb();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRY_STORE);
+    const entries = await requestToPromise<CacheEntry[]>(store.index('lastAccess').getAll());
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let removed = 0;
+    for (const entry of entries) {
+      if (totalBytes <= this.maxBytes) break;
+      store.delete(entry.key);
+      totalBytes -= entry.size;
+      removed++;
+    }
+    await transactionDone(transaction);
+
+    if (removed > 0) {
+      console.log(`🧹 语音缓存超出上限，已淘汰${removed}条`);
+    }
+  }
+
+  /**
+   * 获取缓存统计
+   */
+  async getStats(): Promise<TTSCacheStats> {
+    if (!this.isEnabled()) {
+      return { count: 0, totalBytes: 0, maxBytes: this.maxBytes };
+    }
+
+    const db = await this.getDb();
+    const transaction = db.transaction(ENTRY_STORE, 'readonly');
+    const entries = await requestToPromise<CacheEntry[]>(transaction.objectStore(ENTRY_STORE).getAll());
+    return {
+      count: entries.length,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /**
+   * 清空缓存
+   */
+  async clear(): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const db = await this.getDb();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    await transactionDone(transaction);
+    console.log('🗑️ 语音缓存已清空');
+  }
+}
+
+// 导出单例实例
+export const ttsCache = new TTSCache();
@@ -0,0 +1,134 @@
+/**
+ * 备用语音提供方
+ * - webspeech：浏览器自带的speechSynthesis，无需后端，但只能直接朗读、不产出音频数据
+ * - mock：生成与文本长度相当的提示音WAV（请求时间戳时按字平均分配），不发起网络请求，用于离线调试和测试
+ */
+import type { TTSProvider, TTSRequest, TTSResponse, SentenceTimestamp } from './ttsService';
+import { bytesToBase64, encodeWav } from './audioCodec';
+
+/**
+ * 浏览器朗读提供方
+ * 语速和音量沿用火山引擎的参数范围（-50~100），换算为speechSynthesis的倍率
+ */
+export class WebSpeechTTSProvider implements TTSProvider {
+  readonly id = 'webspeech';
+  readonly name = '浏览器朗读';
+  readonly producesAudio = false;
+
+  isConfigured(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  async synthesize(): Promise<TTSResponse> {
+    return {
+      success: false,
+      error: '浏览器朗读不产出音频数据，请直接朗读',
+    };
+  }
+
+  speak(request: TTSRequest, signal?: AbortSignal): Promise<void> {
+    if (!this.isConfigured()) {
+      return Promise.reject(new Error('当前浏览器不支持语音朗读'));
+    }
+    if (signal?.aborted) {
+      return Promise.resolve();
+    }
+
+    const synth = window.speechSynthesis;
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    utterance.lang = 'zh-CN';
+    const voice = synth.getVoices().find(item => item.lang.replace('_', '-').startsWith('zh'));
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    const speechRate = request.audioParams?.speechRate ?? 0;
+    const loudnessRate = request.audioParams?.loudnessRate ?? 0;
+    utterance.rate = Math.min(2, Math.max(0.5, 1 + speechRate / 100));
+    utterance.volume = Math.min(1, Math.max(0, 1 + loudnessRate / 100));
+
+    return new Promise<void>(resolve => {
+      const finish = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      };
+      const handleAbort = () => {
+        synth.cancel();
+        finish();
+      };
+
+      utterance.onend = finish;
+      utterance.onerror = event => {
+        // 被cancel()打断时同样会触发error，不视为失败
+        if (event.error !== 'canceled' && event.error !== 'interrupted') {
+          console.warn('浏览器朗读失败:', event.error);
+        }
+        finish();
+      };
+      signal?.addEventListener('abort', handleAbort);
+
+      synth.speak(utterance);
+    });
+  }
+}
+
+/**
+ * 模拟语音提供方
+ * 每个字生成固定时长的正弦提示音，便于在没有密钥时验证分句、排队和播放流程
+ */
+export class MockTTSProvider implements TTSProvider {
+  readonly id = 'mock';
+  readonly name = '模拟语音';
+  readonly producesAudio = true;
+  private sampleRate = 8000;
+  private secondsPerChar = 0.08;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async synthesize(request: TTSRequest): Promise<TTSResponse> {
+    const text = request.text.trim();
+    if (!text) {
+      return { success: false, error: '文本内容不能为空' };
+    }
+
+    const duration = Math.min(text.length * this.secondsPerChar, 10);
+    const frameCount = Math.round(duration * this.sampleRate);
+    const samples = new Float32Array(frameCount);
+    const fadeFrames = Math.min(400, frameCount / 2);
+    for (let i = 0; i < frameCount; i++) {
+      // 首尾淡入淡出，避免拼接时出现爆音
+      const envelope = Math.min(1, i / fadeFrames, (frameCount - i) / fadeFrames);
+      samples[i] = 0.2 * envelope * Math.sin((2 * Math.PI * 440 * i) / this.sampleRate);
+    }
+
+    return {
+      success: true,
+      data: {
+        audio: bytesToBase64(encodeWav(samples, this.sampleRate)),
+        format: 'wav',
+        timestamp: Date.now(),
+        sentences: request.audioParams?.enableTimestamp ? [this.createTimestamps(text, duration)] : undefined,
+      },
+    };
+  }
+
+  /**
+   * 按字平均分配时长，生成逐字时间戳
+   */
+  private createTimestamps(text: string, duration: number): SentenceTimestamp {
+    const chars = Array.from(text);
+    const charDuration = duration / chars.length;
+    return {
+      text,
+      startTime: 0,
+      endTime: duration,
+      words: chars.map((word, index) => ({
+        word,
+        startTime: index * charDuration,
+        endTime: (index + 1) * charDuration,
+      })),
+    };
+  }
+}
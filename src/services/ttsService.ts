@@ -1,14 +1,20 @@
 /**
- * 火山引擎TTS语音合成服务
- * 支持流式和非流式语音合成
+ * TTS语音合成服务
+ * 通过可插拔的语音提供方合成语音，按isConfigured()自动选择：
+ * 火山引擎（经后端代理）不可用时退回浏览器自带的speechSynthesis朗读
  */
-
-// TTS配置接口
+import { concatBase64Chunks } from './audioCodec';
+import { apiUrl, serverStatus } from './apiClient';
+import { WebSpeechTTSProvider, MockTTSProvider } from './ttsProviders';
+import { modeRegistry } from './modeRegistry';
+import { voiceSettings } from './voiceSettings';
+import { emotionDetector } from './emotionDetector';
+import { toSpeakableText } from './replyFormatter';
+import { ttsCache } from './ttsCache';
+
+// TTS配置接口（应用凭证和资源ID由后端代理持有）
 export interface TTSConfig {
-  appId: string;
-  accessKey: string;
   apiUrl: string;
-  resourceId: string;
 }
 
 // 音频参数接口
@@ -33,16 +39,56 @@ export interface TTSRequest {
   };
 }
 
+// 音频格式
+export type AudioFormat = NonNullable<AudioParams['format']>;
+
+// 字词时间戳（秒，相对于该段音频开头）
+export interface WordTimestamp {
+  word: string;
+  startTime: number;
+  endTime: number;
+}
+
+// 句子时间戳
+export interface SentenceTimestamp {
+  text: string;
+  startTime: number;
+  endTime: number;
+  words: WordTimestamp[];
+}
+
 // TTS响应接口
 export interface TTSResponse {
   success: boolean;
   data?: {
     audio: string; // base64编码的音频数据
+    /** 音频格式，未提供时为mp3 */
+    format?: AudioFormat;
     timestamp?: number;
+    /** 逐句、逐字的时间戳，请求开启enableTimestamp且提供方支持时返回 */
+    sentences?: SentenceTimestamp[];
   };
   error?: string;
 }
 
+// 语音提供方接口
+export interface TTSProvider {
+  /** 提供方标识 */
+  readonly id: string;
+  /** 显示名称 */
+  readonly name: string;
+  /** 是否产出音频数据；为false时只能直接朗读，无法保存回放 */
+  readonly producesAudio: boolean;
+  /** 是否已配置可用 */
+  isConfigured(): boolean;
+  /** 合成完整音频 */
+  synthesize(request: TTSRequest): Promise<TTSResponse>;
+  /** 流式合成，每收到一段音频即回调；未实现时由服务退回synthesize */
+  synthesizeStream?(request: TTSRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<TTSResponse>;
+  /** 直接朗读（不产出音频数据的提供方实现），朗读结束或被取消时完成 */
+  speak?(request: TTSRequest, signal?: AbortSignal): Promise<void>;
+}
+
 // 语音模式配置
 export interface VoiceModeConfig {
   speaker: string;
@@ -50,55 +96,28 @@ export interface VoiceModeConfig {
   emotionScale?: number;
   speechRate?: number;
   loudnessRate?: number;
+  /** 是否按每句话的语气调整情感和语速，默认开启 */
+  followEmotion?: boolean;
 }
 
+/** 模式未配置音色时使用的语音（知性温婉女声） */
+const DEFAULT_VOICE_CONFIG: VoiceModeConfig = {
+  speaker: 'ICL_zh_female_zhixingwenwan_tob',
+};
+
 /**
- * 不同情感模式的语音配置
- * 根据模式特点选择合适的音色和情感参数
+ * 调用方取消请求时抛出的错误
  */
-export const VOICE_MODE_CONFIGS: Record<string, VoiceModeConfig> = {
-  // 受气包模式：温和、耐心的男声
-  '受气包': {
-    speaker: 'zh_male_beijingxiaoye_emo_v2_mars_bigtts', // 北京小爷情感男声，适合温和场景
-    emotion: 'neutral',           // 改为中性情绪，可能更兼容
-    emotionScale: 1,              // 降低情绪强度
-    speechRate: 0,                // 正常语速
-    loudnessRate: 0,              // 正常音量
-  },
-  
-  // 抬杠模式：略带调侃的中性声音
-  '抬杠': {
-    speaker: 'zh_male_fanjuanqingnian_mars_bigtts',   // 反卷青年男声，适合抬杠场景
-    emotion: 'neutral',           // 中性情绪
-    emotionScale: 1,              // 较低情绪强度
-    speechRate: 10,               // 稍快语速，增加节奏感
-    loudnessRate: 0,              // 正常音量
-  },
-  
-  // 互相伤害模式：略带调侃的中性声音（保持兼容性）
-  '互相伤害': {
-    speaker: 'zh_male_fanjuanqingnian_mars_bigtts',   // 反卷青年男声，适合抬杠场景
-    emotion: 'neutral',           // 中性情绪
-    emotionScale: 1,              // 较低情绪强度
-    speechRate: 10,               // 稍快语速，增加节奏感
-    loudnessRate: 0,              // 正常音量
-  },
-  
-  // 心理疗愈模式：温暖、治愈的声音
-  '心理疗愈': {
-    speaker: 'ICL_zh_female_zhixingwenwan_tob',  // 知性温婉女声，适合治愈场景
-    emotion: 'gentle',            // 温柔情绪
-    emotionScale: 3,              // 较高情绪强度
-    speechRate: 10,               // 稍快语速（整数值）
-    loudnessRate: -5,             // 稍小音量，更温和
-  },
-};
+const createAbortError = () => new DOMException('请求已取消', 'AbortError');
 
 /**
- * TTS服务类
- * 封装火山引擎语音合成API调用
+ * 火山引擎语音合成提供方
+ * 请求经后端代理转发，鉴权请求头由代理补充
  */
-class TTSService {
+export class VolcengineTTSProvider implements TTSProvider {
+  readonly id = 'volcengine';
+  readonly name = '火山引擎';
+  readonly producesAudio = true;
   private config: TTSConfig;
   private retryCount = 3;        // 重试次数
   private retryDelay = 1000;     // 重试延迟（毫秒）
@@ -106,10 +125,7 @@ class TTSService {
 
   constructor() {
     this.config = {
-      appId: import.meta.env.VITE_TTS_APP_ID || '',
-      accessKey: import.meta.env.VITE_TTS_ACCESS_KEY || '',
-      apiUrl: import.meta.env.VITE_TTS_API_URL || 'https://openspeech.bytedance.com/api/v1/tts',
-      resourceId: import.meta.env.VITE_TTS_RESOURCE_ID || 'volc.tts.zh_cn',
+      apiUrl: apiUrl('/api/tts'),
     };
   }
 
@@ -117,19 +133,7 @@ class TTSService {
    * 检查TTS服务配置是否完整
    */
   isConfigured(): boolean {
-    return !!(this.config.appId && this.config.accessKey && this.config.apiUrl);
-  }
-
-  /**
-   * 获取配置状态信息
-   */
-  getConfigStatus() {
-    return {
-      hasAppId: !!this.config.appId,
-      hasAccessKey: !!this.config.accessKey,
-      hasApiUrl: !!this.config.apiUrl,
-      resourceId: this.config.resourceId,
-    };
+    return serverStatus.isAvailable('tts');
   }
 
   /**
@@ -141,24 +145,29 @@ class TTSService {
 
   /**
    * 带重试的HTTP请求
+   * 调用方取消时抛出AbortError且不再重试；超时抛出TimeoutError
    */
   private async requestWithRetry(
     url: string, 
     options: RequestInit, 
     attempt: number = 1
   ): Promise<Response> {
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    // 设置请求超时，调用方传入的取消信号同样生效
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(new DOMException('请求超时', 'TimeoutError')), this.requestTimeout);
+    const abortByCaller = () => controller.abort(createAbortError());
+    options.signal?.addEventListener('abort', abortByCaller, { once: true });
+
     try {
-      // 设置请求超时
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.requestTimeout);
-      
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
       });
       
-      clearTimeout(timeoutId);
-      
       // 检查HTTP状态码
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -167,16 +176,22 @@ class TTSService {
       return response;
     } catch (error) {
       console.error(`TTS请求失败 (尝试 ${attempt}/${this.retryCount}):`, error);
-      
-      // 如果还有重试次数且不是配置错误
-      if (attempt < this.retryCount && !this.isConfigurationError(error)) {
-        console.log(`${this.retryDelay}ms后重试...`);
-        await this.delay(this.retryDelay);
-        return this.requestWithRetry(url, options, attempt + 1);
+
+      if (options.signal?.aborted) {
+        throw createAbortError();
       }
-      
-      throw error;
+      // 没有重试次数或是配置错误时不再重试
+      if (attempt >= this.retryCount || this.isConfigurationError(error)) {
+        throw error;
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', abortByCaller);
     }
+
+    console.log(`${this.retryDelay}ms后重试...`);
+    await this.delay(this.retryDelay);
+    return this.requestWithRetry(url, options, attempt + 1);
   }
 
   /**
@@ -197,6 +212,10 @@ class TTSService {
    */
   private handleApiError(error: any): string {
     if (error?.name === 'AbortError') {
+      return '语音合成已取消';
+    }
+
+    if (error?.name === 'TimeoutError') {
       return '请求超时，请检查网络连接';
     }
     
@@ -225,13 +244,6 @@ class TTSService {
     return errorMessage || '语音合成服务暂时不可用';
   }
 
-  /**
-   * 检查配置是否完整
-   */
-  private validateConfig(): boolean {
-    return !!(this.config.appId && this.config.accessKey);
-  }
-
   /**
    * 生成请求ID
    */
@@ -240,14 +252,11 @@ class TTSService {
   }
 
   /**
-   * 构建请求头
+   * 构建请求头（鉴权请求头由后端代理补充）
    */
   private buildHeaders(): Record<string, string> {
     return {
       'Content-Type': 'application/json',
-      'X-Api-App-Key': this.config.appId,
-      'X-Api-Access-Key': this.config.accessKey,
-      'X-Api-Resource-Id': this.config.resourceId,
       'X-Api-Request-Id': this.generateRequestId(),
     };
   }
@@ -288,28 +297,34 @@ class TTSService {
   }
 
   /**
-   * 非流式语音合成
+   * 校验合成请求，返回错误信息；校验通过时返回null
    */
-  async synthesize(request: TTSRequest): Promise<TTSResponse> {
-    if (!this.validateConfig()) {
-      return {
-        success: false,
-        error: 'TTS配置不完整，请检查环境变量中的APP_ID和ACCESS_KEY',
-      };
+  private validateRequest(request: TTSRequest): string | null {
+    if (!this.isConfigured()) {
+      return 'TTS服务未配置，请检查后端代理的TTS_APP_ID和TTS_ACCESS_KEY';
     }
 
     // 检查文本长度
     if (!request.text || request.text.trim().length === 0) {
-      return {
-        success: false,
-        error: '文本内容不能为空',
-      };
+      return '文本内容不能为空';
     }
 
     if (request.text.length > 1000) {
+      return '文本长度不能超过1000个字符';
+    }
+
+    return null;
+  }
+
+  /**
+   * 非流式语音合成
+   */
+  async synthesize(request: TTSRequest): Promise<TTSResponse> {
+    const validationError = this.validateRequest(request);
+    if (validationError) {
       return {
         success: false,
-        error: '文本长度不能超过1000个字符',
+        error: validationError,
       };
     }
 
@@ -360,6 +375,7 @@ class TTSService {
       
       // 解析每一行JSON并收集音频数据
       const audioDataParts: string[] = [];
+      const sentences: SentenceTimestamp[] = [];
       let finalResult = null;
       
       for (let i = 0; i < lines.length; i++) {
@@ -384,6 +400,12 @@ class TTSService {
              console.log(`收集到第${i + 1}行音频数据，长度:`, lineResult.data.length);
            }
            
+           // 开启时间戳时，句子时间戳随音频分行返回
+           const sentence = this.parseSentence(lineResult.sentence);
+           if (sentence) {
+             sentences.push(sentence);
+           }
+           
            // 记录状态码信息
            console.log(`第${i + 1}行状态码: ${lineResult.code}, 消息: "${lineResult.message}"`);
            
@@ -432,7 +454,8 @@ class TTSService {
       }
       
       // 合并所有音频数据
-      const combinedAudioData = audioDataParts.join('');
+      // 每段base64都可能带填充符，需解码后再合并
+      const combinedAudioData = audioDataParts.length > 0 ? concatBase64Chunks(audioDataParts) : '';
       console.log('合并后的音频数据总长度:', combinedAudioData.length);
       
       // 构造最终结果，使用合并后的音频数据
@@ -454,7 +477,9 @@ class TTSService {
           success: true,
           data: {
             audio: combinedAudioData,
+            format: request.audioParams?.format ?? 'mp3',
             timestamp: Date.now(),
+            sentences: sentences.length > 0 ? sentences : undefined,
           },
         };
       } else {
@@ -473,19 +498,315 @@ class TTSService {
   }
 
   /**
-   * 根据情感模式获取语音配置
+   * 解析响应行中的句子时间戳（开启enable_timestamp后随音频返回），格式不符时返回null
+   */
+  private parseSentence(sentence: unknown): SentenceTimestamp | null {
+    if (!sentence || typeof sentence !== 'object') return null;
+
+    const { text, words } = sentence as { text?: unknown; words?: unknown };
+    if (typeof text !== 'string' || !Array.isArray(words)) return null;
+
+    const parsedWords: WordTimestamp[] = words
+      .filter((word): word is { word: string; startTime: number; endTime: number } =>
+        typeof word?.word === 'string' && typeof word.startTime === 'number' && typeof word.endTime === 'number')
+      .map(({ word, startTime, endTime }) => ({ word, startTime, endTime }));
+    if (parsedWords.length === 0) return null;
+
+    return {
+      text,
+      startTime: parsedWords[0].startTime,
+      endTime: parsedWords[parsedWords.length - 1].endTime,
+      words: parsedWords,
+    };
+  }
+
+  /**
+   * 解析流式响应中的单行JSON
+   * 返回该行携带的base64音频数据（可能为空字符串）和句子时间戳
+   */
+  private parseStreamLine(line: string, lineNumber: number): { audio: string; sentence: SentenceTimestamp | null } {
+    let lineResult: { code?: number; message?: string; data?: unknown; sentence?: unknown };
+    try {
+      lineResult = JSON.parse(line);
+    } catch (parseError: unknown) {
+      console.error(`第${lineNumber}行JSON解析错误:`, parseError);
+      const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+      throw new Error(`第${lineNumber}行JSON解析失败: ${errorMessage}`);
+    }
+
+    const code = lineResult.code ?? 0;
+    // 检查响应状态 - 支持多种成功状态码
+    if (code !== 0 && code !== 20000000) {
+      console.warn(`第${lineNumber}行状态码异常: ${code}, 消息: ${lineResult.message}`);
+      if (code < 0) {
+        throw new Error(`API返回错误: ${lineResult.message || '未知错误'} (状态码: ${code})`);
+      }
+    }
+
+    return {
+      audio: typeof lineResult.data === 'string' ? lineResult.data : '',
+      sentence: this.parseSentence(lineResult.sentence),
+    };
+  }
+
+  /**
+   * 流式语音合成
+   * 边下载边解析按行分隔的JSON响应，每收到一段音频就通过onChunk回调交出，
+   * 调用方可将其送入MediaSource或Web Audio，实现下载完成前即开始播放
+   */
+  async synthesizeStream(
+    request: TTSRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<TTSResponse> {
+    const validationError = this.validateRequest(request);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError,
+      };
+    }
+
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    const cancelRead = () => {
+      reader?.cancel().catch(() => {});
+    };
+
+    try {
+      const response = await this.requestWithRetry(this.config.apiUrl, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(request)),
+        signal,
+      });
+
+      if (!response.body) {
+        // 不支持ReadableStream的环境退回非流式合成
+        console.warn('当前环境不支持流式读取，退回非流式合成');
+        const result = await this.synthesize(request);
+        if (result.success && result.data?.audio) {
+          onChunk(result.data.audio);
+        }
+        return result;
+      }
+
+      reader = response.body.getReader();
+      // 响应头返回后请求已不受requestWithRetry的取消监听，读取期间被取消时中断读取
+      signal?.addEventListener('abort', cancelRead, { once: true });
+      const decoder = new TextDecoder('utf-8');
+      const audioDataParts: string[] = [];
+      const sentences: SentenceTimestamp[] = [];
+      let buffer = '';
+      let lineNumber = 0;
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        lineNumber++;
+        const { audio, sentence } = this.parseStreamLine(line.trim(), lineNumber);
+        if (sentence) {
+          sentences.push(sentence);
+        }
+        if (audio) {
+          audioDataParts.push(audio);
+          onChunk(audio);
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // 最后一行可能不完整，留到下次处理
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+      handleLine(buffer + decoder.decode());
+
+      if (audioDataParts.length === 0) {
+        throw new Error('API返回的音频数据为空');
+      }
+
+      console.log('流式合成完成，音频分片数:', audioDataParts.length);
+      return {
+        success: true,
+        data: {
+          audio: concatBase64Chunks(audioDataParts),
+          format: request.audioParams?.format ?? 'mp3',
+          timestamp: Date.now(),
+          sentences: sentences.length > 0 ? sentences : undefined,
+        },
+      };
+    } catch (error) {
+      console.error('TTS流式合成错误:', error);
+
+      return {
+        success: false,
+        error: this.handleApiError(error),
+      };
+    } finally {
+      signal?.removeEventListener('abort', cancelRead);
+      reader?.releaseLock();
+    }
+  }
+}
+
+/**
+ * TTS服务
+ * 按优先级选择第一个可用的提供方；VITE_TTS_PROVIDER可强制指定（如测试时使用mock）
+ */
+class TTSService {
+  private providers: TTSProvider[];
+  private forcedProvider: TTSProvider | null = null;
+
+  constructor() {
+    this.providers = [new VolcengineTTSProvider(), new WebSpeechTTSProvider(), new MockTTSProvider()];
+
+    const forcedId = import.meta.env.VITE_TTS_PROVIDER;
+    if (forcedId) {
+      this.forcedProvider = this.providers.find(provider => provider.id === forcedId) ?? null;
+      if (!this.forcedProvider) {
+        console.warn(`⚠️ 未知的语音提供方: ${forcedId}，改为自动选择`);
+      }
+    }
+  }
+
+  /**
+   * 获取当前使用的提供方
+   * 模拟提供方只在强制指定时使用
+   */
+  getProvider(): TTSProvider {
+    if (this.forcedProvider) {
+      return this.forcedProvider;
+    }
+    return this.providers.find(provider => provider.id !== 'mock' && provider.isConfigured()) ?? this.providers[0];
+  }
+
+  /**
+   * 强制使用指定的提供方，传null恢复自动选择
+   */
+  setProvider(provider: TTSProvider | null): void {
+    if (provider && !this.providers.includes(provider)) {
+      this.providers.push(provider);
+    }
+    this.forcedProvider = provider;
+    console.log(`切换语音提供方: ${provider ? provider.name : '自动选择'}`);
+  }
+
+  /**
+   * 检查是否有可用的语音提供方
+   */
+  isConfigured(): boolean {
+    return this.getProvider().isConfigured();
+  }
+
+  /**
+   * 当前提供方是否产出音频数据（否则只能直接朗读）
+   */
+  producesAudio(): boolean {
+    return this.getProvider().producesAudio;
+  }
+
+  /**
+   * 获取配置状态信息
+   */
+  getConfigStatus() {
+    const provider = this.getProvider();
+    return {
+      isLoaded: serverStatus.isLoaded(),
+      isAvailable: provider.isConfigured(),
+      providerId: provider.id,
+      providerName: provider.name,
+      producesAudio: provider.producesAudio,
+      supportsStreaming: !!provider.synthesizeStream,
+    };
+  }
+
+  /**
+   * 非流式语音合成
+   * 产出音频的提供方先查本地缓存，未命中再请求接口，成功后写入缓存
+   */
+  async synthesize(request: TTSRequest): Promise<TTSResponse> {
+    const provider = this.getProvider();
+    if (!provider.producesAudio) {
+      return provider.synthesize(request);
+    }
+
+    const cached = await ttsCache.get(provider.id, request);
+    if (cached) {
+      return { success: true, data: cached };
+    }
+
+    const result = await provider.synthesize(request);
+    this.cacheResult(provider, request, result);
+    return result;
+  }
+
+  /**
+   * 流式语音合成，提供方不支持流式时一次性交出完整音频
+   */
+  async synthesizeStream(
+    request: TTSRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<TTSResponse> {
+    const provider = this.getProvider();
+    if (!provider.synthesizeStream) {
+      const result = await this.synthesize(request);
+      if (result.success && result.data?.audio) {
+        onChunk(result.data.audio);
+      }
+      return result;
+    }
+
+    // 命中缓存时一次性交出完整音频
+    const cached = provider.producesAudio ? await ttsCache.get(provider.id, request) : null;
+    if (cached) {
+      onChunk(cached.audio);
+      return { success: true, data: cached };
+    }
+
+    const result = await provider.synthesizeStream(request, onChunk, signal);
+    this.cacheResult(provider, request, result);
+    return result;
+  }
+
+  /**
+   * 合成成功的音频写入缓存（后台进行，不阻塞播放）
+   */
+  private cacheResult(provider: TTSProvider, request: TTSRequest, result: TTSResponse): void {
+    if (provider.producesAudio && result.success && result.data?.audio) {
+      void ttsCache.put(provider.id, request, result.data);
+    }
+  }
+
+  /**
+   * 根据情感模式获取语音配置：prompts.md中各模式的语音设定，叠加用户在语音设置中的覆盖
    */
   getVoiceConfigByMode(mode: string): VoiceModeConfig {
-    return VOICE_MODE_CONFIGS[mode] || VOICE_MODE_CONFIGS['心理疗愈'];
+    return { ...(modeRegistry.get(mode)?.voice ?? DEFAULT_VOICE_CONFIG), ...voiceSettings.get(mode) };
   }
 
   /**
-   * 根据情感模式合成语音
+   * 构建情感模式对应的合成请求
+   * 按原文（含舞台说明）的语气调整模式的语音配置，朗读的文本去掉舞台说明和markdown标记
    */
-  async synthesizeByMode(text: string, mode: string): Promise<TTSResponse> {
-    const voiceConfig = this.getVoiceConfigByMode(mode);
-    
-    const request: TTSRequest = {
+  buildRequestByMode(text: string, mode: string): TTSRequest {
+    const voiceConfig = emotionDetector.adjustVoice(this.getVoiceConfigByMode(mode), text);
+    return this.buildRequestWithVoice(toSpeakableText(text), voiceConfig);
+  }
+
+  /**
+   * 按指定的语音配置构建合成请求（编辑人设时试听未保存的配置）
+   */
+  buildRequestWithVoice(text: string, voiceConfig: VoiceModeConfig): TTSRequest {
+    return {
       text,
       speaker: voiceConfig.speaker,
       audioParams: {
@@ -495,24 +816,36 @@ class TTSService {
         emotionScale: voiceConfig.emotionScale,
         speechRate: voiceConfig.speechRate,
         loudnessRate: voiceConfig.loudnessRate,
-        enableTimestamp: false,
+        // 返回逐字时间戳，回放时高亮正在朗读的字
+        enableTimestamp: true,
       },
     };
+  }
 
-    return this.synthesize(request);
+  /**
+   * 根据情感模式合成语音
+   */
+  async synthesizeByMode(text: string, mode: string): Promise<TTSResponse> {
+    return this.synthesize(this.buildRequestByMode(text, mode));
   }
 
   /**
-   * 流式语音合成（预留接口）
+   * 根据情感模式直接朗读
+   * 产出音频的提供方不支持直接朗读，调用方应先合成再播放
    */
-  async synthesizeStream(
-    request: TTSRequest,
-    _onChunk: (chunk: string) => void
-  ): Promise<TTSResponse> {
-    // 流式合成的实现会更复杂，需要处理Server-Sent Events或WebSocket
-    // 这里先提供基础框架
-    console.log('流式合成功能待实现');
-    return this.synthesize(request);
+  async speakByMode(text: string, mode: string, signal?: AbortSignal): Promise<void> {
+    await this.speak(this.buildRequestByMode(text, mode), signal);
+  }
+
+  /**
+   * 直接朗读合成请求
+   */
+  async speak(request: TTSRequest, signal?: AbortSignal): Promise<void> {
+    const provider = this.getProvider();
+    if (!provider.speak) {
+      throw new Error(`${provider.name}不支持直接朗读`);
+    }
+    await provider.speak(request, signal);
   }
 }
 
@@ -0,0 +1,145 @@
+/**
+ * 语音活动检测（VAD）
+ * 基于AnalyserNode计算麦克风音量（RMS），持续高于阈值视为开始说话，
+ * 持续低于阈值一段时间视为说完
+ */
+
+// 检测参数
+export interface VADOptions {
+  /** 判定为说话的音量阈值（RMS，0~1） */
+  speechThreshold?: number;
+  /** 静音持续多久视为说完（毫秒） */
+  silenceDuration?: number;
+  /** 音量持续高于阈值多久才视为开始说话（毫秒），过滤咳嗽、敲桌等短促声音 */
+  minSpeechDuration?: number;
+  /** 开始说话 */
+  onSpeechStart?: () => void;
+  /** 说完 */
+  onSpeechEnd?: () => void;
+  /** 实时音量（0~1），用于界面动画 */
+  onLevel?: (level: number) => void;
+}
+
+/** 采样间隔（毫秒），使用定时器而非requestAnimationFrame，页面切到后台时仍能检测 */
+const SAMPLE_INTERVAL = 50;
+
+const DEFAULT_OPTIONS = {
+  speechThreshold: 0.02,
+  silenceDuration: 900,
+  minSpeechDuration: 250,
+};
+
+export class VoiceActivityDetector {
+  private options: VADOptions & typeof DEFAULT_OPTIONS;
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private buffer: Float32Array | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private speaking = false;
+  private aboveSince = 0;
+  private lastVoiceTime = 0;
+
+  constructor(options: VADOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 开始检测指定的麦克风音频流
+   */
+  async start(stream: MediaStream): Promise<void> {
+    this.stop();
+
+    this.audioContext = new AudioContext();
+    // 部分浏览器创建后处于挂起状态
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+    this.source = this.audioContext.createMediaStreamSource(stream);
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = 1024;
+    this.source.connect(this.analyser);
+    this.buffer = new Float32Array(this.analyser.fftSize);
+
+    this.reset();
+    this.timer = setInterval(() => this.tick(), SAMPLE_INTERVAL);
+  }
+
+  /**
+   * 停止检测并释放音频上下文（不会关闭麦克风）
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.source?.disconnect();
+    this.audioContext?.close();
+    this.source = null;
+    this.analyser = null;
+    this.audioContext = null;
+    this.buffer = null;
+    this.speaking = false;
+  }
+
+  /**
+   * 重置说话状态，例如每轮对话重新开始监听时
+   */
+  reset(): void {
+    this.speaking = false;
+    this.aboveSince = 0;
+    this.lastVoiceTime = 0;
+  }
+
+  /**
+   * 调整检测参数（例如AI说话时提高阈值，避免把扬声器回声当成打断）
+   */
+  configure(options: Pick<VADOptions, 'speechThreshold' | 'silenceDuration' | 'minSpeechDuration'>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * 当前是否处于说话状态
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  private tick(): void {
+    if (!this.analyser || !this.buffer) return;
+
+    this.analyser.getFloatTimeDomainData(this.buffer);
+    let sumSquares = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      sumSquares += this.buffer[i] * this.buffer[i];
+    }
+    const rms = Math.sqrt(sumSquares / this.buffer.length);
+    this.options.onLevel?.(Math.min(1, rms * 10));
+
+    const now = Date.now();
+    const { speechThreshold, silenceDuration, minSpeechDuration } = this.options;
+
+    if (rms >= speechThreshold) {
+      this.lastVoiceTime = now;
+      if (!this.aboveSince) {
+        this.aboveSince = now;
+      }
+      if (!this.speaking && now - this.aboveSince >= minSpeechDuration) {
+        this.speaking = true;
+        this.options.onSpeechStart?.();
+      }
+      return;
+    }
+
+    if (!this.speaking) {
+      this.aboveSince = 0;
+      return;
+    }
+
+    if (now - this.lastVoiceTime >= silenceDuration) {
+      this.speaking = false;
+      this.aboveSince = 0;
+      this.options.onSpeechEnd?.();
+    }
+  }
+}
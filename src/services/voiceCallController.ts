@@ -0,0 +1,298 @@
+/**
+ * 语音通话控制器
+ * 免提循环：监听 → 说完后语音识别 → 调用大模型 → 分句合成并播放 → 再次监听；
+ * AI回复期间检测到用户开口即打断（barge-in），立即停止播放并重新监听
+ */
+import { doubaoApi, ChatMessage, EmotionMode } from './doubaoApi';
+import { contextManager } from './contextManager';
+import { ttsService, AudioFormat, SentenceTimestamp } from './ttsService';
+import { asrService } from './asrService';
+import { AudioRecorder } from './audioRecorder';
+import { SpeechPipeline } from './speechPipeline';
+import { VoiceActivityDetector } from './voiceActivityDetector';
+
+// 通话状态
+export type VoiceCallState = 'idle' | 'listening' | 'thinking' | 'speaking' | 'ended';
+
+// 通话配置与回调
+export interface VoiceCallOptions {
+  /** 情绪模式，同时决定回复使用的音色 */
+  mode: EmotionMode;
+  /** 获取当前对话历史（不含本轮用户消息） */
+  getHistory: () => ChatMessage[];
+  /** 获取当前会话ID，用于上下文摘要缓存 */
+  getSessionId?: () => string | null;
+  /** 状态变化 */
+  onStateChange?: (state: VoiceCallState) => void;
+  /** 麦克风实时音量（0~1） */
+  onLevel?: (level: number) => void;
+  /** 识别出一句用户发言 */
+  onUserMessage?: (text: string) => void;
+  /** AI回复增量更新（fullText为目前为止的完整回复） */
+  onAssistantReply?: (id: string, fullText: string) => void;
+  /** AI回复语音合成完成 */
+  onAssistantAudio?: (id: string, audio: string, format: AudioFormat, timestamps?: SentenceTimestamp[]) => void;
+  /** 出错 */
+  onError?: (error: string) => void;
+}
+
+/** 监听时的说话检测参数 */
+const LISTENING_VAD = { speechThreshold: 0.02, minSpeechDuration: 250, silenceDuration: 900 };
+/** AI回复时的打断检测参数：阈值更高、持续更久，避免扬声器回声误触发 */
+const BARGE_IN_VAD = { speechThreshold: 0.06, minSpeechDuration: 400, silenceDuration: 900 };
+/** 长时间没有说话时重新开始录音，避免录音中积累大段静音（毫秒） */
+const MAX_IDLE_LISTEN = 30000;
+
+export class VoiceCallController {
+  private options: VoiceCallOptions;
+  private state: VoiceCallState = 'idle';
+  private stream: MediaStream | null = null;
+  private recorder: AudioRecorder | null = null;
+  private vad: VoiceActivityDetector;
+  private pipeline: SpeechPipeline | null = null;
+  private abortController: AbortController | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private heardSpeech = false;
+  // 每轮对话的序号，打断或挂断后旧一轮的异步回调据此失效
+  private turn = 0;
+
+  constructor(options: VoiceCallOptions) {
+    this.options = options;
+    this.vad = new VoiceActivityDetector({
+      ...LISTENING_VAD,
+      onSpeechStart: () => this.handleSpeechStart(),
+      onSpeechEnd: () => this.handleSpeechEnd(),
+      onLevel: level => this.options.onLevel?.(level),
+    });
+  }
+
+  /**
+   * 当前浏览器与配置是否支持语音通话
+   */
+  static isSupported(): boolean {
+    return AudioRecorder.isSupported() && typeof AudioContext !== 'undefined';
+  }
+
+  getState(): VoiceCallState {
+    return this.state;
+  }
+
+  /**
+   * 开始通话（需在用户手势中调用，以获得麦克风和自动播放权限）
+   */
+  async start(): Promise<void> {
+    if (this.state !== 'idle') return;
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NotAllowedError') {
+        throw new Error('麦克风权限被拒绝，请在浏览器设置中允许访问麦克风');
+      }
+      throw new Error('无法打开麦克风');
+    }
+
+    // 等待授权期间已经挂断
+    if (this.getState() === 'ended') {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+      return;
+    }
+
+    await this.vad.start(this.stream);
+    console.log('📞 语音通话开始');
+    await this.beginListening(false);
+  }
+
+  /**
+   * 挂断：停止录音、生成与播放，释放麦克风
+   */
+  stop(): void {
+    if (this.state === 'ended') return;
+    this.turn++;
+    this.interruptReply();
+    this.clearIdleTimer();
+    this.recorder?.cancel();
+    this.recorder = null;
+    this.vad.stop();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.setState('ended');
+    console.log('📞 语音通话结束');
+  }
+
+  private setState(state: VoiceCallState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+
+  /**
+   * 进入监听状态并开始录音
+   * @param alreadySpeaking 用户已经在说话（打断时）
+   */
+  private async beginListening(alreadySpeaking: boolean): Promise<void> {
+    if (!this.stream) return;
+
+    this.heardSpeech = alreadySpeaking;
+    this.vad.configure(LISTENING_VAD);
+    if (!alreadySpeaking) {
+      this.vad.reset();
+    }
+
+    this.recorder?.cancel();
+    this.recorder = new AudioRecorder();
+    try {
+      await this.recorder.start(this.stream);
+    } catch (error) {
+      this.options.onError?.(error instanceof Error ? error.message : '无法开始录音');
+      this.stop();
+      return;
+    }
+
+    this.setState('listening');
+    this.resetIdleTimer();
+  }
+
+  private handleSpeechStart(): void {
+    if (this.state === 'listening') {
+      this.heardSpeech = true;
+      this.clearIdleTimer();
+      return;
+    }
+
+    if (this.state === 'thinking' || this.state === 'speaking') {
+      console.log('✋ 检测到用户打断');
+      this.turn++;
+      this.interruptReply();
+      this.beginListening(true);
+    }
+  }
+
+  private handleSpeechEnd(): void {
+    if (this.state === 'listening' && this.heardSpeech) {
+      this.finishTurn();
+    }
+  }
+
+  /**
+   * 用户说完：识别录音并生成回复
+   */
+  private async finishTurn(): Promise<void> {
+    const turn = ++this.turn;
+    const recorder = this.recorder;
+    this.recorder = null;
+    this.clearIdleTimer();
+    if (!recorder?.isRecording()) {
+      await this.beginListening(false);
+      return;
+    }
+
+    this.setState('thinking');
+    // 回复期间只响应更明显的说话声作为打断
+    this.vad.configure(BARGE_IN_VAD);
+
+    try {
+      const recording = await recorder.stop();
+      const result = await asrService.recognize(recording.blob);
+      if (turn !== this.turn) return;
+
+      if (!result.success || !result.text) {
+        console.warn('语音识别没有结果:', result.error);
+        await this.beginListening(false);
+        return;
+      }
+
+      // 先取历史再通知新发言，避免历史中重复包含本轮消息
+      const history = this.options.getHistory();
+      this.options.onUserMessage?.(result.text);
+      await this.respond([...history, { role: 'user', content: result.text }], turn);
+    } catch (error) {
+      if (turn !== this.turn) return;
+      console.error('语音通话本轮出错:', error);
+      this.options.onError?.(error instanceof Error ? error.message : '语音通话出错');
+    }
+
+    if (turn === this.turn) {
+      await this.beginListening(false);
+    }
+  }
+
+  /**
+   * 生成并播放AI回复，播放完毕后返回
+   */
+  private async respond(history: ChatMessage[], turn: number): Promise<void> {
+    const { mode } = this.options;
+    const context = await contextManager.prepareMessages(history, mode, this.options.getSessionId?.() ?? 'pending');
+    if (turn !== this.turn) return;
+
+    const replyId = Date.now().toString();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const createPipeline = () => ttsService.isConfigured()
+      ? new SpeechPipeline({ mode, messageId: replyId, priority: 'interrupt' })
+      : null;
+    let pipeline = createPipeline();
+    this.pipeline = pipeline;
+
+    const reply = await doubaoApi.sendMessageStream(context.messages, mode, {
+      signal: abortController.signal,
+      history,
+      onDelta: (delta, fullText) => {
+        if (turn !== this.turn) return;
+        pipeline?.push(delta);
+        this.setState('speaking');
+        this.options.onAssistantReply?.(replyId, fullText);
+      },
+      // 回复未通过内容审核被替换时，改为朗读替换后的内容
+      onReplace: (fullText) => {
+        if (turn !== this.turn) return;
+        pipeline?.cancel();
+        pipeline = createPipeline();
+        this.pipeline = pipeline;
+        pipeline?.push(fullText);
+        this.setState('speaking');
+        this.options.onAssistantReply?.(replyId, fullText);
+      },
+    });
+    this.abortController = null;
+    if (turn !== this.turn || !reply || !pipeline) return;
+
+    const { audio, format, timestamps } = await pipeline.end();
+    if (audio) {
+      this.options.onAssistantAudio?.(replyId, audio, format, timestamps);
+    }
+    await pipeline.waitForPlayback();
+    this.pipeline = null;
+  }
+
+  /**
+   * 中断正在进行的回复生成与播放
+   */
+  private interruptReply(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    if (this.pipeline) {
+      this.pipeline.cancel();
+      this.pipeline = null;
+    }
+  }
+
+  private resetIdleTimer(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      if (this.state === 'listening' && !this.heardSpeech) {
+        this.beginListening(false);
+      }
+    }, MAX_IDLE_LISTEN);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * 语音设置
+ * 用户在语音设置面板中为各模式覆盖的音色参数，保存在localStorage中。
+ * 合成时在prompts.md中配置的语音设定之上叠加，未覆盖的参数仍使用模式的配置
+ */
+import type { VoiceModeConfig } from './ttsService';
+
+type VoiceSettingsListener = () => void;
+
+const STORAGE_KEY = 'qingxupaijie:voiceOverrides';
+
+class VoiceSettings {
+  private overrides: Record<string, Partial<VoiceModeConfig>> = {};
+  private listeners = new Set<VoiceSettingsListener>();
+
+  constructor() {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      if (saved && typeof saved === 'object' && !Array.isArray(saved)) {
+        this.overrides = saved;
+      }
+    } catch (error) {
+      console.warn('语音设置读取失败:', error);
+    }
+  }
+
+  /**
+   * 获取模式的覆盖参数，没有覆盖时返回空对象
+   */
+  get(mode: string): Partial<VoiceModeConfig> {
+    return this.overrides[mode] ?? {};
+  }
+
+  /**
+   * 合并模式的覆盖参数
+   */
+  update(mode: string, patch: Partial<VoiceModeConfig>): void {
+    this.overrides = { ...this.overrides, [mode]: { ...this.get(mode), ...patch } };
+    this.persist();
+  }
+
+  /**
+   * 清除模式的覆盖参数，恢复prompts.md中的配置
+   */
+  reset(mode: string): void {
+    const rest = { ...this.overrides };
+    delete rest[mode];
+    this.overrides = rest;
+    this.persist();
+  }
+
+  /**
+   * 订阅设置变化，返回取消订阅函数
+   */
+  subscribe(listener: VoiceSettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.overrides));
+    } catch (error) {
+      console.warn('语音设置保存失败:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// 导出单例实例
+export const voiceSettings = new VoiceSettings();
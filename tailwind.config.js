@@ -1,8 +1,19 @@
 /** @type {import('tailwindcss').Config} */
 export default {
-  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}', './src/config/*.md'],
   theme: {
-    extend: {},
+    extend: {
+      keyframes: {
+        'pop-in': {
+          '0%': { opacity: '0', transform: 'scale(0.8)' },
+          '100%': { opacity: '1', transform: 'scale(1)' },
+        },
+      },
+      animation: {
+        // 回复中的动作标签出现时弹出
+        'pop-in': 'pop-in 0.3s ease-out',
+      },
+    },
   },
   plugins: [],
 };
@@ -11,15 +11,10 @@ export default defineConfig({
   assetsInclude: ['**/*.md'], // 支持导入markdown文件作为资源
   server: {
     proxy: {
-      // 代理火山引擎TTS API
-      '/api/tts': {
-        target: 'https://openspeech.bytedance.com',
+      // 开发环境把接口请求转发给本地后端代理（npm run server），密钥只保存在代理中
+      '/api': {
+        target: 'http://localhost:8787',
         changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/tts/, '/api/v3/tts'),
-        secure: true,
-        headers: {
-          'Origin': 'https://openspeech.bytedance.com',
-        },
       },
     },
   },